@@ -7,6 +7,7 @@ export const defaults = {
   server: {
     port: 3000,
     host: '0.0.0.0',
+    bodyLimitBytes: 1024 * 1024,
   },
   observability: {
     otlp: {
@@ -16,5 +17,13 @@ export const defaults = {
   logging: {
     level: 'info',
     pretty: process.env.NODE_ENV !== 'production',
+    redact: ['password', 'email', 'token', 'authorization', 'secret'],
+  },
+  passwordPolicy: {
+    minLength: 8,
+    maxLength: 128,
+    tiers: {
+      admin: { minLength: 14 },
+    },
   },
 } as const;
@@ -5,13 +5,22 @@ export const envSchema = z.object({
   SERVICE_NAME: z.string().default('modulith-dx'),
   SERVICE_VERSION: z.string().default('0.0.1'),
   PORT: z.coerce.number().default(3000),
+  HOST: z.string().optional(),
+  HTTP_BODY_LIMIT_BYTES: z.coerce.number().int().positive().optional(),
   
   // OpenTelemetry
   OTEL_EXPORTER_OTLP_ENDPOINT: z.string().default('http://localhost:4318'),
   OTEL_SERVICE_NAMESPACE: z.string().default('modulith'),
   
   // Logging
-  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  LOG_PRETTY: z.enum(['true', 'false']).optional(),
+  LOG_REDACT: z.string().optional(),
+
+  // Password policy
+  PASSWORD_MIN_LENGTH: z.coerce.number().int().positive().optional(),
+  PASSWORD_MAX_LENGTH: z.coerce.number().int().positive().optional(),
+  PASSWORD_DENY_LIST_FILE: z.string().optional(),
 });
 
 export type Env = z.infer<typeof envSchema>;
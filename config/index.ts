@@ -1,2 +1,5 @@
 export * from './env.schema';
 export * from './defaults';
+export * from './logging';
+export * from './passwordPolicy';
+export * from './server';
@@ -0,0 +1,18 @@
+import { defaults } from './defaults';
+import type { Env } from './env.schema';
+
+export interface ResolvedLoggingConfig {
+  level: NonNullable<Env['LOG_LEVEL']>;
+  pretty: boolean;
+  redact: string[];
+}
+
+export const resolveLoggingConfig = (env: Env): ResolvedLoggingConfig => {
+  return {
+    level: env.LOG_LEVEL ?? defaults.logging.level,
+    pretty: env.LOG_PRETTY ? env.LOG_PRETTY === 'true' : defaults.logging.pretty,
+    redact: env.LOG_REDACT
+      ? env.LOG_REDACT.split(',').map((key) => key.trim()).filter(Boolean)
+      : [...defaults.logging.redact],
+  };
+};
@@ -0,0 +1,18 @@
+import { defaults } from './defaults';
+import type { Env } from './env.schema';
+
+export interface ResolvedPasswordPolicyConfig {
+  minLength: number;
+  maxLength: number;
+  tiers: Record<string, { minLength?: number; maxLength?: number }>;
+  denyListPath?: string;
+}
+
+export const resolvePasswordPolicyConfig = (env: Env): ResolvedPasswordPolicyConfig => {
+  return {
+    minLength: env.PASSWORD_MIN_LENGTH ?? defaults.passwordPolicy.minLength,
+    maxLength: env.PASSWORD_MAX_LENGTH ?? defaults.passwordPolicy.maxLength,
+    tiers: structuredClone(defaults.passwordPolicy.tiers),
+    denyListPath: env.PASSWORD_DENY_LIST_FILE,
+  };
+};
@@ -0,0 +1,16 @@
+import type { Env } from './env.schema';
+import { defaults } from './defaults';
+
+export interface ResolvedServerConfig {
+  port: number;
+  host: string;
+  bodyLimitBytes: number;
+}
+
+export const resolveServerConfig = (env: Env): ResolvedServerConfig => {
+  return {
+    port: env.PORT,
+    host: env.HOST ?? defaults.server.host,
+    bodyLimitBytes: env.HTTP_BODY_LIMIT_BYTES ?? defaults.server.bodyLimitBytes,
+  };
+};
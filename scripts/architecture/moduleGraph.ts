@@ -0,0 +1,223 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join, posix, relative, sep } from 'node:path';
+import ts from 'typescript';
+
+export const CONTEXT_LAYERS = ['domain', 'application', 'infrastructure', 'interface'] as const;
+export type ContextLayer = (typeof CONTEXT_LAYERS)[number];
+
+/** Layers each context layer may import from its own context; every layer may use `src/shared`. */
+export const ALLOWED_LAYER_DEPENDENCIES: Record<ContextLayer, readonly ContextLayer[]> = {
+  domain: ['domain'],
+  application: ['application', 'domain'],
+  infrastructure: ['infrastructure', 'application', 'domain'],
+  interface: ['interface', 'infrastructure', 'application', 'domain'],
+};
+
+export interface SourceFile {
+  /** Repository-relative POSIX path, e.g. `src/core/example/domain/entities/User.ts`. */
+  path: string;
+  text: string;
+}
+
+/**
+ * Where a file sits in the architecture. Context files outside the four layers
+ * (e.g. a context's `index.ts`) get the `root` layer, which may import its whole context.
+ */
+export interface Location {
+  module: string;
+  kind: 'context' | 'shared';
+  layer: ContextLayer | 'root' | string;
+}
+
+export type ViolationKind = 'layer' | 'cross-context' | 'shared-depends-on-context';
+
+export interface Violation {
+  kind: ViolationKind;
+  file: string;
+  specifier: string;
+  message: string;
+}
+
+export interface GraphNode {
+  id: string;
+  module: string;
+  layer: string;
+  files: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  imports: number;
+}
+
+export interface DependencyReport {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  violations: Violation[];
+}
+
+export interface AnalyzeOptions {
+  /**
+   * Paths, relative to a context's directory and without extension, that other
+   * contexts may import. Defaults to the context's `index`.
+   */
+  publicApi?: Record<string, readonly string[]>;
+}
+
+const SOURCE_ROOTS = ['src/core', 'src/shared'];
+const ALIASES: Record<string, string> = { '@core/': 'src/core/', '@shared/': 'src/shared/' };
+
+/** Reads every `.ts` file under `src/core` and `src/shared` of the repository at `rootDir`. */
+export const collectSources = (rootDir: string): SourceFile[] =>
+  SOURCE_ROOTS.flatMap((dir) =>
+    readdirSync(join(rootDir, dir), { recursive: true, withFileTypes: true })
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.ts'))
+      .map((entry) => join(entry.parentPath, entry.name))
+      .sort()
+      .map((file) => ({
+        path: relative(rootDir, file).split(sep).join(posix.sep),
+        text: readFileSync(file, 'utf8'),
+      })),
+  );
+
+export const locate = (path: string): Location | null => {
+  const [src, area, name, layer, ...rest] = path.split('/');
+  if (src !== 'src' || !name) {
+    return null;
+  }
+  if (area === 'shared') {
+    return { module: 'shared', kind: 'shared', layer: name.replace(/\.ts$/, '') };
+  }
+  if (area !== 'core') {
+    return null;
+  }
+  const inLayer =
+    rest.length > 0 && (CONTEXT_LAYERS as readonly string[]).includes(layer ?? '');
+  return { module: name, kind: 'context', layer: inLayer ? layer : 'root' };
+};
+
+/** Resolves an import to a repository-relative path, or `null` for packages and Node built-ins. */
+export const resolveImport = (fromPath: string, specifier: string): string | null => {
+  const alias = Object.keys(ALIASES).find((prefix) => specifier.startsWith(prefix));
+  if (alias) {
+    return ALIASES[alias] + specifier.slice(alias.length);
+  }
+  if (specifier.startsWith('.')) {
+    return posix.join(posix.dirname(fromPath), specifier);
+  }
+  return null;
+};
+
+const importsOf = (file: SourceFile): string[] =>
+  ts.preProcessFile(file.text, true, true).importedFiles.map((imported) => imported.fileName);
+
+const nodeId = ({ module, layer }: Location): string => `${module}.${layer}`;
+
+const isPublic = (target: string, module: string, options: AnalyzeOptions): boolean => {
+  const path = posix.relative(`src/core/${module}`, target).replace(/\.ts$/, '');
+  const publicApi = options.publicApi?.[module] ?? ['index'];
+  return path === '' || publicApi.some((entry) => path === entry || path === `${entry}/index`);
+};
+
+const checkImport = (
+  from: Location,
+  to: Location,
+  target: string,
+  options: AnalyzeOptions,
+): Omit<Violation, 'file' | 'specifier'> | null => {
+  if (from.kind === 'shared') {
+    return to.kind === 'shared'
+      ? null
+      : {
+          kind: 'shared-depends-on-context',
+          message: `shared code must not depend on context ${to.module}`,
+        };
+  }
+  if (to.kind === 'shared') {
+    return null;
+  }
+  if (to.module !== from.module) {
+    return isPublic(target, to.module, options)
+      ? null
+      : {
+          kind: 'cross-context',
+          message: `${from.module} may only import ${to.module} through its public API`,
+        };
+  }
+  if (from.layer === 'root' || to.layer === 'root') {
+    return from.layer === 'root'
+      ? null
+      : { kind: 'layer', message: `${from.layer} must not import the context's root` };
+  }
+  return ALLOWED_LAYER_DEPENDENCIES[from.layer as ContextLayer].includes(to.layer as ContextLayer)
+    ? null
+    : { kind: 'layer', message: `${from.layer} must not depend on ${to.layer}` };
+};
+
+/** Builds the module/layer graph of `sources` and lists every boundary violation. */
+export const analyzeDependencies = (
+  sources: readonly SourceFile[],
+  options: AnalyzeOptions = {},
+): DependencyReport => {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+  const violations: Violation[] = [];
+
+  for (const file of sources) {
+    const from = locate(file.path);
+    if (!from) {
+      continue;
+    }
+    const id = nodeId(from);
+    const node = nodes.get(id) ?? { id, module: from.module, layer: from.layer, files: 0 };
+    node.files++;
+    nodes.set(id, node);
+
+    for (const specifier of importsOf(file)) {
+      const target = resolveImport(file.path, specifier);
+      const to = target ? locate(target) : null;
+      if (!target || !to) {
+        continue;
+      }
+      const violation = checkImport(from, to, target, options);
+      if (violation) {
+        violations.push({ ...violation, file: file.path, specifier });
+      }
+      const toId = nodeId(to);
+      if (toId !== id) {
+        const key = `${id} -> ${toId}`;
+        const edge = edges.get(key) ?? { from: id, to: toId, imports: 0 };
+        edge.imports++;
+        edges.set(key, edge);
+      }
+    }
+  }
+
+  const byId = (a: { id: string }, b: { id: string }): number => a.id.localeCompare(b.id);
+  return {
+    nodes: [...nodes.values()].sort(byId),
+    edges: [...edges.values()].sort((a, b) =>
+      `${a.from} ${a.to}`.localeCompare(`${b.from} ${b.to}`),
+    ),
+    violations,
+  };
+};
+
+/** Renders the graph as a Mermaid flowchart with one subgraph per module. */
+export const toMermaid = (report: DependencyReport): string => {
+  const key = (id: string): string => id.replace(/[^A-Za-z0-9_]/g, '_');
+  const modules = [...new Set(report.nodes.map((node) => node.module))];
+  const lines = ['flowchart TD'];
+  for (const module of modules) {
+    lines.push(`  subgraph ${key(module)}[${module}]`);
+    for (const node of report.nodes.filter((n) => n.module === module)) {
+      lines.push(`    ${key(node.id)}[${node.layer}]`);
+    }
+    lines.push('  end');
+  }
+  for (const edge of report.edges) {
+    lines.push(`  ${key(edge.from)} -->|${edge.imports}| ${key(edge.to)}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+
+/**
+ * Prints the module/layer dependency graph of `src/core` and `src/shared`.
+ * Run with: tsx scripts/module-graph.ts [--mermaid]
+ * Exits non-zero when a module boundary is violated.
+ */
+
+import { fileURLToPath } from 'node:url';
+import { analyzeDependencies, collectSources, toMermaid } from './architecture/moduleGraph';
+
+const rootDir = fileURLToPath(new URL('..', import.meta.url));
+const report = analyzeDependencies(collectSources(rootDir));
+
+console.log(
+  process.argv.includes('--mermaid') ? toMermaid(report) : JSON.stringify(report, null, 2),
+);
+for (const violation of report.violations) {
+  console.error(`${violation.file}: ${violation.message} (${violation.specifier})`);
+}
+process.exitCode = report.violations.length > 0 ? 1 : 0;
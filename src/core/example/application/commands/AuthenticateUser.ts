@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const AUTHENTICATE_USER = 'example.AuthenticateUser';
+
+/** A command rather than a query: every attempt is recorded on the user. */
+export const AuthenticateUser = defineCommand(
+  AUTHENTICATE_USER,
+  z.object({ email: z.string().min(1), password: z.string().min(1) }),
+);
+
+export type AuthenticateUserCommand = CommandFrom<typeof AuthenticateUser>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [AUTHENTICATE_USER]: { command: AuthenticateUserCommand; result: UserResponse };
+  }
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const CHANGE_PASSWORD = 'example.ChangePassword';
+
+export const ChangePassword = defineCommand(
+  CHANGE_PASSWORD,
+  z.object({
+    userId: z.string().min(1),
+    currentPassword: z.string().min(1),
+    newPassword: z.string().min(1),
+    /** Password policy tier to enforce, e.g. `admin`; the base rules apply when omitted. */
+    passwordTier: z.string().min(1).optional(),
+  }),
+);
+
+export type ChangePasswordCommand = CommandFrom<typeof ChangePassword>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [CHANGE_PASSWORD]: { command: ChangePasswordCommand; result: UserResponse };
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const CHANGE_USER_EMAIL = 'example.ChangeUserEmail';
+
+export const ChangeUserEmail = defineCommand(
+  CHANGE_USER_EMAIL,
+  z.object({ userId: z.string().min(1), email: z.string().min(1) }),
+);
+
+export type ChangeUserEmailCommand = CommandFrom<typeof ChangeUserEmail>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [CHANGE_USER_EMAIL]: { command: ChangeUserEmailCommand; result: UserResponse };
+  }
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { CreateUserResponse } from '../dtos/CreateUserDto';
+
+export const CREATE_USER = 'example.CreateUser';
+
+export const CreateUser = defineCommand(
+  CREATE_USER,
+  z.object({
+    email: z.string().min(1),
+    password: z.string().min(1),
+    /** Password policy tier to enforce, e.g. `admin`; the base rules apply when omitted. */
+    passwordTier: z.string().min(1).optional(),
+  }),
+);
+
+export type CreateUserCommand = CommandFrom<typeof CreateUser>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [CREATE_USER]: { command: CreateUserCommand; result: CreateUserResponse };
+  }
+}
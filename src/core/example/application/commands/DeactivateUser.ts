@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const DEACTIVATE_USER = 'example.DeactivateUser';
+
+export const DeactivateUser = defineCommand(
+  DEACTIVATE_USER,
+  z.object({ userId: z.string().min(1) }),
+);
+
+export type DeactivateUserCommand = CommandFrom<typeof DeactivateUser>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [DEACTIVATE_USER]: { command: DeactivateUserCommand; result: UserResponse };
+  }
+}
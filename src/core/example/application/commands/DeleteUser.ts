@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+
+export const DELETE_USER = 'example.DeleteUser';
+
+export const DeleteUser = defineCommand(DELETE_USER, z.object({ userId: z.string().min(1) }));
+
+export type DeleteUserCommand = CommandFrom<typeof DeleteUser>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [DELETE_USER]: { command: DeleteUserCommand; result: void };
+  }
+}
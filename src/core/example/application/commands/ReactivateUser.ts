@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { defineCommand, type CommandFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const REACTIVATE_USER = 'example.ReactivateUser';
+
+export const ReactivateUser = defineCommand(
+  REACTIVATE_USER,
+  z.object({ userId: z.string().min(1) }),
+);
+
+export type ReactivateUserCommand = CommandFrom<typeof ReactivateUser>;
+
+declare module '@shared/kernel/bus/CommandBus' {
+  interface CommandRegistry {
+    [REACTIVATE_USER]: { command: ReactivateUserCommand; result: UserResponse };
+  }
+}
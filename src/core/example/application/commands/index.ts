@@ -0,0 +1,7 @@
+export * from './CreateUser';
+export * from './ChangeUserEmail';
+export * from './DeactivateUser';
+export * from './ReactivateUser';
+export * from './DeleteUser';
+export * from './ChangePassword';
+export * from './AuthenticateUser';
@@ -1,11 +1,13 @@
-import type { Email } from '../../domain/valueObjects/Email';
+import type { z } from 'zod';
+import type { CreateUser } from '../commands/CreateUser';
+import { userResponseSchema } from './UserDto';
 
-export interface CreateUserRequest {
-  email: string;
-}
+export type CreateUserRequest = z.input<typeof CreateUser.schema>;
 
-export interface CreateUserResponse {
-  userId: string;
-  email: Email;
-  createdAt: Date;
-}
+export const createUserResponseSchema = userResponseSchema.pick({
+  userId: true,
+  email: true,
+  createdAt: true,
+});
+
+export type CreateUserResponse = z.output<typeof createUserResponseSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { isoDateTime } from '@shared/kernel/contracts';
+
+/** Decodes a `UserResponse` from its JSON form, which is what API contracts document. */
+export const userResponseSchema = z.strictObject({
+  userId: z.string(),
+  email: z.string(),
+  isActive: z.boolean(),
+  createdAt: isoDateTime(),
+  updatedAt: isoDateTime(),
+});
+
+export type UserResponse = z.output<typeof userResponseSchema>;
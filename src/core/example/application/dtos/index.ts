@@ -1 +1,2 @@
 export * from './CreateUserDto';
+export * from './UserDto';
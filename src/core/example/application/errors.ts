@@ -0,0 +1,72 @@
+import { ApplicationError, defineError } from '@shared/kernel/errors';
+
+/** Carries no details: the address is personal data and must not reach responses or logs. */
+export class UserAlreadyExistsError extends ApplicationError {
+  constructor() {
+    super('A user with this email already exists', 'USER_ALREADY_EXISTS');
+  }
+}
+
+/** Every error code the user context can surface, registered as module `example`. */
+export const userErrorDefinitions = [
+  defineError({
+    code: 'INVALID_EMAIL',
+    category: 'validation',
+    message: 'The email address is invalid',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'INVALID_USER_ID',
+    category: 'validation',
+    message: 'The user id is invalid',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'WEAK_PASSWORD',
+    category: 'validation',
+    message: 'The password does not meet the password policy',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'UNKNOWN_PASSWORD_TIER',
+    category: 'validation',
+    message: 'The password tier is not configured',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'INVALID_PASSWORD_HASH',
+    category: 'internal',
+    message: 'An unexpected error occurred',
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'USER_NOT_FOUND',
+    category: 'not-found',
+    message: 'The user does not exist',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'USER_ALREADY_EXISTS',
+    category: 'conflict',
+    message: 'A user with this email already exists',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'INVALID_CREDENTIALS',
+    category: 'forbidden',
+    message: 'Invalid email or password',
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'ACCOUNT_LOCKED',
+    category: 'forbidden',
+    message: 'The account is temporarily locked',
+    exposeDetails: true,
+  }),
+] as const;
+
+/**
+ * A code from `userErrorDefinitions`. Handlers list the codes they throw as a
+ * static `errors`, which the HTTP routes publish in their contract.
+ */
+export type UserErrorCode = (typeof userErrorDefinitions)[number]['code'];
@@ -0,0 +1,9 @@
+import type { PasswordHash } from '../../domain/valueObjects/PasswordHash';
+
+export interface PasswordHasher {
+  hash(password: string): Promise<PasswordHash>;
+  /** Compares in constant time; resolves `false` for hashes it cannot parse. */
+  verify(password: string, hash: PasswordHash): Promise<boolean>;
+  /** True when `hash` was produced with parameters other than the current ones. */
+  needsRehash(hash: PasswordHash): boolean;
+}
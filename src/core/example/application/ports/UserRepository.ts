@@ -1,9 +1,17 @@
 import type { User } from '../../domain/entities/User';
 import type { UserId } from '../../domain/valueObjects/UserId';
+import type { Email } from '../../domain/valueObjects/Email';
+import type { Specification } from '@shared/kernel/domain';
 
 export interface UserRepository {
-  save(user: User): Promise<void>;
+  /**
+   * Persists `user` if the stored copy is still at `expectedVersion`
+   * (defaults to `user.version`); rejects with `ConcurrencyError` otherwise.
+   */
+  save(user: User, expectedVersion?: number): Promise<void>;
   findById(id: UserId): Promise<User | null>;
-  findByEmail(email: string): Promise<User | null>;
+  /** Matches on the canonical form, so `Jane@Example.com` finds `jane@example.com`. */
+  findByEmail(email: Email): Promise<User | null>;
+  findMatching(specification: Specification<User>): Promise<User[]>;
   delete(id: UserId): Promise<void>;
 }
@@ -1 +1,2 @@
 export * from './UserRepository';
+export * from './PasswordHasher';
@@ -0,0 +1,67 @@
+import type { DomainEvent } from '@shared/kernel/events';
+import type { Projection, ReadModelStore } from '@shared/kernel/projections';
+import {
+  UserActivated,
+  UserCreated,
+  UserDeactivated,
+  UserDeleted,
+  UserEmailChanged,
+} from '../../domain/events';
+
+export interface UserDirectoryEntry {
+  id: string;
+  email: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const USER_DIRECTORY_EVENT_TYPES = [
+  UserCreated.eventType,
+  UserEmailChanged.eventType,
+  UserDeactivated.eventType,
+  UserActivated.eventType,
+  UserDeleted.eventType,
+] as const;
+
+export class UserDirectoryProjection implements Projection {
+  public readonly name = 'example.UserDirectory';
+  public readonly eventTypes = USER_DIRECTORY_EVENT_TYPES;
+
+  constructor(private readonly store: ReadModelStore<UserDirectoryEntry>) {}
+
+  public async apply(event: DomainEvent): Promise<void> {
+    if (event instanceof UserCreated) {
+      await this.store.set(event.aggregateId, {
+        id: event.aggregateId,
+        email: event.email,
+        isActive: true,
+        createdAt: event.occurredAt,
+        updatedAt: event.occurredAt,
+      });
+      return;
+    }
+    if (event instanceof UserDeleted) {
+      await this.store.delete(event.aggregateId);
+      return;
+    }
+
+    const entry = await this.store.get(event.aggregateId);
+    if (!entry) {
+      return;
+    }
+    if (event instanceof UserEmailChanged) {
+      entry.email = event.email;
+    } else if (event instanceof UserDeactivated) {
+      entry.isActive = false;
+    } else if (event instanceof UserActivated) {
+      entry.isActive = true;
+    }
+    entry.updatedAt = event.occurredAt;
+    await this.store.set(entry.id, entry);
+  }
+
+  public reset(): Promise<void> {
+    return this.store.clear();
+  }
+}
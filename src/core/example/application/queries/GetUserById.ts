@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { defineQuery, type QueryFrom } from '@shared/kernel/bus';
+import type { UserResponse } from '../dtos/UserDto';
+
+export const GET_USER_BY_ID = 'example.GetUserById';
+
+export const GetUserById = defineQuery(GET_USER_BY_ID, z.object({ userId: z.string().min(1) }));
+
+export type GetUserByIdQuery = QueryFrom<typeof GetUserById>;
+
+declare module '@shared/kernel/bus/QueryBus' {
+  interface QueryRegistry {
+    [GET_USER_BY_ID]: { query: GetUserByIdQuery; result: UserResponse };
+  }
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { defineQuery, type QueryFrom, type QueryHandler } from '@shared/kernel/bus';
+import type { ReadModelStore } from '@shared/kernel/projections';
+import type { UserDirectoryEntry } from '../projections/UserDirectoryProjection';
+
+export const LIST_USERS = 'example.ListUsers';
+
+export const ListUsers = defineQuery(
+  LIST_USERS,
+  z.object({ activeOnly: z.boolean().optional() }),
+);
+
+export type ListUsersQuery = QueryFrom<typeof ListUsers>;
+
+declare module '@shared/kernel/bus/QueryBus' {
+  interface QueryRegistry {
+    [LIST_USERS]: { query: ListUsersQuery; result: UserDirectoryEntry[] };
+  }
+}
+
+export class ListUsersQueryHandler implements QueryHandler<ListUsersQuery, UserDirectoryEntry[]> {
+  constructor(private readonly directory: ReadModelStore<UserDirectoryEntry>) {}
+
+  public async handle(query: ListUsersQuery): Promise<UserDirectoryEntry[]> {
+    const entries = await this.directory.list();
+    return entries
+      .filter((entry) => !query.activeOnly || entry.isActive)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+}
@@ -0,0 +1,2 @@
+export * from './ListUsers';
+export * from './GetUserById';
@@ -0,0 +1,89 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import type { Clock } from '@shared/kernel/time';
+import type { UnitOfWork } from '@shared/kernel/persistence';
+import { ApplicationError } from '@shared/kernel/errors';
+import type { User } from '../../domain/entities/User';
+import { createEmail } from '../../domain/valueObjects/Email';
+import type { PasswordHash } from '../../domain/valueObjects/PasswordHash';
+import {
+  DEFAULT_LOGIN_LOCKOUT_POLICY,
+  type LoginLockoutPolicy,
+} from '../../domain/policies/LoginLockoutPolicy';
+import type { UserRepository } from '../ports/UserRepository';
+import type { PasswordHasher } from '../ports/PasswordHasher';
+
+export class InvalidCredentialsError extends ApplicationError {
+  constructor() {
+    super('Invalid email or password', 'INVALID_CREDENTIALS');
+  }
+}
+
+export class AccountLockedError extends ApplicationError {
+  constructor(public readonly lockedUntil: Date) {
+    super('Account is temporarily locked', 'ACCOUNT_LOCKED', {
+      lockedUntil: lockedUntil.toISOString(),
+    });
+  }
+}
+
+export class AuthenticateUserUseCase {
+  /** Verified when no user matches, so unknown emails cost the same as known ones. */
+  private readonly dummyHash: Promise<PasswordHash>;
+
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly clock: Clock,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly lockoutPolicy: LoginLockoutPolicy = DEFAULT_LOGIN_LOCKOUT_POLICY,
+  ) {
+    this.dummyHash = passwordHasher.hash('not-a-real-password');
+    this.dummyHash.catch(() => undefined);
+  }
+
+  /**
+   * Verifies the credentials and records the attempt on the user. A successful
+   * login also upgrades the stored hash when the hasher's parameters changed.
+   * Exactly one hash is verified per call, and a locked account is only
+   * reported to callers who know its password.
+   */
+  public async execute(
+    email: string,
+    password: string,
+  ): Promise<Result<User, InvalidCredentialsError | AccountLockedError>> {
+    const now = this.clock.now();
+    const emailResult = createEmail(email);
+    const user = emailResult.isSuccess
+      ? await this.userRepository.findByEmail(emailResult.value)
+      : null;
+
+    const passwordHash = user?.passwordHash ?? (await this.dummyHash);
+    const verified = await this.passwordHasher.verify(password, passwordHash);
+
+    if (!user?.passwordHash || !user.isActive) {
+      return failure(new InvalidCredentialsError());
+    }
+    if (user.lockedUntil && user.isLockedAt(now)) {
+      return failure(
+        verified ? new AccountLockedError(user.lockedUntil) : new InvalidCredentialsError(),
+      );
+    }
+
+    const recorded = await this.unitOfWork.run(async (scope) => {
+      if (!verified) {
+        user.recordFailedLogin(now, this.lockoutPolicy);
+      } else {
+        if (this.passwordHasher.needsRehash(passwordHash)) {
+          user.changePassword(await this.passwordHasher.hash(password), now);
+        }
+        user.recordSuccessfulLogin(now);
+      }
+      scope.track(user, (u) => this.userRepository.save(u));
+      return success(user);
+    });
+
+    return recorded.andThen((authenticated) =>
+      verified ? success(authenticated) : failure(new InvalidCredentialsError()),
+    );
+  }
+}
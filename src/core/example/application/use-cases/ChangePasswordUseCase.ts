@@ -0,0 +1,90 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import type { Clock } from '@shared/kernel/time';
+import type { UnitOfWork } from '@shared/kernel/persistence';
+import type { User } from '../../domain/entities/User';
+import type { InvalidUserIdError } from '../../domain/valueObjects/UserId';
+import {
+  PasswordPolicy,
+  UnknownPasswordTierError,
+  type WeakPasswordError,
+} from '../../domain/policies/PasswordPolicy';
+import {
+  DEFAULT_LOGIN_LOCKOUT_POLICY,
+  type LoginLockoutPolicy,
+} from '../../domain/policies/LoginLockoutPolicy';
+import type { UserRepository } from '../ports/UserRepository';
+import type { PasswordHasher } from '../ports/PasswordHasher';
+import { AccountLockedError, InvalidCredentialsError } from './AuthenticateUserUseCase';
+import { loadUser, type UserNotFoundError } from './GetUserByIdUseCase';
+
+export class ChangePasswordUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly clock: Clock,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly passwordPolicy: PasswordPolicy = new PasswordPolicy(),
+    private readonly lockoutPolicy: LoginLockoutPolicy = DEFAULT_LOGIN_LOCKOUT_POLICY,
+  ) {}
+
+  /**
+   * A wrong current password counts towards lockout just like a failed login.
+   * `passwordTier` selects the policy tier the new password must satisfy.
+   */
+  public async execute(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    passwordTier?: string,
+  ): Promise<
+    Result<
+      User,
+      | InvalidUserIdError
+      | UserNotFoundError
+      | AccountLockedError
+      | InvalidCredentialsError
+      | WeakPasswordError
+      | UnknownPasswordTierError
+    >
+  > {
+    const userResult = await loadUser(this.userRepository, userId);
+    if (userResult.isFailure) {
+      return failure(userResult.error);
+    }
+    const user = userResult.value;
+
+    const now = this.clock.now();
+    if (user.lockedUntil && user.isLockedAt(now)) {
+      return failure(new AccountLockedError(user.lockedUntil));
+    }
+    const verified =
+      user.passwordHash !== null &&
+      (await this.passwordHasher.verify(currentPassword, user.passwordHash));
+    if (!verified) {
+      const recorded = await this.unitOfWork.run(async (scope) => {
+        user.recordFailedLogin(now, this.lockoutPolicy);
+        scope.track(user, (u) => this.userRepository.save(u));
+        return success(user);
+      });
+      return recorded.andThen(() => failure(new InvalidCredentialsError()));
+    }
+
+    if (passwordTier !== undefined && !this.passwordPolicy.hasTier(passwordTier)) {
+      return failure(new UnknownPasswordTierError(passwordTier));
+    }
+    const policyResult = this.passwordPolicy.validate(newPassword, {
+      email: user.email,
+      tier: passwordTier,
+    });
+    if (policyResult.isFailure) {
+      return failure(policyResult.error);
+    }
+
+    const passwordHash = await this.passwordHasher.hash(newPassword);
+    return this.unitOfWork.run(async (scope) => {
+      user.changePassword(passwordHash, now);
+      scope.track(user, (u) => this.userRepository.save(u));
+      return success(user);
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import type { Clock } from '@shared/kernel/time';
+import type { UnitOfWork } from '@shared/kernel/persistence';
+import type { User } from '../../domain/entities/User';
+import { createEmail, type InvalidEmailError } from '../../domain/valueObjects/Email';
+import type { InvalidUserIdError } from '../../domain/valueObjects/UserId';
+import type { UserRepository } from '../ports/UserRepository';
+import { UserAlreadyExistsError } from '../errors';
+import { loadUser, type UserNotFoundError } from './GetUserByIdUseCase';
+
+export class ChangeUserEmailUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly clock: Clock,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  public async execute(
+    userId: string,
+    email: string,
+  ): Promise<
+    Result<
+      User,
+      InvalidUserIdError | InvalidEmailError | UserNotFoundError | UserAlreadyExistsError
+    >
+  > {
+    const emailResult = createEmail(email);
+    if (emailResult.isFailure) {
+      return failure(emailResult.error);
+    }
+    const userResult = await loadUser(this.userRepository, userId);
+    if (userResult.isFailure) {
+      return failure(userResult.error);
+    }
+    const user = userResult.value;
+
+    const owner = await this.userRepository.findByEmail(emailResult.value);
+    if (owner && owner.id !== user.id) {
+      return failure(new UserAlreadyExistsError());
+    }
+
+    return this.unitOfWork.run(async (scope) => {
+      user.changeEmail(emailResult.value, this.clock.now());
+      scope.track(user, (u) => this.userRepository.save(u));
+      return success(user);
+    });
+  }
+}
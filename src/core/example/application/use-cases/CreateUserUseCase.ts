@@ -1,38 +1,69 @@
-import { failure, success, type Result } from '@shared/kernel/result';
+import { ResultAsync, failure, success, type Result } from '@shared/kernel/result';
 import type { Clock } from '@shared/kernel/time';
+import type { UnitOfWork } from '@shared/kernel/persistence';
+import type { IdGenerator } from '@shared/kernel/id';
 import { User } from '../../domain/entities/User';
-import { createEmail } from '../../domain/valueObjects/Email';
+import { createEmail, type Email, type InvalidEmailError } from '../../domain/valueObjects/Email';
+import {
+  PasswordPolicy,
+  UnknownPasswordTierError,
+  type WeakPasswordError,
+} from '../../domain/policies/PasswordPolicy';
 import type { UserRepository } from '../ports/UserRepository';
-import { ApplicationError } from '@shared/kernel/errors';
-
-export class UserAlreadyExistsError extends ApplicationError {
-  constructor(email: string) {
-    super(`User with email ${email} already exists`, 'USER_ALREADY_EXISTS', { email });
-  }
-}
+import type { PasswordHasher } from '../ports/PasswordHasher';
+import { UserAlreadyExistsError } from '../errors';
 
 export class CreateUserUseCase {
   constructor(
     private readonly userRepository: UserRepository,
     private readonly clock: Clock,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly passwordPolicy: PasswordPolicy = new PasswordPolicy(),
+    private readonly idGenerator?: IdGenerator,
   ) {}
 
+  /** `passwordTier` selects the policy tier the password must satisfy, e.g. `admin`. */
   public async execute(
     email: string,
-  ): Promise<Result<User, UserAlreadyExistsError | Error>> {
-    const emailResult = createEmail(email);
-    if (emailResult.isFailure) {
-      return failure(emailResult.error);
-    }
+    password: string,
+    passwordTier?: string,
+  ): Promise<
+    Result<
+      User,
+      InvalidEmailError | WeakPasswordError | UnknownPasswordTierError | UserAlreadyExistsError
+    >
+  > {
+    return ResultAsync.from(createEmail(email))
+      .andThen((address) =>
+        passwordTier === undefined || this.passwordPolicy.hasTier(passwordTier)
+          ? success(address)
+          : failure(new UnknownPasswordTierError(passwordTier)),
+      )
+      .andThen((address) =>
+        this.passwordPolicy
+          .validate(password, { email: address, tier: passwordTier })
+          .map(() => address),
+      )
+      .andThen((address) => this.ensureEmailIsFree(address))
+      .map(async (address) => ({
+        address,
+        passwordHash: await this.passwordHasher.hash(password),
+      }))
+      .andThen(({ address, passwordHash }) =>
+        this.unitOfWork.run(async (scope) => {
+          const user = User.create(address, this.clock.now(), {
+            passwordHash,
+            idGenerator: this.idGenerator,
+          });
+          scope.track(user, (u) => this.userRepository.save(u));
+          return success(user);
+        }),
+      );
+  }
 
+  private async ensureEmailIsFree(email: Email): Promise<Result<Email, UserAlreadyExistsError>> {
     const existingUser = await this.userRepository.findByEmail(email);
-    if (existingUser) {
-      return failure(new UserAlreadyExistsError(email));
-    }
-
-    const user = User.create(emailResult.value, this.clock.now());
-    await this.userRepository.save(user);
-
-    return success(user);
+    return existingUser ? failure(new UserAlreadyExistsError()) : success(email);
   }
 }
@@ -0,0 +1,31 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import type { Clock } from '@shared/kernel/time';
+import type { UnitOfWork } from '@shared/kernel/persistence';
+import type { User } from '../../domain/entities/User';
+import type { InvalidUserIdError } from '../../domain/valueObjects/UserId';
+import type { UserRepository } from '../ports/UserRepository';
+import { loadUser, type UserNotFoundError } from './GetUserByIdUseCase';
+
+export class DeactivateUserUseCase {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly clock: Clock,
+    private readonly unitOfWork: UnitOfWork,
+  ) {}
+
+  public async execute(
+    userId: string,
+  ): Promise<Result<User, InvalidUserIdError | UserNotFoundError>> {
+    const userResult = await loadUser(this.userRepository, userId);
+    if (userResult.isFailure) {
+      return failure(userResult.error);
+    }
+    const user = userResult.value;
+
+    return this.unitOfWork.run(async (scope) => {
+      user.deactivate(this.clock.now());
+      scope.track(user, (u) => this.userRepository.save(u));
+      return success(user);
+    });
+  }
+}
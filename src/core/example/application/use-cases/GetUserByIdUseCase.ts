@@ -0,0 +1,32 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import { ApplicationError } from '@shared/kernel/errors';
+import type { User } from '../../domain/entities/User';
+import { createUserId, type InvalidUserIdError } from '../../domain/valueObjects/UserId';
+import type { UserRepository } from '../ports/UserRepository';
+
+export class UserNotFoundError extends ApplicationError {
+  constructor(userId: string) {
+    super(`User ${userId} not found`, 'USER_NOT_FOUND', { userId });
+  }
+}
+
+/** Loads a user by its raw id, failing with a typed error when it is malformed or unknown. */
+export const loadUser = async (
+  userRepository: UserRepository,
+  userId: string,
+): Promise<Result<User, InvalidUserIdError | UserNotFoundError>> => {
+  const idResult = createUserId(userId);
+  if (idResult.isFailure) {
+    return failure(idResult.error);
+  }
+  const user = await userRepository.findById(idResult.value);
+  return user ? success(user) : failure(new UserNotFoundError(userId));
+};
+
+export class GetUserByIdUseCase {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  public execute(userId: string): Promise<Result<User, InvalidUserIdError | UserNotFoundError>> {
+    return loadUser(this.userRepository, userId);
+  }
+}
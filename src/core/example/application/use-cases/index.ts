@@ -1 +1,8 @@
 export * from './CreateUserUseCase';
+export * from './AuthenticateUserUseCase';
+export * from './ChangePasswordUseCase';
+export * from './GetUserByIdUseCase';
+export * from './ChangeUserEmailUseCase';
+export * from './DeactivateUserUseCase';
+export * from './ReactivateUserUseCase';
+export * from './DeleteUserUseCase';
@@ -1,34 +1,91 @@
-import { createId, fromString, type UserId } from '@shared/kernel/id';
+import { createId, fromString, type IdGenerator } from '@shared/kernel/id';
+import { AggregateRoot } from '@shared/kernel/domain';
+import type { DomainEvent } from '@shared/kernel/events';
 import type { Email } from '../valueObjects/Email';
-import { BaseDomainEvent } from '@shared/kernel/events';
+import type { PasswordHash } from '../valueObjects/PasswordHash';
+import type { UserId } from '../valueObjects/UserId';
+import type { LoginLockoutPolicy } from '../policies/LoginLockoutPolicy';
+import {
+  UserActivated,
+  UserAuthenticated,
+  UserCreated,
+  UserDeactivated,
+  UserDeleted,
+  UserEmailChanged,
+  UserLoginFailed,
+  UserPasswordChanged,
+} from '../events';
 
 export interface UserProps {
   id: UserId;
   email: Email;
   isActive: boolean;
+  passwordHash: PasswordHash | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export class User {
-  private constructor(private props: UserProps) {}
+export interface CreateUserOptions {
+  passwordHash?: PasswordHash;
+  idGenerator?: IdGenerator;
+}
+
+export class User extends AggregateRoot<UserId> {
+  private constructor(
+    private props: UserProps,
+    version = 0,
+  ) {
+    super(props.id, version);
+  }
 
-  public static create(email: Email, createdAt: Date = new Date()): User {
-    return new User({
-      id: createId<'UserId'>('UserId'),
-      email,
-      isActive: true,
-      createdAt,
-      updatedAt: createdAt,
-    });
+  /**
+   * Registers a new user. The user id and the ids of the creation events come
+   * from `idGenerator` when one is given, so tests can predict them.
+   */
+  public static create(
+    email: Email,
+    createdAt: Date = new Date(),
+    options: CreateUserOptions = {},
+  ): User {
+    const { passwordHash, idGenerator } = options;
+    const id = createId('UserId', idGenerator);
+    const user = new User(initialProps(id, email, createdAt));
+    user.record(new UserCreated(user.id, email, createdAt, createId('UserCreated', idGenerator)));
+    if (passwordHash) {
+      user.props.passwordHash = passwordHash;
+      user.raise(
+        new UserPasswordChanged(user.id, createdAt, createId('UserPasswordChanged', idGenerator)),
+      );
+    }
+    return user;
   }
 
-  public static reconstitute(props: UserProps): User {
-    return new User(props);
+  public static reconstitute(props: UserProps, version = 0): User {
+    return new User(props, version);
   }
 
-  public get id(): UserId {
-    return this.props.id;
+  /**
+   * Rebuilds a user by replaying its events, optionally on top of a snapshot
+   * taken earlier in the stream. Returns `null` if the history never created one.
+   */
+  public static fromHistory(history: ReadonlyArray<DomainEvent>, snapshot?: UserProps): User | null {
+    let user = snapshot ? new User({ ...snapshot }) : null;
+    for (const event of history) {
+      if (event instanceof UserCreated) {
+        user = new User(
+          initialProps(
+            fromString<'UserId'>(event.aggregateId, 'UserId'),
+            event.email as Email,
+            event.occurredAt,
+          ),
+        );
+        continue;
+      }
+      user?.apply(event);
+    }
+    return user;
   }
 
   public get email(): Email {
@@ -39,6 +96,18 @@ export class User {
     return this.props.isActive;
   }
 
+  public get passwordHash(): PasswordHash | null {
+    return this.props.passwordHash;
+  }
+
+  public get failedLoginAttempts(): number {
+    return this.props.failedLoginAttempts;
+  }
+
+  public get lockedUntil(): Date | null {
+    return this.props.lockedUntil;
+  }
+
   public get createdAt(): Date {
     return this.props.createdAt;
   }
@@ -47,18 +116,102 @@ export class User {
     return this.props.updatedAt;
   }
 
-  public changeEmail(newEmail: Email): void {
-    this.props.email = newEmail;
-    this.props.updatedAt = new Date();
+  public isLockedAt(at: Date): boolean {
+    return this.props.lockedUntil !== null && at < this.props.lockedUntil;
+  }
+
+  public toSnapshot(): UserProps {
+    return { ...this.props };
+  }
+
+  public changeEmail(newEmail: Email, at: Date): void {
+    if (newEmail === this.props.email) {
+      return;
+    }
+    this.raise(new UserEmailChanged(this.id, this.props.email, newEmail, at));
   }
 
-  public deactivate(): void {
-    this.props.isActive = false;
-    this.props.updatedAt = new Date();
+  public deactivate(at: Date): void {
+    if (!this.props.isActive) {
+      return;
+    }
+    this.raise(new UserDeactivated(this.id, at));
   }
 
-  public activate(): void {
-    this.props.isActive = true;
-    this.props.updatedAt = new Date();
+  public activate(at: Date): void {
+    if (this.props.isActive) {
+      return;
+    }
+    this.raise(new UserActivated(this.id, at));
+  }
+
+  /** Records the deletion; removing the user is left to the repository. */
+  public delete(at: Date): void {
+    this.record(new UserDeleted(this.id, at));
+  }
+
+  /**
+   * The hash is kept in the user's state only; the event records that the
+   * password changed, so credentials never reach the outbox or event store.
+   */
+  public changePassword(passwordHash: PasswordHash, at: Date): void {
+    this.props.passwordHash = passwordHash;
+    this.raise(new UserPasswordChanged(this.id, at));
+  }
+
+  /**
+   * Counts a failed login, locking the account once the policy's threshold is
+   * reached. Failures from before an expired lockout are not carried over.
+   */
+  public recordFailedLogin(at: Date, policy: LoginLockoutPolicy): void {
+    const lockExpired = this.props.lockedUntil !== null && !this.isLockedAt(at);
+    const failedAttempts = (lockExpired ? 0 : this.props.failedLoginAttempts) + 1;
+    const lockedUntil =
+      failedAttempts >= policy.maxFailedAttempts
+        ? new Date(at.getTime() + policy.lockoutDurationMs)
+        : null;
+    this.raise(new UserLoginFailed(this.id, failedAttempts, lockedUntil, at));
+  }
+
+  public recordSuccessfulLogin(at: Date): void {
+    this.raise(new UserAuthenticated(this.id, at));
+  }
+
+  private raise(event: DomainEvent): void {
+    this.apply(event);
+    this.record(event);
+  }
+
+  private apply(event: DomainEvent): void {
+    if (event instanceof UserEmailChanged) {
+      this.props.email = event.email as Email;
+    } else if (event instanceof UserDeactivated) {
+      this.props.isActive = false;
+    } else if (event instanceof UserActivated) {
+      this.props.isActive = true;
+    } else if (event instanceof UserPasswordChanged) {
+      this.props.failedLoginAttempts = 0;
+      this.props.lockedUntil = null;
+    } else if (event instanceof UserLoginFailed) {
+      this.props.failedLoginAttempts = event.failedAttempts;
+      this.props.lockedUntil = event.lockedUntil;
+    } else if (event instanceof UserAuthenticated) {
+      this.props.failedLoginAttempts = 0;
+      this.props.lockedUntil = null;
+    } else {
+      return;
+    }
+    this.props.updatedAt = event.occurredAt;
   }
 }
+
+const initialProps = (id: UserId, email: Email, createdAt: Date): UserProps => ({
+  id,
+  email,
+  isActive: true,
+  passwordHash: null,
+  failedLoginAttempts: 0,
+  lockedUntil: null,
+  createdAt,
+  updatedAt: createdAt,
+});
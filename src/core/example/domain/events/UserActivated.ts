@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+export class UserActivated extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserActivated';
+  public static readonly eventVersion = 1;
+
+  constructor(
+    aggregateId: string,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserActivated'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+export const UserActivatedDefinition = defineEvent(UserActivated, {
+  schema: z.object({}),
+  toPayload: () => ({}),
+  fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+    new UserActivated(aggregateId, occurredAt, eventId),
+});
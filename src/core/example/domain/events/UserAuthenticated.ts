@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+export class UserAuthenticated extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserAuthenticated';
+  public static readonly eventVersion = 1;
+
+  constructor(
+    aggregateId: string,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserAuthenticated'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+export const UserAuthenticatedDefinition = defineEvent(UserAuthenticated, {
+  schema: z.object({}),
+  toPayload: () => ({}),
+  fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+    new UserAuthenticated(aggregateId, occurredAt, eventId),
+});
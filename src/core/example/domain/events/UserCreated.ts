@@ -1,12 +1,28 @@
-import { BaseDomainEvent } from '@shared/kernel/events';
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
 import { createId } from '@shared/kernel/id';
 import type { Email } from '../valueObjects/Email';
 
 export class UserCreated extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserCreated';
+  public static readonly eventVersion = 1;
+
   public readonly email: string;
 
-  constructor(aggregateId: string, email: Email, occurredAt: Date = new Date()) {
-    super(aggregateId, createId('UserCreated'), occurredAt);
+  constructor(
+    aggregateId: string,
+    email: Email,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserCreated'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
     this.email = email;
   }
 }
+
+export const UserCreatedDefinition = defineEvent(UserCreated, {
+  schema: z.object({ email: z.string() }),
+  toPayload: (event) => ({ email: event.email }),
+  fromPayload: (payload, { aggregateId, occurredAt, eventId }) =>
+    new UserCreated(aggregateId, payload.email as Email, occurredAt, eventId),
+});
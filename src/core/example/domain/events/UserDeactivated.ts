@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+export class UserDeactivated extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserDeactivated';
+  public static readonly eventVersion = 1;
+
+  constructor(
+    aggregateId: string,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserDeactivated'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+export const UserDeactivatedDefinition = defineEvent(UserDeactivated, {
+  schema: z.object({}),
+  toPayload: () => ({}),
+  fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+    new UserDeactivated(aggregateId, occurredAt, eventId),
+});
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+export class UserDeleted extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserDeleted';
+  public static readonly eventVersion = 1;
+
+  constructor(
+    aggregateId: string,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserDeleted'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+export const UserDeletedDefinition = defineEvent(UserDeleted, {
+  schema: z.object({}),
+  toPayload: () => ({}),
+  fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+    new UserDeleted(aggregateId, occurredAt, eventId),
+});
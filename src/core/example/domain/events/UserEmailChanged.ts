@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+import type { Email } from '../valueObjects/Email';
+
+export class UserEmailChanged extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserEmailChanged';
+  public static readonly eventVersion = 1;
+
+  public readonly previousEmail: string;
+  public readonly email: string;
+
+  constructor(
+    aggregateId: string,
+    previousEmail: Email,
+    email: Email,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserEmailChanged'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+    this.previousEmail = previousEmail;
+    this.email = email;
+  }
+}
+
+export const UserEmailChangedDefinition = defineEvent(UserEmailChanged, {
+  schema: z.object({ previousEmail: z.string(), email: z.string() }),
+  toPayload: (event) => ({ previousEmail: event.previousEmail, email: event.email }),
+  fromPayload: (payload, { aggregateId, occurredAt, eventId }) =>
+    new UserEmailChanged(
+      aggregateId,
+      payload.previousEmail as Email,
+      payload.email as Email,
+      occurredAt,
+      eventId,
+    ),
+});
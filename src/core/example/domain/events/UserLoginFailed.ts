@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+export class UserLoginFailed extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserLoginFailed';
+  public static readonly eventVersion = 1;
+
+  public readonly failedAttempts: number;
+  public readonly lockedUntil: Date | null;
+
+  constructor(
+    aggregateId: string,
+    failedAttempts: number,
+    lockedUntil: Date | null,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserLoginFailed'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+    this.failedAttempts = failedAttempts;
+    this.lockedUntil = lockedUntil;
+  }
+}
+
+export const UserLoginFailedDefinition = defineEvent(UserLoginFailed, {
+  schema: z.object({
+    failedAttempts: z.number().int().positive(),
+    lockedUntil: z.iso.datetime().nullable(),
+  }),
+  toPayload: (event) => ({
+    failedAttempts: event.failedAttempts,
+    lockedUntil: event.lockedUntil?.toISOString() ?? null,
+  }),
+  fromPayload: (payload, { aggregateId, occurredAt, eventId }) =>
+    new UserLoginFailed(
+      aggregateId,
+      payload.failedAttempts,
+      payload.lockedUntil === null ? null : new Date(payload.lockedUntil),
+      occurredAt,
+      eventId,
+    ),
+});
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { BaseDomainEvent, defineEvent } from '@shared/kernel/events';
+import { createId } from '@shared/kernel/id';
+
+/** Carries no credentials: the new hash stays with the aggregate's state. */
+export class UserPasswordChanged extends BaseDomainEvent {
+  public static readonly eventType = 'example.UserPasswordChanged';
+  public static readonly eventVersion = 1;
+
+  constructor(
+    aggregateId: string,
+    occurredAt: Date = new Date(),
+    eventId: string = createId('UserPasswordChanged'),
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+export const UserPasswordChangedDefinition = defineEvent(UserPasswordChanged, {
+  schema: z.object({}),
+  toPayload: () => ({}),
+  fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+    new UserPasswordChanged(aggregateId, occurredAt, eventId),
+});
@@ -1 +1,28 @@
+import { UserActivatedDefinition } from './UserActivated';
+import { UserAuthenticatedDefinition } from './UserAuthenticated';
+import { UserCreatedDefinition } from './UserCreated';
+import { UserDeactivatedDefinition } from './UserDeactivated';
+import { UserDeletedDefinition } from './UserDeleted';
+import { UserEmailChangedDefinition } from './UserEmailChanged';
+import { UserLoginFailedDefinition } from './UserLoginFailed';
+import { UserPasswordChangedDefinition } from './UserPasswordChanged';
+
 export * from './UserCreated';
+export * from './UserEmailChanged';
+export * from './UserDeactivated';
+export * from './UserActivated';
+export * from './UserPasswordChanged';
+export * from './UserLoginFailed';
+export * from './UserAuthenticated';
+export * from './UserDeleted';
+
+export const userEventDefinitions = [
+  UserCreatedDefinition,
+  UserEmailChangedDefinition,
+  UserDeactivatedDefinition,
+  UserActivatedDefinition,
+  UserPasswordChangedDefinition,
+  UserLoginFailedDefinition,
+  UserAuthenticatedDefinition,
+  UserDeletedDefinition,
+] as const;
@@ -0,0 +1,10 @@
+export interface LoginLockoutPolicy {
+  /** Consecutive failed logins that lock the account. */
+  maxFailedAttempts: number;
+  lockoutDurationMs: number;
+}
+
+export const DEFAULT_LOGIN_LOCKOUT_POLICY: Readonly<LoginLockoutPolicy> = {
+  maxFailedAttempts: 5,
+  lockoutDurationMs: 15 * 60_000,
+};
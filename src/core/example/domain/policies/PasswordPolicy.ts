@@ -1,50 +1,226 @@
 import { failure, success, type Result } from '@shared/kernel/result';
-import { DomainError } from '@shared/kernel/errors';
+import { ValidationError } from '@shared/kernel/errors';
+import { CompositeSpecification, type Specification } from '@shared/kernel/domain';
 
-export class WeakPasswordError extends DomainError {
-  constructor(message: string) {
-    super(message, 'WEAK_PASSWORD');
+export interface PasswordCandidate {
+  password: string;
+  /** Owner's email; enables the rule rejecting passwords that contain its local part. */
+  email?: string;
+}
+
+export interface PasswordRules {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  /** Characters accepted as "special"; an empty string disables the rule. */
+  specialCharacters: string;
+  rejectEmailLocalPart: boolean;
+}
+
+export interface PasswordPolicyConfig extends Partial<PasswordRules> {
+  /** Named overrides applied on top of the base rules, e.g. `{ admin: { minLength: 14 } }`. */
+  tiers?: Record<string, Partial<PasswordRules>>;
+  /** Common passwords rejected regardless of tier, compared case-insensitively. */
+  denyList?: Iterable<string>;
+}
+
+export const DEFAULT_PASSWORD_RULES: Readonly<PasswordRules> = {
+  minLength: 8,
+  maxLength: 128,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireDigit: true,
+  specialCharacters: '!@#$%^&*(),.?":{}|<>',
+  rejectEmailLocalPart: true,
+};
+
+export class WeakPasswordError extends ValidationError {
+  constructor(violations: Array<{ rule: string; message: string }>) {
+    super(
+      violations.map((v) => v.message).join('; '),
+      violations.map((v) => ({ field: 'password', message: v.message, rule: v.rule })),
+      'password',
+      'WEAK_PASSWORD',
+    );
   }
 }
 
-export class PasswordPolicy {
-  private static readonly MIN_LENGTH = 8;
-  private static readonly UPPERCASE_REGEX = /[A-Z]/;
-  private static readonly LOWERCASE_REGEX = /[a-z]/;
-  private static readonly DIGIT_REGEX = /\d/;
-  private static readonly SPECIAL_CHAR_REGEX = /[!@#$%^&*(),.?":{}|<>]/;
+export class UnknownPasswordTierError extends ValidationError {
+  constructor(tier: string) {
+    super(
+      `Unknown password tier: ${tier}`,
+      [{ field: 'passwordTier', message: `Unknown password tier: ${tier}` }],
+      'passwordTier',
+      'UNKNOWN_PASSWORD_TIER',
+    );
+  }
+}
 
-  public static validate(password: string): Result<void, WeakPasswordError> {
-    if (password.length < this.MIN_LENGTH) {
-      return failure(
-        new WeakPasswordError(
-          `Password must be at least ${this.MIN_LENGTH} characters long`,
-        ),
-      );
-    }
+export class MinLengthSpecification extends CompositeSpecification<PasswordCandidate> {
+  public readonly name = 'minLength';
 
-    if (!this.UPPERCASE_REGEX.test(password)) {
-      return failure(
-        new WeakPasswordError('Password must contain at least one uppercase letter'),
-      );
-    }
+  constructor(private readonly minLength: number) {
+    super();
+  }
+
+  public isSatisfiedBy({ password }: PasswordCandidate): boolean {
+    return [...password].length >= this.minLength;
+  }
+
+  public describeFailure(): string {
+    return `Password must be at least ${this.minLength} characters long`;
+  }
+}
+
+export class MaxLengthSpecification extends CompositeSpecification<PasswordCandidate> {
+  public readonly name = 'maxLength';
+
+  constructor(private readonly maxLength: number) {
+    super();
+  }
+
+  public isSatisfiedBy({ password }: PasswordCandidate): boolean {
+    return [...password].length <= this.maxLength;
+  }
+
+  public describeFailure(): string {
+    return `Password must be at most ${this.maxLength} characters long`;
+  }
+}
+
+export class ContainsPatternSpecification extends CompositeSpecification<PasswordCandidate> {
+  constructor(
+    public readonly name: string,
+    private readonly pattern: RegExp,
+    private readonly description: string,
+  ) {
+    super();
+  }
+
+  public isSatisfiedBy({ password }: PasswordCandidate): boolean {
+    return this.pattern.test(password);
+  }
+
+  public describeFailure(): string {
+    return `Password must contain at least one ${this.description}`;
+  }
+}
 
-    if (!this.LOWERCASE_REGEX.test(password)) {
-      return failure(
-        new WeakPasswordError('Password must contain at least one lowercase letter'),
-      );
+// Shorter local parts would reject passwords for merely sharing a letter or two.
+const MIN_MATCHED_LOCAL_PART_LENGTH = 3;
+
+export class ExcludesEmailLocalPartSpecification extends CompositeSpecification<PasswordCandidate> {
+  public readonly name = 'excludesEmail';
+
+  public isSatisfiedBy({ password, email }: PasswordCandidate): boolean {
+    const localPart = email?.split('@')[0]?.toLowerCase();
+    if (!localPart || localPart.length < MIN_MATCHED_LOCAL_PART_LENGTH) {
+      return true;
     }
+    return !password.toLowerCase().includes(localPart);
+  }
+
+  public describeFailure(): string {
+    return 'Password must not contain your email address';
+  }
+}
+
+export class NotDenyListedSpecification extends CompositeSpecification<PasswordCandidate> {
+  public readonly name = 'notCommon';
+  private readonly denied: ReadonlySet<string>;
+
+  constructor(denyList: Iterable<string>) {
+    super();
+    this.denied = new Set([...denyList].map((entry) => entry.toLowerCase()));
+  }
+
+  public isSatisfiedBy({ password }: PasswordCandidate): boolean {
+    return !this.denied.has(password.toLowerCase());
+  }
+
+  public describeFailure(): string {
+    return 'Password is too common';
+  }
+}
+
+const escapeForCharacterClass = (characters: string): string =>
+  characters.replace(/[\\\]^-]/g, '\\$&');
+
+export class PasswordPolicy {
+  private readonly baseRules: PasswordRules;
+  private readonly tiers: Record<string, Partial<PasswordRules>>;
+  private readonly denyList: NotDenyListedSpecification;
+  private readonly specifications = new Map<string, Specification<PasswordCandidate>>();
 
-    if (!this.DIGIT_REGEX.test(password)) {
-      return failure(new WeakPasswordError('Password must contain at least one digit'));
+  constructor(config: PasswordPolicyConfig = {}) {
+    const { tiers = {}, denyList = [], ...rules } = config;
+    this.baseRules = { ...DEFAULT_PASSWORD_RULES, ...rules };
+    this.tiers = tiers;
+    this.denyList = new NotDenyListedSpecification(denyList);
+  }
+
+  public static fromConfig(config: PasswordPolicyConfig): PasswordPolicy {
+    return new PasswordPolicy(config);
+  }
+
+  public hasTier(tier: string): boolean {
+    return Object.hasOwn(this.tiers, tier);
+  }
+
+  public rulesFor(tier?: string): PasswordRules {
+    if (tier !== undefined && !this.hasTier(tier)) {
+      throw new Error(`Unknown password policy tier: ${tier}`);
     }
+    return { ...this.baseRules, ...(tier === undefined ? {} : this.tiers[tier]) };
+  }
 
-    if (!this.SPECIAL_CHAR_REGEX.test(password)) {
-      return failure(
-        new WeakPasswordError('Password must contain at least one special character'),
-      );
+  public specificationFor(tier?: string): Specification<PasswordCandidate> {
+    const key = tier ?? '';
+    let spec = this.specifications.get(key);
+    if (!spec) {
+      spec = this.buildSpecification(this.rulesFor(tier));
+      this.specifications.set(key, spec);
     }
+    return spec;
+  }
 
+  /** Evaluates every rule and reports each failure as a separate violation. */
+  public validate(
+    password: string,
+    context: { email?: string; tier?: string } = {},
+  ): Result<void, WeakPasswordError> {
+    const { failures } = this.specificationFor(context.tier).explain({
+      password,
+      email: context.email,
+    });
+    if (failures.length > 0) {
+      return failure(new WeakPasswordError(failures));
+    }
     return success(undefined);
   }
+
+  private buildSpecification(rules: PasswordRules): Specification<PasswordCandidate> {
+    let spec: Specification<PasswordCandidate> = new MinLengthSpecification(rules.minLength).and(
+      new MaxLengthSpecification(rules.maxLength),
+    );
+    if (rules.requireUppercase) {
+      spec = spec.and(new ContainsPatternSpecification('uppercase', /[A-Z]/, 'uppercase letter'));
+    }
+    if (rules.requireLowercase) {
+      spec = spec.and(new ContainsPatternSpecification('lowercase', /[a-z]/, 'lowercase letter'));
+    }
+    if (rules.requireDigit) {
+      spec = spec.and(new ContainsPatternSpecification('digit', /\d/, 'digit'));
+    }
+    if (rules.specialCharacters) {
+      const pattern = new RegExp(`[${escapeForCharacterClass(rules.specialCharacters)}]`);
+      spec = spec.and(new ContainsPatternSpecification('special', pattern, 'special character'));
+    }
+    if (rules.rejectEmailLocalPart) {
+      spec = spec.and(new ExcludesEmailLocalPartSpecification());
+    }
+    return spec.and(this.denyList);
+  }
 }
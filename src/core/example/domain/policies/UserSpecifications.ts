@@ -0,0 +1,27 @@
+import { CompositeSpecification } from '@shared/kernel/domain';
+import type { User } from '../entities/User';
+
+export class ActiveUserSpecification extends CompositeSpecification<User> {
+  public readonly name = 'activeUser';
+
+  public isSatisfiedBy(user: User): boolean {
+    return user.isActive;
+  }
+}
+
+export class EmailDomainSpecification extends CompositeSpecification<User> {
+  public readonly name = 'emailDomain';
+
+  constructor(public readonly domain: string) {
+    super();
+  }
+
+  public isSatisfiedBy(user: User): boolean {
+    return user.email.endsWith(`@${this.domain.toLowerCase()}`);
+  }
+
+  /** Leaves the address out: failure messages end up in errors and logs. */
+  public describeFailure(): string {
+    return `User email is not in domain ${this.domain}`;
+  }
+}
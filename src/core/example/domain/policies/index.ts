@@ -1 +1,3 @@
 export * from './PasswordPolicy';
+export * from './UserSpecifications';
+export * from './LoginLockoutPolicy';
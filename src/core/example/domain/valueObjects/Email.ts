@@ -2,28 +2,186 @@ import { failure, success, type Result } from '@shared/kernel/result';
 import { DomainError } from '@shared/kernel/errors';
 
 declare const emailBrand: unique symbol;
+/**
+ * Display form of a validated address: the local part exactly as entered and
+ * the domain lowercased and converted to punycode. Compare addresses with
+ * `EmailCanonicalizer`, not `===`.
+ */
 export type Email = string & { readonly [emailBrand]: 'Email' };
 
+export type InvalidEmailReason =
+  | 'EMPTY'
+  | 'TOO_LONG'
+  | 'MISSING_AT'
+  | 'LOCAL_PART_EMPTY'
+  | 'LOCAL_PART_TOO_LONG'
+  | 'INVALID_LOCAL_PART'
+  | 'QUOTED_LOCAL_PART_NOT_ALLOWED'
+  | 'DOMAIN_EMPTY'
+  | 'DOMAIN_TOO_LONG'
+  | 'DOMAIN_LITERAL_NOT_ALLOWED'
+  | 'INVALID_DOMAIN'
+  | 'INVALID_DOMAIN_LABEL'
+  | 'SINGLE_LABEL_DOMAIN'
+  | 'INVALID_TLD';
+
+/** The rejected address is left out of the message so logs never carry it. */
 export class InvalidEmailError extends DomainError {
-  constructor(value: string) {
-    super(`Invalid email: ${value}`, 'INVALID_EMAIL');
+  constructor(public readonly reason: InvalidEmailReason) {
+    super(`Invalid email (${reason})`, 'INVALID_EMAIL', { details: { reason } });
   }
 }
 
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export interface EmailParseOptions {
+  /** Accept RFC 5321 quoted local parts such as `"john doe"@example.com`. Off by default. */
+  allowQuotedLocalPart?: boolean;
+}
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+const DOT_ATOM = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/;
+const QUOTED_STRING = /^"(?:[\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])*"$/;
+const DOMAIN_FORBIDDEN = /[\s%/\\:?#[\]@]/;
+const LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+const TLD = /^(?:[a-z]{2,63}|xn--[a-z0-9-]{1,59})$/;
+
+const utf8Length = (value: string): number => new TextEncoder().encode(value).length;
+
+const validateLocalPart = (
+  localPart: string,
+  options: EmailParseOptions,
+): InvalidEmailReason | null => {
+  if (localPart.length === 0) {
+    return 'LOCAL_PART_EMPTY';
+  }
+  if (utf8Length(localPart) > MAX_LOCAL_PART_LENGTH) {
+    return 'LOCAL_PART_TOO_LONG';
+  }
+  if (localPart.startsWith('"')) {
+    if (!options.allowQuotedLocalPart) {
+      return 'QUOTED_LOCAL_PART_NOT_ALLOWED';
+    }
+    return QUOTED_STRING.test(localPart) ? null : 'INVALID_LOCAL_PART';
+  }
+  return DOT_ATOM.test(localPart) ? null : 'INVALID_LOCAL_PART';
+};
+
+/** Lowercases the domain and converts internationalized labels to punycode. */
+const toAsciiDomain = (domain: string): Result<string, InvalidEmailReason> => {
+  if (domain.length === 0) {
+    return failure('DOMAIN_EMPTY');
+  }
+  if (domain.startsWith('[')) {
+    return failure('DOMAIN_LITERAL_NOT_ALLOWED');
+  }
+  if (DOMAIN_FORBIDDEN.test(domain)) {
+    return failure('INVALID_DOMAIN');
+  }
+  if (/^[\x00-\x7f]*$/.test(domain)) {
+    return success(domain.toLowerCase());
+  }
+  try {
+    return success(new URL(`http://${domain}`).hostname);
+  } catch {
+    return failure('INVALID_DOMAIN');
+  }
+};
 
-export const createEmail = (value: string): Result<Email, InvalidEmailError> => {
-  const trimmed = value.trim().toLowerCase();
-  
-  if (!EMAIL_REGEX.test(trimmed)) {
-    return failure(new InvalidEmailError(value));
+const validateDomain = (domain: string): InvalidEmailReason | null => {
+  if (domain.length > MAX_DOMAIN_LENGTH) {
+    return 'DOMAIN_TOO_LONG';
+  }
+  const labels = domain.split('.');
+  if (labels.length < 2) {
+    return 'SINGLE_LABEL_DOMAIN';
   }
-  
-  if (trimmed.length > 254) {
-    return failure(new InvalidEmailError(value));
+  if (labels.some((label) => label.length > MAX_LABEL_LENGTH || !LABEL.test(label))) {
+    return 'INVALID_DOMAIN_LABEL';
   }
-  
-  return success(trimmed as Email);
+  return TLD.test(labels[labels.length - 1] ?? '') ? null : 'INVALID_TLD';
+};
+
+/**
+ * Parses an address following the practical subset of RFC 5321/5322 that
+ * mail systems accept: dot-atom local parts (quoted ones only on request),
+ * hostname domains (no IP literals) and the SMTP length limits.
+ */
+export const createEmail = (
+  value: string,
+  options: EmailParseOptions = {},
+): Result<Email, InvalidEmailError> => {
+  const trimmed = value.trim();
+  const invalid = (reason: InvalidEmailReason) => failure(new InvalidEmailError(reason));
+
+  if (trimmed.length === 0) {
+    return invalid('EMPTY');
+  }
+  if (utf8Length(trimmed) > MAX_ADDRESS_LENGTH) {
+    return invalid('TOO_LONG');
+  }
+  const at = trimmed.lastIndexOf('@');
+  if (at === -1) {
+    return invalid('MISSING_AT');
+  }
+
+  const localPart = trimmed.slice(0, at);
+  const localPartError = validateLocalPart(localPart, options);
+  if (localPartError) {
+    return invalid(localPartError);
+  }
+
+  const domain = toAsciiDomain(trimmed.slice(at + 1));
+  if (domain.isFailure) {
+    return invalid(domain.error);
+  }
+  const domainError = validateDomain(domain.value);
+  if (domainError) {
+    return invalid(domainError);
+  }
+
+  const address = `${localPart}@${domain.value}`;
+  if (address.length > MAX_ADDRESS_LENGTH) {
+    return invalid('TOO_LONG');
+  }
+  return success(address as Email);
 };
 
 export const emailToString = (email: Email): string => email;
+
+export interface EmailCanonicalizationOptions {
+  /** Drop `+tag` suffixes, so `jane+news@example.com` matches `jane@example.com`. */
+  stripPlusTags?: boolean;
+  /** Ignore dots in Gmail local parts and treat googlemail.com as gmail.com. */
+  gmailDots?: boolean;
+}
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+/**
+ * Produces the form used for uniqueness and lookups. Local parts are compared
+ * case-insensitively, as every mainstream provider does; tag and Gmail dot
+ * folding are opt-in.
+ */
+export class EmailCanonicalizer {
+  constructor(private readonly options: EmailCanonicalizationOptions = {}) {}
+
+  public canonicalize(email: Email): string {
+    const at = email.lastIndexOf('@');
+    let localPart = email.slice(0, at).toLowerCase();
+    let domain = email.slice(at + 1);
+
+    if (!localPart.startsWith('"')) {
+      if (this.options.stripPlusTags) {
+        localPart = localPart.split('+')[0] || localPart;
+      }
+      if (this.options.gmailDots && GMAIL_DOMAINS.has(domain)) {
+        localPart = localPart.replaceAll('.', '');
+        domain = 'gmail.com';
+      }
+    }
+    return `${localPart}@${domain}`;
+  }
+}
@@ -0,0 +1,24 @@
+import { failure, success, type Result } from '@shared/kernel/result';
+import { DomainError } from '@shared/kernel/errors';
+
+declare const passwordHashBrand: unique symbol;
+export type PasswordHash = string & { readonly [passwordHashBrand]: 'PasswordHash' };
+
+export class InvalidPasswordHashError extends DomainError {
+  constructor() {
+    super('Invalid password hash format', 'INVALID_PASSWORD_HASH');
+  }
+}
+
+// PHC string format: $<algorithm>$<param>=<value>,...$<salt>$<hash>
+const PHC_REGEX =
+  /^\$[a-z0-9-]+\$[a-z0-9-]+=[^$,]+(?:,[a-z0-9-]+=[^$,]+)*\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/;
+
+export const createPasswordHash = (value: string): Result<PasswordHash, InvalidPasswordHashError> => {
+  if (!PHC_REGEX.test(value)) {
+    return failure(new InvalidPasswordHashError());
+  }
+  return success(value as PasswordHash);
+};
+
+export const passwordHashAlgorithm = (hash: PasswordHash): string => hash.split('$')[1] ?? '';
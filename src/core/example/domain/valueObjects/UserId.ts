@@ -1,18 +1,10 @@
-import { fromString, isValidUUID, type UserId } from '@shared/kernel/id';
-import { failure, success, type Result } from '@shared/kernel/result';
-import { DomainError } from '@shared/kernel/errors';
+import { defineId, type Brand } from '@shared/kernel/id';
 
-export class InvalidUserIdError extends DomainError {
-  constructor(value: string) {
-    super(`Invalid UserId: ${value}`, 'INVALID_USER_ID');
-  }
-}
+export type UserId = Brand<string, 'UserId'>;
 
-export const createUserId = (value: string): Result<UserId, InvalidUserIdError> => {
-  if (!isValidUUID(value)) {
-    return failure(new InvalidUserIdError(value));
-  }
-  return success(fromString<'UserId'>(value, 'UserId'));
-};
+export const UserIds = defineId('UserId');
 
-export type { UserId };
+export const InvalidUserIdError = UserIds.InvalidError;
+export type InvalidUserIdError = InstanceType<typeof InvalidUserIdError>;
+
+export const createUserId = UserIds.parse;
@@ -1,2 +1,3 @@
 export * from './UserId';
 export * from './Email';
+export * from './PasswordHash';
@@ -0,0 +1,137 @@
+import {
+  EventSourcedRepository,
+  type EventStore,
+  type SnapshotOptions,
+} from '@shared/kernel/persistence';
+import { User, type UserProps } from '../../domain/entities/User';
+import { UserCreated, UserEmailChanged } from '../../domain/events';
+import type { UserRepository } from '../../application/ports/UserRepository';
+import type { UserId } from '../../domain/valueObjects/UserId';
+import { EmailCanonicalizer, type Email } from '../../domain/valueObjects/Email';
+import type { PasswordHash } from '../../domain/valueObjects/PasswordHash';
+import { UserAlreadyExistsError } from '../../application/errors';
+import type { Specification } from '@shared/kernel/domain';
+
+export const USER_STREAM_PREFIX = 'example.User';
+
+/** Password hashes of event-sourced users, kept apart from their streams and snapshots. */
+export interface UserCredentialStore {
+  get(userId: string): Promise<PasswordHash | null>;
+  set(userId: string, passwordHash: PasswordHash): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export class InMemoryUserCredentialStore implements UserCredentialStore {
+  private readonly hashes = new Map<string, PasswordHash>();
+
+  public async get(userId: string): Promise<PasswordHash | null> {
+    return this.hashes.get(userId) ?? null;
+  }
+
+  public async set(userId: string, passwordHash: PasswordHash): Promise<void> {
+    this.hashes.set(userId, passwordHash);
+  }
+
+  public async delete(userId: string): Promise<void> {
+    this.hashes.delete(userId);
+  }
+}
+
+/**
+ * `UserRepository` over an event store. Lookups by email go through an index
+ * of canonical emails that catches up on new events instead of replaying the
+ * whole log; entries whose stream was deleted are dropped when found. Events
+ * and snapshots never carry password hashes, which live in `credentials`.
+ */
+export class EventSourcedUserRepository implements UserRepository {
+  private readonly repository: EventSourcedRepository<User, UserProps>;
+  private readonly idsByEmail = new Map<string, string>();
+  private readonly emailsById = new Map<string, string>();
+  private position = 0;
+
+  constructor(
+    private readonly eventStore: EventStore,
+    snapshots?: SnapshotOptions<UserProps>,
+    private readonly canonicalizer = new EmailCanonicalizer(),
+    private readonly credentials: UserCredentialStore = new InMemoryUserCredentialStore(),
+  ) {
+    this.repository = new EventSourcedRepository(
+      eventStore,
+      {
+        streamPrefix: USER_STREAM_PREFIX,
+        rehydrate: (history, snapshot) => User.fromHistory(history, snapshot),
+        toSnapshot: (user) => ({ ...user.toSnapshot(), passwordHash: null }),
+      },
+      snapshots,
+    );
+  }
+
+  public async save(user: User, expectedVersion?: number): Promise<void> {
+    const owner = await this.findByEmail(user.email);
+    if (owner && owner.id !== user.id) {
+      throw new UserAlreadyExistsError();
+    }
+    await this.repository.save(user, expectedVersion);
+    if (user.passwordHash) {
+      await this.credentials.set(user.id, user.passwordHash);
+    }
+  }
+
+  public findById(id: UserId): Promise<User | null> {
+    return this.load(id);
+  }
+
+  public async findByEmail(email: Email): Promise<User | null> {
+    await this.catchUp();
+    const id = this.idsByEmail.get(this.canonicalizer.canonicalize(email));
+    return id ? this.loadIndexed(id) : null;
+  }
+
+  public async findMatching(specification: Specification<User>): Promise<User[]> {
+    await this.catchUp();
+    const users = await Promise.all([...this.emailsById.keys()].map((id) => this.loadIndexed(id)));
+    return users.filter((user): user is User => !!user && specification.isSatisfiedBy(user));
+  }
+
+  public async delete(id: UserId): Promise<void> {
+    await this.repository.delete(id);
+    await this.credentials.delete(id);
+    this.unindex(id);
+  }
+
+  private async catchUp(): Promise<void> {
+    for (const { event, globalPosition } of await this.eventStore.readAll(this.position + 1)) {
+      if (event instanceof UserCreated || event instanceof UserEmailChanged) {
+        this.unindex(event.aggregateId);
+        const canonical = this.canonicalizer.canonicalize(event.email as Email);
+        this.idsByEmail.set(canonical, event.aggregateId);
+        this.emailsById.set(event.aggregateId, canonical);
+      }
+      this.position = globalPosition;
+    }
+  }
+
+  private async load(id: string): Promise<User | null> {
+    const user = await this.repository.load(id);
+    const passwordHash = user && (await this.credentials.get(id));
+    return user && passwordHash
+      ? User.reconstitute({ ...user.toSnapshot(), passwordHash }, user.version)
+      : user;
+  }
+
+  private async loadIndexed(id: string): Promise<User | null> {
+    const user = await this.load(id);
+    if (!user) {
+      this.unindex(id);
+    }
+    return user;
+  }
+
+  private unindex(id: string): void {
+    const canonical = this.emailsById.get(id);
+    if (canonical !== undefined && this.idsByEmail.get(canonical) === id) {
+      this.idsByEmail.delete(canonical);
+    }
+    this.emailsById.delete(id);
+  }
+}
@@ -0,0 +1,22 @@
+import { readFile } from 'node:fs/promises';
+import { PasswordPolicy, type PasswordPolicyConfig } from '../../domain/policies/PasswordPolicy';
+
+/**
+ * Reads a deny-list file with one password per line. Blank lines and lines
+ * starting with `#` are ignored.
+ */
+export const loadPasswordDenyList = async (path: string): Promise<string[]> => {
+  const content = await readFile(path, 'utf8');
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+};
+
+export const loadPasswordPolicy = async (
+  config: PasswordPolicyConfig & { denyListPath?: string },
+): Promise<PasswordPolicy> => {
+  const { denyListPath, denyList = [], ...rest } = config;
+  const fromFile = denyListPath ? await loadPasswordDenyList(denyListPath) : [];
+  return PasswordPolicy.fromConfig({ ...rest, denyList: [...denyList, ...fromFile] });
+};
@@ -1,27 +1,57 @@
-import type { User } from '../../domain/entities/User';
+import { User, type UserProps } from '../../domain/entities/User';
 import type { UserRepository } from '../../application/ports/UserRepository';
 import type { UserId } from '../../domain/valueObjects/UserId';
+import { EmailCanonicalizer, type Email } from '../../domain/valueObjects/Email';
+import { ConcurrencyError } from '@shared/kernel/errors';
+import type { TransactionParticipant } from '@shared/kernel/persistence';
+import type { Specification } from '@shared/kernel/domain';
+import { UserAlreadyExistsError } from '../../application/errors';
 
-export class InMemoryUserRepository implements UserRepository {
-  private readonly users = new Map<string, User>();
+interface StoredUser {
+  props: UserProps;
+  version: number;
+}
+
+export class InMemoryUserRepository implements UserRepository, TransactionParticipant {
+  private readonly users = new Map<string, StoredUser>();
+
+  constructor(private readonly canonicalizer = new EmailCanonicalizer()) {}
 
-  public async save(user: User): Promise<void> {
-    this.users.set(user.id, user);
+  public async save(user: User, expectedVersion: number = user.version): Promise<void> {
+    const actualVersion = this.users.get(user.id)?.version ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw ConcurrencyError.forAggregate(user.id, expectedVersion, actualVersion);
+    }
+    const owner = await this.findByEmail(user.email);
+    if (owner && owner.id !== user.id) {
+      throw new UserAlreadyExistsError();
+    }
+    const version = actualVersion + 1;
+    this.users.set(user.id, { props: user.toSnapshot(), version });
+    user.markPersisted(version);
   }
 
   public async findById(id: UserId): Promise<User | null> {
-    return this.users.get(id) ?? null;
+    const stored = this.users.get(id);
+    return stored ? this.toUser(stored) : null;
   }
 
-  public async findByEmail(email: string): Promise<User | null> {
-    for (const user of this.users.values()) {
-      if (user.email === email) {
-        return user;
+  public async findByEmail(email: Email): Promise<User | null> {
+    const canonical = this.canonicalizer.canonicalize(email);
+    for (const stored of this.users.values()) {
+      if (this.canonicalizer.canonicalize(stored.props.email) === canonical) {
+        return this.toUser(stored);
       }
     }
     return null;
   }
 
+  public async findMatching(specification: Specification<User>): Promise<User[]> {
+    return [...this.users.values()]
+      .map((stored) => this.toUser(stored))
+      .filter((user) => specification.isSatisfiedBy(user));
+  }
+
   public async delete(id: UserId): Promise<void> {
     this.users.delete(id);
   }
@@ -29,4 +59,21 @@ export class InMemoryUserRepository implements UserRepository {
   public clear(): void {
     this.users.clear();
   }
+
+  public savepoint(ids: readonly string[]): () => void {
+    const snapshot = ids.map((id) => [id, this.users.get(id)] as const);
+    return () => {
+      for (const [id, stored] of snapshot) {
+        if (stored) {
+          this.users.set(id, stored);
+        } else {
+          this.users.delete(id);
+        }
+      }
+    };
+  }
+
+  private toUser(stored: StoredUser): User {
+    return User.reconstitute({ ...stored.props }, stored.version);
+  }
 }
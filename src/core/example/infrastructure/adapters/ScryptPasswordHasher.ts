@@ -0,0 +1,124 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto';
+import type { PasswordHasher } from '../../application/ports/PasswordHasher';
+import type { PasswordHash } from '../../domain/valueObjects/PasswordHash';
+
+export interface ScryptParameters {
+  /** log2 of the CPU/memory cost `N`. */
+  logCost: number;
+  blockSize: number;
+  parallelization: number;
+  keyLength: number;
+  saltLength: number;
+}
+
+export const DEFAULT_SCRYPT_PARAMETERS: Readonly<ScryptParameters> = {
+  logCost: 15,
+  blockSize: 8,
+  parallelization: 1,
+  keyLength: 32,
+  saltLength: 16,
+};
+
+interface ParsedHash {
+  logCost: number;
+  blockSize: number;
+  parallelization: number;
+  salt: Buffer;
+  key: Buffer;
+}
+
+/** Hashes outside these bounds are treated as unparseable rather than handed to scrypt. */
+const MAX_LOG_COST = 24;
+const MAX_PARALLELIZATION = 16;
+const MAX_MEMORY_BYTES = 1024 * 1024 * 1024;
+
+const inRange = ({ logCost, blockSize, parallelization }: ParsedHash): boolean =>
+  logCost >= 1 &&
+  logCost <= MAX_LOG_COST &&
+  blockSize >= 1 &&
+  parallelization >= 1 &&
+  parallelization <= MAX_PARALLELIZATION &&
+  128 * 2 ** logCost * blockSize <= MAX_MEMORY_BYTES;
+
+const derive = (password: string, salt: Buffer, keyLength: number, options: ScryptOptions) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, options, (error, key) =>
+      error ? reject(error) : resolve(key),
+    );
+  });
+
+const encode = (buffer: Buffer): string => buffer.toString('base64').replace(/=+$/, '');
+
+const parse = (hash: string): ParsedHash | null => {
+  const match = /^\$scrypt\$ln=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/.exec(hash);
+  if (!match) {
+    return null;
+  }
+  const [, logCost, blockSize, parallelization, salt, key] = match;
+  const parsed = {
+    logCost: Number(logCost),
+    blockSize: Number(blockSize),
+    parallelization: Number(parallelization),
+    salt: Buffer.from(salt ?? '', 'base64'),
+    key: Buffer.from(key ?? '', 'base64'),
+  };
+  return inRange(parsed) ? parsed : null;
+};
+
+/**
+ * `PasswordHasher` on `node:crypto` scrypt. Hashes are PHC strings
+ * (`$scrypt$ln=15,r=8,p=1$<salt>$<key>`) so each one carries the parameters
+ * it was made with and older hashes keep verifying after an upgrade.
+ */
+export class ScryptPasswordHasher implements PasswordHasher {
+  private readonly parameters: ScryptParameters;
+
+  constructor(parameters: Partial<ScryptParameters> = {}) {
+    this.parameters = { ...DEFAULT_SCRYPT_PARAMETERS, ...parameters };
+  }
+
+  public async hash(password: string): Promise<PasswordHash> {
+    const { logCost, blockSize, parallelization, keyLength, saltLength } = this.parameters;
+    const salt = randomBytes(saltLength);
+    const key = await derive(password, salt, keyLength, this.optionsFor(this.parameters));
+    const params = `ln=${logCost},r=${blockSize},p=${parallelization}`;
+    return `$scrypt$${params}$${encode(salt)}$${encode(key)}` as PasswordHash;
+  }
+
+  public async verify(password: string, hash: PasswordHash): Promise<boolean> {
+    const parsed = parse(hash);
+    if (!parsed || parsed.key.length === 0) {
+      return false;
+    }
+    const key = await derive(password, parsed.salt, parsed.key.length, this.optionsFor(parsed));
+    return timingSafeEqual(key, parsed.key);
+  }
+
+  public needsRehash(hash: PasswordHash): boolean {
+    const parsed = parse(hash);
+    if (!parsed) {
+      return true;
+    }
+    const { logCost, blockSize, parallelization, keyLength, saltLength } = this.parameters;
+    return (
+      parsed.logCost !== logCost ||
+      parsed.blockSize !== blockSize ||
+      parsed.parallelization !== parallelization ||
+      parsed.key.length !== keyLength ||
+      parsed.salt.length !== saltLength
+    );
+  }
+
+  private optionsFor(
+    params: Pick<ScryptParameters, 'logCost' | 'blockSize' | 'parallelization'>,
+  ): ScryptOptions {
+    const N = 2 ** params.logCost;
+    return {
+      N,
+      r: params.blockSize,
+      p: params.parallelization,
+      // scrypt needs roughly 128 * N * r bytes; leave headroom over Node's 32 MiB default.
+      maxmem: 256 * N * params.blockSize,
+    };
+  }
+}
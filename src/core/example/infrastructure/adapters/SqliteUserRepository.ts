@@ -0,0 +1,197 @@
+import type { DatabaseSync } from 'node:sqlite';
+import { ConcurrencyError } from '@shared/kernel/errors';
+import type { Specification } from '@shared/kernel/domain';
+import type { TransactionParticipant } from '@shared/kernel/persistence';
+import type { User } from '../../domain/entities/User';
+import type { UserRepository } from '../../application/ports/UserRepository';
+import type { UserId } from '../../domain/valueObjects/UserId';
+import { EmailCanonicalizer, type Email } from '../../domain/valueObjects/Email';
+import { UserAlreadyExistsError } from '../../application/errors';
+import { UserPersistenceMapper, type UserRow } from '../mappers/UserPersistenceMapper';
+import { migrate } from './sqlite/migrate';
+import { userMigrations } from './sqlite/userMigrations';
+import { userSpecificationToSql } from './sqlite/userSpecificationToSql';
+
+/** Extended result code `node:sqlite` reports in `errcode` for unique index violations. */
+const SQLITE_CONSTRAINT_UNIQUE = 2067;
+
+const isUniqueViolation = (error: unknown): boolean =>
+  (error as { errcode?: unknown } | null)?.errcode === SQLITE_CONSTRAINT_UNIQUE;
+
+/**
+ * `UserRepository` on Node's built-in `node:sqlite` (Node 22.5+). The module
+ * is loaded lazily by `open` so importing this file never fails on older runtimes.
+ * As a `TransactionParticipant` it restores the rows a failed unit of work wrote.
+ */
+export class SqliteUserRepository implements UserRepository, TransactionParticipant {
+  private constructor(
+    private readonly db: DatabaseSync,
+    private readonly canonicalizer: EmailCanonicalizer,
+  ) {}
+
+  /** Opens (creating if needed) the database at `path` and applies pending migrations. */
+  public static async open(
+    path: string,
+    canonicalizer = new EmailCanonicalizer(),
+  ): Promise<SqliteUserRepository> {
+    const { DatabaseSync } = await import('node:sqlite');
+    const db = new DatabaseSync(path);
+    db.exec('PRAGMA journal_mode = WAL');
+    migrate(db, userMigrations);
+    const repository = new SqliteUserRepository(db, canonicalizer);
+    repository.backfillCanonicalEmails();
+    return repository;
+  }
+
+  public async save(user: User, expectedVersion: number = user.version): Promise<void> {
+    const version = expectedVersion + 1;
+    const row = UserPersistenceMapper.toRow(
+      user,
+      version,
+      this.canonicalizer.canonicalize(user.email),
+    );
+
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const current = this.db.prepare('SELECT version FROM users WHERE id = ?').get(user.id);
+      const actualVersion = current ? Number(current.version) : 0;
+      if (actualVersion !== expectedVersion) {
+        throw ConcurrencyError.forAggregate(user.id, expectedVersion, actualVersion);
+      }
+      if (current) {
+        this.db
+          .prepare(
+            `UPDATE users SET email = ?, email_canonical = ?, is_active = ?, password_hash = ?,
+               failed_login_attempts = ?, locked_until = ?, updated_at = ?, version = ?
+             WHERE id = ? AND version = ?`,
+          )
+          .run(
+            row.email,
+            row.email_canonical,
+            row.is_active,
+            row.password_hash,
+            row.failed_login_attempts,
+            row.locked_until,
+            row.updated_at,
+            row.version,
+            row.id,
+            expectedVersion,
+          );
+      } else {
+        this.insert(row);
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      // The only unique index besides the primary key is on the canonical email.
+      const emailTaken = isUniqueViolation(error) && this.isEmailTaken(row);
+      throw emailTaken ? new UserAlreadyExistsError() : error;
+    }
+    user.markPersisted(version);
+  }
+
+  public async findById(id: UserId): Promise<User | null> {
+    return this.findOne('SELECT * FROM users WHERE id = ?', id);
+  }
+
+  public async findByEmail(email: Email): Promise<User | null> {
+    return this.findOne(
+      'SELECT * FROM users WHERE email_canonical = ?',
+      this.canonicalizer.canonicalize(email),
+    );
+  }
+
+  public async findMatching(specification: Specification<User>): Promise<User[]> {
+    const filter = userSpecificationToSql(specification);
+    if (!filter) {
+      return this.findAll().filter((user) => specification.isSatisfiedBy(user));
+    }
+    const rows = this.db
+      .prepare(`SELECT * FROM users WHERE ${filter.where} ORDER BY created_at`)
+      .all(...filter.params) as unknown as UserRow[];
+    return rows.map((row) => UserPersistenceMapper.toDomain(row));
+  }
+
+  public async delete(id: UserId): Promise<void> {
+    this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+  }
+
+  public savepoint(ids: readonly string[]): () => void {
+    const select = this.db.prepare('SELECT * FROM users WHERE id = ?');
+    const snapshot = ids.map((id) => [id, select.get(id) as UserRow | undefined] as const);
+    return () => {
+      this.db.exec('BEGIN IMMEDIATE');
+      try {
+        for (const [id, row] of snapshot) {
+          this.db.prepare('DELETE FROM users WHERE id = ?').run(id);
+          if (row) {
+            this.insert(row);
+          }
+        }
+        this.db.exec('COMMIT');
+      } catch (error) {
+        this.db.exec('ROLLBACK');
+        throw error;
+      }
+    };
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+
+  private insert(row: UserRow): void {
+    this.db
+      .prepare(
+        `INSERT INTO users (id, email, email_canonical, is_active, password_hash,
+           failed_login_attempts, locked_until, created_at, updated_at, version)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        row.id,
+        row.email,
+        row.email_canonical,
+        row.is_active,
+        row.password_hash,
+        row.failed_login_attempts,
+        row.locked_until,
+        row.created_at,
+        row.updated_at,
+        row.version,
+      );
+  }
+
+  /** Fills `email_canonical` for rows written before the column existed. */
+  private backfillCanonicalEmails(): void {
+    const rows = this.db
+      .prepare('SELECT id, email FROM users WHERE email_canonical IS NULL')
+      .all() as unknown as Array<Pick<UserRow, 'id' | 'email'>>;
+    const update = this.db.prepare('UPDATE users SET email_canonical = ? WHERE id = ?');
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      for (const { id, email } of rows) {
+        update.run(this.canonicalizer.canonicalize(email as Email), id);
+      }
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private isEmailTaken(row: UserRow): boolean {
+    return !!this.db
+      .prepare('SELECT 1 FROM users WHERE email_canonical = ? AND id != ?')
+      .get(row.email_canonical, row.id);
+  }
+
+  private findAll(): User[] {
+    const rows = this.db.prepare('SELECT * FROM users ORDER BY created_at').all() as unknown as UserRow[];
+    return rows.map((row) => UserPersistenceMapper.toDomain(row));
+  }
+
+  private findOne(sql: string, value: string): User | null {
+    const row = this.db.prepare(sql).get(value) as UserRow | undefined;
+    return row ? UserPersistenceMapper.toDomain(row) : null;
+  }
+}
@@ -1 +1,5 @@
 export * from './InMemoryUserRepository';
+export * from './EventSourcedUserRepository';
+export * from './SqliteUserRepository';
+export * from './FilePasswordDenyList';
+export * from './ScryptPasswordHasher';
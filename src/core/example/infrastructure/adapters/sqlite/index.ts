@@ -0,0 +1,3 @@
+export * from './migrate';
+export * from './userMigrations';
+export * from './userSpecificationToSql';
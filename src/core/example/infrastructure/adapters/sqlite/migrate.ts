@@ -0,0 +1,49 @@
+import type { DatabaseSync } from 'node:sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Applies every migration newer than the database's recorded schema version,
+ * each in its own transaction. Returns the resulting schema version.
+ */
+export const migrate = (db: DatabaseSync, migrations: ReadonlyArray<Migration>): number => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const applied = new Set(
+    db
+      .prepare('SELECT version FROM schema_migrations')
+      .all()
+      .map((row) => Number(row.version)),
+  );
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => !applied.has(migration.version));
+  for (const migration of pending) {
+    db.exec('BEGIN');
+    try {
+      db.exec(migration.up);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(
+        migration.version,
+        migration.name,
+        new Date().toISOString(),
+      );
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+    applied.add(migration.version);
+  }
+
+  return Math.max(0, ...applied);
+};
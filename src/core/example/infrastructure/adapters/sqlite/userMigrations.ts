@@ -0,0 +1,42 @@
+import type { Migration } from './migrate';
+
+export const userMigrations: ReadonlyArray<Migration> = [
+  {
+    version: 1,
+    name: 'create_users',
+    up: `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL,
+        is_active INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        version INTEGER NOT NULL
+      )
+    `,
+  },
+  {
+    version: 2,
+    name: 'users_email_unique',
+    up: 'CREATE UNIQUE INDEX users_email_unique ON users (email)',
+  },
+  {
+    version: 3,
+    name: 'users_credentials',
+    up: `
+      ALTER TABLE users ADD COLUMN password_hash TEXT;
+      ALTER TABLE users ADD COLUMN failed_login_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN locked_until TEXT;
+    `,
+  },
+  {
+    version: 4,
+    name: 'users_email_canonical_unique',
+    // Left NULL here: the repository backfills it with its configured canonicalizer.
+    up: `
+      ALTER TABLE users ADD COLUMN email_canonical TEXT;
+      DROP INDEX users_email_unique;
+      CREATE UNIQUE INDEX users_email_canonical_unique ON users (email_canonical);
+    `,
+  },
+];
@@ -0,0 +1,52 @@
+import {
+  AndSpecification,
+  NotSpecification,
+  OrSpecification,
+  type Specification,
+} from '@shared/kernel/domain';
+import type { User } from '../../../domain/entities/User';
+import {
+  ActiveUserSpecification,
+  EmailDomainSpecification,
+} from '../../../domain/policies/UserSpecifications';
+
+export interface SqlFilter {
+  where: string;
+  params: string[];
+}
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+/**
+ * Translates the user specifications SQLite understands into a WHERE clause.
+ * Returns `null` when any part of the tree is unsupported, in which case the
+ * caller must evaluate the specification in memory.
+ */
+export const userSpecificationToSql = (specification: Specification<User>): SqlFilter | null => {
+  if (specification instanceof ActiveUserSpecification) {
+    return { where: 'is_active = 1', params: [] };
+  }
+  if (specification instanceof EmailDomainSpecification) {
+    return {
+      where: "email LIKE ? ESCAPE '\\'",
+      params: [`%@${escapeLike(specification.domain.toLowerCase())}`],
+    };
+  }
+  if (specification instanceof AndSpecification || specification instanceof OrSpecification) {
+    const left = userSpecificationToSql(specification.left);
+    const right = userSpecificationToSql(specification.right);
+    if (!left || !right) {
+      return null;
+    }
+    const operator = specification instanceof AndSpecification ? 'AND' : 'OR';
+    return {
+      where: `(${left.where} ${operator} ${right.where})`,
+      params: [...left.params, ...right.params],
+    };
+  }
+  if (specification instanceof NotSpecification) {
+    const inner = userSpecificationToSql(specification.inner);
+    return inner ? { where: `NOT (${inner.where})`, params: inner.params } : null;
+  }
+  return null;
+};
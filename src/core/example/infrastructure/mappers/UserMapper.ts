@@ -1,5 +1,6 @@
 import type { User } from '../../domain/entities/User';
 import type { CreateUserResponse } from '../../application/dtos/CreateUserDto';
+import type { UserResponse } from '../../application/dtos/UserDto';
 
 export class UserMapper {
   public static toCreateUserResponse(user: User): CreateUserResponse {
@@ -9,4 +10,14 @@ export class UserMapper {
       createdAt: user.createdAt,
     };
   }
+
+  public static toUserResponse(user: User): UserResponse {
+    return {
+      userId: user.id,
+      email: user.email,
+      isActive: user.isActive,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
 }
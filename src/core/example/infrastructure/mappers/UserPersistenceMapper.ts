@@ -0,0 +1,50 @@
+import { fromString } from '@shared/kernel/id';
+import { User } from '../../domain/entities/User';
+import type { Email } from '../../domain/valueObjects/Email';
+import type { PasswordHash } from '../../domain/valueObjects/PasswordHash';
+
+export interface UserRow {
+  id: string;
+  email: string;
+  email_canonical: string;
+  is_active: number;
+  password_hash: string | null;
+  failed_login_attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  version: number;
+}
+
+export class UserPersistenceMapper {
+  public static toRow(user: User, version: number, canonicalEmail: string): UserRow {
+    return {
+      id: user.id,
+      email: user.email,
+      email_canonical: canonicalEmail,
+      is_active: user.isActive ? 1 : 0,
+      password_hash: user.passwordHash,
+      failed_login_attempts: user.failedLoginAttempts,
+      locked_until: user.lockedUntil?.toISOString() ?? null,
+      created_at: user.createdAt.toISOString(),
+      updated_at: user.updatedAt.toISOString(),
+      version,
+    };
+  }
+
+  public static toDomain(row: UserRow): User {
+    return User.reconstitute(
+      {
+        id: fromString<'UserId'>(row.id, 'UserId'),
+        email: row.email as Email,
+        isActive: row.is_active === 1,
+        passwordHash: row.password_hash as PasswordHash | null,
+        failedLoginAttempts: Number(row.failed_login_attempts),
+        lockedUntil: row.locked_until === null ? null : new Date(row.locked_until),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at),
+      },
+      row.version,
+    );
+  }
+}
@@ -1 +1,2 @@
 export * from './UserMapper';
+export * from './UserPersistenceMapper';
@@ -0,0 +1,157 @@
+import { defaults } from '@config/defaults';
+import { retryOnConflict } from '@shared/kernel/bus';
+import {
+  Kernel,
+  createToken,
+  defineModule,
+  handleCommand,
+  handleQuery,
+  provideFactory,
+  subscribeTo,
+} from '@shared/kernel/module';
+import {
+  InMemoryUnitOfWork,
+  isTransactionParticipant,
+  type UnitOfWork,
+} from '@shared/kernel/persistence';
+import { InMemoryReadModelStore, type ReadModelStore } from '@shared/kernel/projections';
+import type { UserRepository } from '../application/ports/UserRepository';
+import type { PasswordHasher } from '../application/ports/PasswordHasher';
+import {
+  USER_DIRECTORY_EVENT_TYPES,
+  UserDirectoryProjection,
+  type UserDirectoryEntry,
+} from '../application/projections/UserDirectoryProjection';
+import { PasswordPolicy as Policy } from '../domain/policies/PasswordPolicy';
+import { CreateUser } from '../application/commands/CreateUser';
+import { ChangeUserEmail } from '../application/commands/ChangeUserEmail';
+import { DeactivateUser } from '../application/commands/DeactivateUser';
+import { ReactivateUser } from '../application/commands/ReactivateUser';
+import { DeleteUser } from '../application/commands/DeleteUser';
+import { ChangePassword } from '../application/commands/ChangePassword';
+import { AuthenticateUser } from '../application/commands/AuthenticateUser';
+import { GetUserById } from '../application/queries/GetUserById';
+import { ListUsers, ListUsersQueryHandler } from '../application/queries/ListUsers';
+import { CreateUserUseCase } from '../application/use-cases/CreateUserUseCase';
+import { ChangeUserEmailUseCase } from '../application/use-cases/ChangeUserEmailUseCase';
+import { DeactivateUserUseCase } from '../application/use-cases/DeactivateUserUseCase';
+import { ReactivateUserUseCase } from '../application/use-cases/ReactivateUserUseCase';
+import { DeleteUserUseCase } from '../application/use-cases/DeleteUserUseCase';
+import { GetUserByIdUseCase } from '../application/use-cases/GetUserByIdUseCase';
+import { ChangePasswordUseCase } from '../application/use-cases/ChangePasswordUseCase';
+import { AuthenticateUserUseCase } from '../application/use-cases/AuthenticateUserUseCase';
+import { InMemoryUserRepository } from '../infrastructure/adapters/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '../infrastructure/adapters/ScryptPasswordHasher';
+import { CreateUserHandler } from './handlers/CreateUserHandler';
+import { ChangeUserEmailHandler } from './handlers/ChangeUserEmailHandler';
+import { DeactivateUserHandler } from './handlers/DeactivateUserHandler';
+import { ReactivateUserHandler } from './handlers/ReactivateUserHandler';
+import { DeleteUserHandler } from './handlers/DeleteUserHandler';
+import { ChangePasswordHandler } from './handlers/ChangePasswordHandler';
+import { AuthenticateUserHandler } from './handlers/AuthenticateUserHandler';
+import { GetUserByIdHandler } from './handlers/GetUserByIdHandler';
+
+export const UserTokens = {
+  UserRepository: createToken<UserRepository>('example.UserRepository'),
+  PasswordHasher: createToken<PasswordHasher>('example.PasswordHasher'),
+  PasswordPolicy: createToken<Policy>('example.PasswordPolicy'),
+  UnitOfWork: createToken<UnitOfWork>('example.UnitOfWork'),
+  UserDirectory: createToken<ReadModelStore<UserDirectoryEntry>>('example.UserDirectory'),
+  AuthenticateUser: createToken<AuthenticateUserUseCase>('example.AuthenticateUser'),
+} as const;
+
+const { UserRepository, PasswordHasher, PasswordPolicy, UnitOfWork, UserDirectory } = UserTokens;
+const lifecycleDeps = [UserRepository, Kernel.Clock, UnitOfWork] as const;
+
+/**
+ * The user bounded context. Adapters default to the in-memory ones; replace
+ * any of them by passing a provider for its token as a bootstrap override.
+ * The password policy defaults to the configured defaults; the composition root
+ * overrides it with one built from the environment.
+ * Handlers that load and save an existing user re-run on a version conflict.
+ * `ListUsers` reads the user directory, which is projected from relayed events.
+ */
+export const UserModule = defineModule({
+  name: 'example.users',
+  requires: [Kernel.Clock, Kernel.Outbox],
+  providers: [
+    provideFactory(UserRepository, [], () => new InMemoryUserRepository()),
+    provideFactory(PasswordHasher, [], () => new ScryptPasswordHasher()),
+    provideFactory(PasswordPolicy, [], () => Policy.fromConfig(defaults.passwordPolicy)),
+    provideFactory(UserDirectory, [], () => new InMemoryReadModelStore<UserDirectoryEntry>()),
+    provideFactory(
+      UnitOfWork,
+      [Kernel.Outbox, Kernel.Clock, UserRepository],
+      (outbox, clock, repository) =>
+        new InMemoryUnitOfWork(
+          outbox,
+          clock,
+          isTransactionParticipant(repository) ? [repository] : [],
+        ),
+    ),
+    provideFactory(
+      UserTokens.AuthenticateUser,
+      [UserRepository, PasswordHasher, Kernel.Clock, UnitOfWork],
+      (repository, hasher, clock, unitOfWork) =>
+        new AuthenticateUserUseCase(repository, hasher, clock, unitOfWork),
+    ),
+  ],
+  exports: [UserTokens.AuthenticateUser],
+  commands: [
+    handleCommand(
+      CreateUser,
+      [...lifecycleDeps, PasswordHasher, PasswordPolicy],
+      (repository, clock, unitOfWork, hasher, policy) =>
+        new CreateUserHandler(
+          new CreateUserUseCase(repository, clock, unitOfWork, hasher, policy),
+        ),
+    ),
+    handleCommand(
+      ChangeUserEmail,
+      lifecycleDeps,
+      (...deps) => retryOnConflict(new ChangeUserEmailHandler(new ChangeUserEmailUseCase(...deps))),
+    ),
+    handleCommand(
+      DeactivateUser,
+      lifecycleDeps,
+      (...deps) => retryOnConflict(new DeactivateUserHandler(new DeactivateUserUseCase(...deps))),
+    ),
+    handleCommand(
+      ReactivateUser,
+      lifecycleDeps,
+      (...deps) => retryOnConflict(new ReactivateUserHandler(new ReactivateUserUseCase(...deps))),
+    ),
+    handleCommand(
+      DeleteUser,
+      lifecycleDeps,
+      (...deps) => new DeleteUserHandler(new DeleteUserUseCase(...deps)),
+    ),
+    handleCommand(
+      ChangePassword,
+      [UserRepository, PasswordHasher, Kernel.Clock, UnitOfWork, PasswordPolicy],
+      (...deps) => retryOnConflict(new ChangePasswordHandler(new ChangePasswordUseCase(...deps))),
+    ),
+    handleCommand(AuthenticateUser, [UserTokens.AuthenticateUser], (useCase) =>
+      retryOnConflict(new AuthenticateUserHandler(useCase)),
+    ),
+  ],
+  queries: [
+    handleQuery(
+      GetUserById,
+      [UserRepository],
+      (repository) => new GetUserByIdHandler(new GetUserByIdUseCase(repository)),
+    ),
+    handleQuery(ListUsers, [UserDirectory], (directory) => new ListUsersQueryHandler(directory)),
+  ],
+  subscriptions: USER_DIRECTORY_EVENT_TYPES.map((eventType) =>
+    subscribeTo(
+      eventType,
+      [UserDirectory],
+      (directory) => {
+        const projection = new UserDirectoryProjection(directory);
+        return { handle: (event) => projection.apply(event) };
+      },
+      { name: 'example.UserDirectory' },
+    ),
+  ),
+});
@@ -0,0 +1,27 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { AuthenticateUserUseCase } from '../../application/use-cases/AuthenticateUserUseCase';
+import type { AuthenticateUserCommand } from '../../application/commands/AuthenticateUser';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class AuthenticateUserHandler
+  implements CommandHandler<AuthenticateUserCommand, UserResponse>
+{
+  public static readonly errors: readonly UserErrorCode[] = [
+    'INVALID_CREDENTIALS',
+    'ACCOUNT_LOCKED',
+  ];
+
+  constructor(private readonly authenticateUserUseCase: AuthenticateUserUseCase) {}
+
+  public async handle(command: AuthenticateUserCommand): Promise<UserResponse> {
+    const result = await this.authenticateUserUseCase.execute(command.email, command.password);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
@@ -0,0 +1,34 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { ChangePasswordUseCase } from '../../application/use-cases/ChangePasswordUseCase';
+import type { ChangePasswordCommand } from '../../application/commands/ChangePassword';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class ChangePasswordHandler implements CommandHandler<ChangePasswordCommand, UserResponse> {
+  public static readonly errors: readonly UserErrorCode[] = [
+    'INVALID_USER_ID',
+    'USER_NOT_FOUND',
+    'ACCOUNT_LOCKED',
+    'INVALID_CREDENTIALS',
+    'WEAK_PASSWORD',
+    'UNKNOWN_PASSWORD_TIER',
+  ];
+
+  constructor(private readonly changePasswordUseCase: ChangePasswordUseCase) {}
+
+  public async handle(command: ChangePasswordCommand): Promise<UserResponse> {
+    const result = await this.changePasswordUseCase.execute(
+      command.userId,
+      command.currentPassword,
+      command.newPassword,
+      command.passwordTier,
+    );
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
@@ -0,0 +1,29 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { ChangeUserEmailUseCase } from '../../application/use-cases/ChangeUserEmailUseCase';
+import type { ChangeUserEmailCommand } from '../../application/commands/ChangeUserEmail';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class ChangeUserEmailHandler
+  implements CommandHandler<ChangeUserEmailCommand, UserResponse>
+{
+  public static readonly errors: readonly UserErrorCode[] = [
+    'INVALID_USER_ID',
+    'INVALID_EMAIL',
+    'USER_NOT_FOUND',
+    'USER_ALREADY_EXISTS',
+  ];
+
+  constructor(private readonly changeUserEmailUseCase: ChangeUserEmailUseCase) {}
+
+  public async handle(command: ChangeUserEmailCommand): Promise<UserResponse> {
+    const result = await this.changeUserEmailUseCase.execute(command.userId, command.email);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
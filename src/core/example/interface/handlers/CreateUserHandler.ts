@@ -1,12 +1,28 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
 import type { CreateUserUseCase } from '../../application/use-cases/CreateUserUseCase';
-import type { CreateUserRequest, CreateUserResponse } from '../../application/dtos/CreateUserDto';
+import type { CreateUserCommand } from '../../application/commands/CreateUser';
+import type { CreateUserResponse } from '../../application/dtos/CreateUserDto';
 import { UserMapper } from '../../infrastructure/mappers/UserMapper';
 
-export class CreateUserHandler {
+export class CreateUserHandler
+  implements CommandHandler<CreateUserCommand, CreateUserResponse>
+{
+  public static readonly errors: readonly UserErrorCode[] = [
+    'INVALID_EMAIL',
+    'WEAK_PASSWORD',
+    'UNKNOWN_PASSWORD_TIER',
+    'USER_ALREADY_EXISTS',
+  ];
+
   constructor(private readonly createUserUseCase: CreateUserUseCase) {}
 
-  public async handle(request: CreateUserRequest): Promise<CreateUserResponse> {
-    const result = await this.createUserUseCase.execute(request.email);
+  public async handle(command: CreateUserCommand): Promise<CreateUserResponse> {
+    const result = await this.createUserUseCase.execute(
+      command.email,
+      command.password,
+      command.passwordTier,
+    );
 
     if (result.isFailure) {
       throw result.error;
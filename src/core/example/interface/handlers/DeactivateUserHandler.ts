@@ -0,0 +1,22 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { DeactivateUserUseCase } from '../../application/use-cases/DeactivateUserUseCase';
+import type { DeactivateUserCommand } from '../../application/commands/DeactivateUser';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class DeactivateUserHandler implements CommandHandler<DeactivateUserCommand, UserResponse> {
+  public static readonly errors: readonly UserErrorCode[] = ['INVALID_USER_ID', 'USER_NOT_FOUND'];
+
+  constructor(private readonly deactivateUserUseCase: DeactivateUserUseCase) {}
+
+  public async handle(command: DeactivateUserCommand): Promise<UserResponse> {
+    const result = await this.deactivateUserUseCase.execute(command.userId);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
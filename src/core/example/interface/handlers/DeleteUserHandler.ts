@@ -0,0 +1,18 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { DeleteUserUseCase } from '../../application/use-cases/DeleteUserUseCase';
+import type { DeleteUserCommand } from '../../application/commands/DeleteUser';
+
+export class DeleteUserHandler implements CommandHandler<DeleteUserCommand> {
+  public static readonly errors: readonly UserErrorCode[] = ['INVALID_USER_ID', 'USER_NOT_FOUND'];
+
+  constructor(private readonly deleteUserUseCase: DeleteUserUseCase) {}
+
+  public async handle(command: DeleteUserCommand): Promise<void> {
+    const result = await this.deleteUserUseCase.execute(command.userId);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import type { QueryHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { GetUserByIdUseCase } from '../../application/use-cases/GetUserByIdUseCase';
+import type { GetUserByIdQuery } from '../../application/queries/GetUserById';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class GetUserByIdHandler implements QueryHandler<GetUserByIdQuery, UserResponse> {
+  public static readonly errors: readonly UserErrorCode[] = ['INVALID_USER_ID', 'USER_NOT_FOUND'];
+
+  constructor(private readonly getUserByIdUseCase: GetUserByIdUseCase) {}
+
+  public async handle(query: GetUserByIdQuery): Promise<UserResponse> {
+    const result = await this.getUserByIdUseCase.execute(query.userId);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
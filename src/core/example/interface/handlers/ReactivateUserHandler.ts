@@ -0,0 +1,22 @@
+import type { CommandHandler } from '@shared/kernel/bus';
+import type { UserErrorCode } from '../../application/errors';
+import type { ReactivateUserUseCase } from '../../application/use-cases/ReactivateUserUseCase';
+import type { ReactivateUserCommand } from '../../application/commands/ReactivateUser';
+import type { UserResponse } from '../../application/dtos/UserDto';
+import { UserMapper } from '../../infrastructure/mappers/UserMapper';
+
+export class ReactivateUserHandler implements CommandHandler<ReactivateUserCommand, UserResponse> {
+  public static readonly errors: readonly UserErrorCode[] = ['INVALID_USER_ID', 'USER_NOT_FOUND'];
+
+  constructor(private readonly reactivateUserUseCase: ReactivateUserUseCase) {}
+
+  public async handle(command: ReactivateUserCommand): Promise<UserResponse> {
+    const result = await this.reactivateUserUseCase.execute(command.userId);
+
+    if (result.isFailure) {
+      throw result.error;
+    }
+
+    return UserMapper.toUserResponse(result.value);
+  }
+}
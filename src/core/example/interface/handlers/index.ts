@@ -1 +1,8 @@
 export * from './CreateUserHandler';
+export * from './ChangeUserEmailHandler';
+export * from './DeactivateUserHandler';
+export * from './ReactivateUserHandler';
+export * from './DeleteUserHandler';
+export * from './ChangePasswordHandler';
+export * from './AuthenticateUserHandler';
+export * from './GetUserByIdHandler';
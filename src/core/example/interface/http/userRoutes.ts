@@ -0,0 +1,51 @@
+import type { CommandBus, QueryBus } from '@shared/kernel/bus';
+import { dispatchCommand, dispatchQuery, route, type Route } from '@shared/kernel/http';
+import { CreateUser } from '../../application/commands/CreateUser';
+import { GetUserById } from '../../application/queries/GetUserById';
+import {
+  createUserResponseSchema,
+  type CreateUserResponse,
+} from '../../application/dtos/CreateUserDto';
+import { userResponseSchema } from '../../application/dtos/UserDto';
+import { CreateUserHandler, GetUserByIdHandler } from '../handlers';
+
+export interface UserRouteDependencies {
+  commandBus: CommandBus;
+  queryBus: QueryBus;
+}
+
+export const userRoutes = ({ commandBus, queryBus }: UserRouteDependencies): Route[] => [
+  route(
+    'POST',
+    '/users',
+    dispatchCommand(commandBus, CreateUser, {
+      respond: (created: CreateUserResponse) => ({
+        status: 201,
+        headers: { location: `/users/${encodeURIComponent(created.userId)}` },
+        body: created,
+      }),
+    }),
+    {
+      operationId: 'createUser',
+      summary: 'Register a user',
+      request: CreateUser,
+      response: {
+        status: 201,
+        description: 'The user was created',
+        body: { name: 'CreateUserResponse', schema: createUserResponseSchema },
+      },
+      errors: CreateUserHandler.errors,
+    },
+  ),
+  route('GET', '/users/:userId', dispatchQuery(queryBus, GetUserById), {
+    operationId: 'getUserById',
+    summary: 'Fetch a user',
+    request: GetUserById,
+    response: {
+      status: 200,
+      description: 'The user',
+      body: { name: 'UserResponse', schema: userResponseSchema },
+    },
+    errors: GetUserByIdHandler.errors,
+  }),
+];
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Composition root: boots the modules, relays their outbox while running and
+ * serves them over HTTP.
+ * Run with: npm start
+ */
+
+import {
+  parseEnv,
+  resolveLoggingConfig,
+  resolvePasswordPolicyConfig,
+  resolveServerConfig,
+} from '@config/index';
+import { ErrorCatalog, kernelErrorDefinitions } from '@shared/kernel/errors';
+import { HttpServer, httpErrorDefinitions } from '@shared/kernel/http';
+import { JsonLogger } from '@shared/kernel/logger';
+import { Application, Kernel, provideValue } from '@shared/kernel/module';
+import { TraceContextLogger } from '@shared/kernel/tracing';
+import { userErrorDefinitions } from '@core/example/application/errors';
+import { userRoutes } from '@core/example/interface/http/userRoutes';
+import { loadPasswordPolicy } from '@core/example/infrastructure/adapters/FilePasswordDenyList';
+import { UserModule, UserTokens } from '@core/example/interface/UserModule';
+
+async function main(): Promise<void> {
+  const env = parseEnv();
+  const server = resolveServerConfig(env);
+  const logger = JsonLogger.fromConfig(resolveLoggingConfig(env));
+
+  const passwordPolicy = await loadPasswordPolicy(resolvePasswordPolicyConfig(env));
+
+  const application = Application.bootstrap({
+    modules: [UserModule],
+    overrides: [
+      provideValue(Kernel.Logger, new TraceContextLogger(logger)),
+      provideValue(UserTokens.PasswordPolicy, passwordPolicy),
+    ],
+  });
+  const catalog = new ErrorCatalog()
+    .register('kernel', ...kernelErrorDefinitions)
+    .register('http', ...httpErrorDefinitions)
+    .register('example', ...userErrorDefinitions);
+  const http = new HttpServer({
+    routes: userRoutes(application),
+    catalog,
+    logger,
+    bodyLimitBytes: server.bodyLimitBytes,
+  });
+
+  await application.start();
+  const address = await http.listen(server.port, server.host);
+  logger.info('Server listening', { host: address.address, port: address.port });
+
+  const shutdown = async (): Promise<void> => {
+    await http.close();
+    await application.stop();
+  };
+  const onSignal = (): void => {
+    shutdown().catch((error: unknown) => {
+      logger.error('Shutdown failed', error instanceof Error ? error : new Error(String(error)));
+      process.exit(1);
+    });
+  };
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+}
+
+main().catch((error: unknown) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,38 +1,119 @@
+import {
+  createDispatchContext,
+  MiddlewareRegistry,
+  runPipeline,
+  type MessageMetadata,
+  type Middleware,
+} from './middleware/Middleware';
+import type { CommandDefinition } from './MessageDefinition';
+
 export interface Command {
   readonly commandId: string;
   readonly commandType: string;
+  readonly metadata?: MessageMetadata;
 }
 
 export interface CommandHandler<T extends Command = Command, R = void> {
   handle(command: T): Promise<R>;
 }
 
-export interface CommandBus {
-  execute<T extends Command, R>(command: T): Promise<R>;
-  register<T extends Command, R>(
-    commandType: string,
-    handler: CommandHandler<T, R>,
+/**
+ * Commands the application's bus knows, keyed by `commandType`. Bounded
+ * contexts add their own entries by declaration merging:
+ *
+ *     declare module '@shared/kernel/bus/CommandBus' {
+ *       interface CommandRegistry {
+ *         [RENAME_USER]: { command: RenameUserCommand; result: UserResponse };
+ *       }
+ *     }
+ */
+export interface CommandRegistry {}
+
+/** Constrains a map so each entry's command carries its own key as `commandType`. */
+export type CommandMap<M> = {
+  [K in keyof M]: { command: Command & { readonly commandType: K & string }; result: unknown };
+};
+
+/** For buses dispatching command types only known at runtime. */
+export type AnyCommandMap = Record<string, { command: Command; result: unknown }>;
+
+export type CommandTypeIn<M> = keyof M & string;
+
+export type CommandIn<M, K extends keyof M = keyof M> = M[K] extends {
+  command: infer C extends Command;
+}
+  ? C
+  : never;
+
+export type CommandResult<M, K> = K extends keyof M
+  ? M[K] extends { result: infer R }
+    ? R
+    : never
+  : never;
+
+export interface CommandBus<M extends CommandMap<M> = CommandRegistry> {
+  execute<C extends CommandIn<M>>(command: C): Promise<CommandResult<M, C['commandType']>>;
+  /** Registering a definition makes the bus validate each command before its handler runs. */
+  register<K extends CommandTypeIn<M>>(
+    commandType: K | CommandDefinition<K>,
+    handler: CommandHandler<CommandIn<M, K>, CommandResult<M, K>>,
   ): void;
+  definitions(): CommandDefinition[];
+  use(middleware: Middleware<Command>): void;
+  useFor(commandType: CommandTypeIn<M>, middleware: Middleware<Command>): void;
 }
 
-export class InMemoryCommandBus implements CommandBus {
-  private readonly handlers = new Map<string, CommandHandler>();
+export class InMemoryCommandBus<M extends CommandMap<M> = CommandRegistry>
+  implements CommandBus<M>
+{
+  private readonly handlers = new Map<string, CommandHandler<Command, unknown>>();
+  private readonly middlewares = new MiddlewareRegistry<Command>();
+  private readonly schemas = new Map<string, CommandDefinition>();
 
-  public async execute<T extends Command, R>(command: T): Promise<R> {
+  public async execute<C extends CommandIn<M>>(
+    command: C,
+  ): Promise<CommandResult<M, C['commandType']>> {
     const handler = this.handlers.get(command.commandType);
     if (!handler) {
       throw new Error(`No handler registered for command: ${command.commandType}`);
     }
-    return handler.handle(command) as Promise<R>;
+    return runPipeline<Command>(
+      command,
+      createDispatchContext(command),
+      this.middlewares.resolve(command.commandType),
+      () => handler.handle(this.validate(command)),
+    ) as Promise<CommandResult<M, C['commandType']>>;
   }
 
-  public register<T extends Command, R>(
-    commandType: string,
-    handler: CommandHandler<T, R>,
+  public register<K extends CommandTypeIn<M>>(
+    typeOrDefinition: K | CommandDefinition<K>,
+    handler: CommandHandler<CommandIn<M, K>, CommandResult<M, K>>,
   ): void {
+    const commandType =
+      typeof typeOrDefinition === 'string' ? typeOrDefinition : typeOrDefinition.type;
     if (this.handlers.has(commandType)) {
       throw new Error(`Handler already registered for command: ${commandType}`);
     }
-    this.handlers.set(commandType, handler as CommandHandler);
+    this.handlers.set(commandType, handler as unknown as CommandHandler<Command, unknown>);
+    if (typeof typeOrDefinition !== 'string') {
+      this.schemas.set(commandType, typeOrDefinition);
+    }
+  }
+
+  public definitions(): CommandDefinition[] {
+    return [...this.schemas.values()];
+  }
+
+  public use(middleware: Middleware<Command>): void {
+    this.middlewares.use(middleware);
+  }
+
+  public useFor(commandType: CommandTypeIn<M>, middleware: Middleware<Command>): void {
+    this.middlewares.useFor(commandType, middleware);
+  }
+
+  private validate(command: Command): Command {
+    const definition = this.schemas.get(command.commandType);
+    return definition ? definition.parse(command).getOrThrow() : command;
   }
 }
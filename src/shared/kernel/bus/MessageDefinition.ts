@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { ValidationError } from '../errors';
+import { createId } from '../id';
+import { failure, success, type Result } from '../result';
+import type { Command } from './CommandBus';
+import type { Query } from './QueryBus';
+
+/** Schema of a message's payload, i.e. everything but its id and type. */
+export type PayloadSchema = z.ZodType<Record<string, unknown>>;
+
+export interface MessageDefinition<
+  TType extends string = string,
+  S extends PayloadSchema = PayloadSchema,
+> {
+  readonly kind: 'command' | 'query';
+  readonly type: TType;
+  readonly schema: S;
+  /** JSON Schema of the payload, for transports and documentation. */
+  jsonSchema(): Record<string, unknown>;
+}
+
+export interface CommandDefinition<
+  TType extends string = string,
+  S extends PayloadSchema = PayloadSchema,
+> extends MessageDefinition<TType, S> {
+  readonly kind: 'command';
+  create(payload: z.input<S>, commandId?: string): CommandFrom<CommandDefinition<TType, S>>;
+  /** Validates `command`'s payload, returning it with the schema's output applied. */
+  parse(command: Command): Result<CommandFrom<CommandDefinition<TType, S>>, ValidationError>;
+}
+
+export interface QueryDefinition<
+  TType extends string = string,
+  S extends PayloadSchema = PayloadSchema,
+> extends MessageDefinition<TType, S> {
+  readonly kind: 'query';
+  create(payload: z.input<S>, queryId?: string): QueryFrom<QueryDefinition<TType, S>>;
+  parse(query: Query): Result<QueryFrom<QueryDefinition<TType, S>>, ValidationError>;
+}
+
+export type CommandFrom<D> =
+  D extends CommandDefinition<infer TType, infer S>
+    ? Command & { readonly commandType: TType } & Readonly<z.output<S>>
+    : never;
+
+export type QueryFrom<D> =
+  D extends QueryDefinition<infer TType, infer S>
+    ? Query & { readonly queryType: TType } & Readonly<z.output<S>>
+    : never;
+
+const parsePayload = <S extends PayloadSchema>(
+  kind: 'command' | 'query',
+  type: string,
+  schema: S,
+  payload: Record<string, unknown>,
+): Result<z.output<S>, ValidationError> => {
+  const parsed = schema.safeParse(payload);
+  return parsed.success
+    ? success(parsed.data)
+    : failure(ValidationError.fromZodError(parsed.error, `Invalid ${kind} ${type}`));
+};
+
+/**
+ * Declares a command type with a zod schema for its payload. Buses that
+ * register the definition validate every dispatched command against it.
+ */
+export const defineCommand = <TType extends string, S extends PayloadSchema>(
+  type: TType,
+  schema: S,
+): CommandDefinition<TType, S> => {
+  type Defined = CommandFrom<CommandDefinition<TType, S>>;
+  return {
+    kind: 'command',
+    type,
+    schema,
+    jsonSchema: () => z.toJSONSchema(schema, { io: 'input' }),
+    create: (payload, commandId = createId('Command')) =>
+      ({ ...(payload as object), commandId, commandType: type }) as Defined,
+    parse: ({ commandId, commandType, metadata, ...payload }) =>
+      parsePayload('command', type, schema, payload).map(
+        (data) =>
+          ({
+            ...(data as object),
+            commandId,
+            commandType,
+            ...(metadata && { metadata }),
+          }) as Defined,
+      ),
+  };
+};
+
+export const defineQuery = <TType extends string, S extends PayloadSchema>(
+  type: TType,
+  schema: S,
+): QueryDefinition<TType, S> => {
+  type Defined = QueryFrom<QueryDefinition<TType, S>>;
+  return {
+    kind: 'query',
+    type,
+    schema,
+    jsonSchema: () => z.toJSONSchema(schema, { io: 'input' }),
+    create: (payload, queryId = createId('Query')) =>
+      ({ ...(payload as object), queryId, queryType: type }) as Defined,
+    parse: ({ queryId, queryType, metadata, ...payload }) =>
+      parsePayload('query', type, schema, payload).map(
+        (data) =>
+          ({ ...(data as object), queryId, queryType, ...(metadata && { metadata }) }) as Defined,
+      ),
+  };
+};
@@ -1,35 +1,119 @@
+import {
+  createDispatchContext,
+  MiddlewareRegistry,
+  runPipeline,
+  type MessageMetadata,
+  type Middleware,
+} from './middleware/Middleware';
+import type { QueryDefinition } from './MessageDefinition';
+
 export interface Query {
   readonly queryId: string;
   readonly queryType: string;
+  readonly metadata?: MessageMetadata;
 }
 
 export interface QueryHandler<T extends Query = Query, R = unknown> {
   handle(query: T): Promise<R>;
 }
 
-export interface QueryBus {
-  execute<T extends Query, R>(query: T): Promise<R>;
-  register<T extends Query, R>(queryType: string, handler: QueryHandler<T, R>): void;
+/**
+ * Queries the application's bus knows, keyed by `queryType`. Bounded
+ * contexts add their own entries by declaration merging:
+ *
+ *     declare module '@shared/kernel/bus/QueryBus' {
+ *       interface QueryRegistry {
+ *         [FIND_USER]: { query: FindUserQuery; result: UserResponse };
+ *       }
+ *     }
+ */
+export interface QueryRegistry {}
+
+/** Constrains a map so each entry's query carries its own key as `queryType`. */
+export type QueryMap<M> = {
+  [K in keyof M]: { query: Query & { readonly queryType: K & string }; result: unknown };
+};
+
+/** For buses dispatching query types only known at runtime. */
+export type AnyQueryMap = Record<string, { query: Query; result: unknown }>;
+
+export type QueryTypeIn<M> = keyof M & string;
+
+export type QueryIn<M, K extends keyof M = keyof M> = M[K] extends {
+  query: infer Q extends Query;
 }
+  ? Q
+  : never;
 
-export class InMemoryQueryBus implements QueryBus {
-  private readonly handlers = new Map<string, QueryHandler>();
+export type QueryResult<M, K> = K extends keyof M
+  ? M[K] extends { result: infer R }
+    ? R
+    : never
+  : never;
 
-  public async execute<T extends Query, R>(query: T): Promise<R> {
+export interface QueryBus<M extends QueryMap<M> = QueryRegistry> {
+  execute<Q extends QueryIn<M>>(query: Q): Promise<QueryResult<M, Q['queryType']>>;
+  /** Registering a definition makes the bus validate each query before its handler runs. */
+  register<K extends QueryTypeIn<M>>(
+    queryType: K | QueryDefinition<K>,
+    handler: QueryHandler<QueryIn<M, K>, QueryResult<M, K>>,
+  ): void;
+  definitions(): QueryDefinition[];
+  use(middleware: Middleware<Query>): void;
+  useFor(queryType: QueryTypeIn<M>, middleware: Middleware<Query>): void;
+}
+
+export class InMemoryQueryBus<M extends QueryMap<M> = QueryRegistry>
+  implements QueryBus<M>
+{
+  private readonly handlers = new Map<string, QueryHandler<Query, unknown>>();
+  private readonly middlewares = new MiddlewareRegistry<Query>();
+  private readonly schemas = new Map<string, QueryDefinition>();
+
+  public async execute<Q extends QueryIn<M>>(
+    query: Q,
+  ): Promise<QueryResult<M, Q['queryType']>> {
     const handler = this.handlers.get(query.queryType);
     if (!handler) {
       throw new Error(`No handler registered for query: ${query.queryType}`);
     }
-    return handler.handle(query) as Promise<R>;
+    return runPipeline<Query>(
+      query,
+      createDispatchContext(query),
+      this.middlewares.resolve(query.queryType),
+      () => handler.handle(this.validate(query)),
+    ) as Promise<QueryResult<M, Q['queryType']>>;
   }
 
-  public register<T extends Query, R>(
-    queryType: string,
-    handler: QueryHandler<T, R>,
+  public register<K extends QueryTypeIn<M>>(
+    typeOrDefinition: K | QueryDefinition<K>,
+    handler: QueryHandler<QueryIn<M, K>, QueryResult<M, K>>,
   ): void {
+    const queryType =
+      typeof typeOrDefinition === 'string' ? typeOrDefinition : typeOrDefinition.type;
     if (this.handlers.has(queryType)) {
       throw new Error(`Handler already registered for query: ${queryType}`);
     }
-    this.handlers.set(queryType, handler as QueryHandler);
+    this.handlers.set(queryType, handler as unknown as QueryHandler<Query, unknown>);
+    if (typeof typeOrDefinition !== 'string') {
+      this.schemas.set(queryType, typeOrDefinition);
+    }
+  }
+
+  public definitions(): QueryDefinition[] {
+    return [...this.schemas.values()];
+  }
+
+  public use(middleware: Middleware<Query>): void {
+    this.middlewares.use(middleware);
+  }
+
+  public useFor(queryType: QueryTypeIn<M>, middleware: Middleware<Query>): void {
+    this.middlewares.useFor(queryType, middleware);
+  }
+
+  private validate(query: Query): Query {
+    const definition = this.schemas.get(query.queryType);
+    return definition ? definition.parse(query).getOrThrow() : query;
   }
 }
@@ -1,2 +1,5 @@
 export * from './CommandBus';
 export * from './QueryBus';
+export * from './MessageDefinition';
+export * from './middleware';
+export * from './retryOnConflict';
@@ -0,0 +1,16 @@
+import { failure } from '../../result';
+import type { DispatchContext, Message, Middleware, Next } from './Middleware';
+
+/**
+ * Converts anything thrown further down the pipeline into a `Failure`, so
+ * callers of the bus always receive a `Result`.
+ */
+export class ErrorToResultMiddleware implements Middleware {
+  public async handle(_message: Message, _context: DispatchContext, next: Next): Promise<unknown> {
+    try {
+      return await next();
+    } catch (error) {
+      return failure(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import type { Logger } from '../../logger';
+import type { DispatchContext, Message, Middleware, Next } from './Middleware';
+
+export class LoggingMiddleware implements Middleware {
+  constructor(private readonly logger: Logger) {}
+
+  public async handle(_message: Message, context: DispatchContext, next: Next): Promise<unknown> {
+    const logContext = {
+      kind: context.kind,
+      messageType: context.messageType,
+      messageId: context.messageId,
+      ...context.metadata,
+    };
+    this.logger.debug(`Dispatching ${context.kind} ${context.messageType}`, logContext);
+    try {
+      const result = await next();
+      this.logger.debug(`Handled ${context.kind} ${context.messageType}`, logContext);
+      return result;
+    } catch (error) {
+      this.logger.error(
+        `Failed to handle ${context.kind} ${context.messageType}`,
+        error instanceof Error ? error : new Error(String(error)),
+        logContext,
+      );
+      throw error;
+    }
+  }
+}
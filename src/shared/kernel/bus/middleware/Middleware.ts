@@ -0,0 +1,91 @@
+import type { Command } from '../CommandBus';
+import type { Query } from '../QueryBus';
+
+export type Message = Command | Query;
+
+/** Facts about where a message came from, carried beside its payload. */
+export interface MessageMetadata {
+  /** Id of the HTTP request that sent the message, for correlating its logs. */
+  readonly requestId?: string;
+}
+
+export type MessageKind = 'command' | 'query';
+
+export interface DispatchContext {
+  readonly kind: MessageKind;
+  readonly messageType: string;
+  readonly messageId: string;
+  readonly metadata: MessageMetadata;
+  readonly items: Map<string, unknown>;
+}
+
+export type Next = () => Promise<unknown>;
+
+export interface Middleware<M extends Message = Message> {
+  handle(message: M, context: DispatchContext, next: Next): Promise<unknown>;
+}
+
+export const createDispatchContext = (message: Message): DispatchContext => {
+  if ('commandType' in message) {
+    return {
+      kind: 'command',
+      messageType: message.commandType,
+      messageId: message.commandId,
+      metadata: message.metadata ?? {},
+      items: new Map(),
+    };
+  }
+  return {
+    kind: 'query',
+    messageType: message.queryType,
+    messageId: message.queryId,
+    metadata: message.metadata ?? {},
+    items: new Map(),
+  };
+};
+
+/**
+ * Runs `middlewares` in order around `terminal`. Each middleware decides
+ * whether to call `next()`, so it may short-circuit or replace the result.
+ */
+export const runPipeline = <M extends Message>(
+  message: M,
+  context: DispatchContext,
+  middlewares: ReadonlyArray<Middleware<M>>,
+  terminal: Next,
+): Promise<unknown> => {
+  const dispatch = (index: number): Promise<unknown> => {
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return terminal();
+    }
+    let called = false;
+    return middleware.handle(message, context, () => {
+      if (called) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+  return dispatch(0);
+};
+
+export class MiddlewareRegistry<M extends Message> {
+  private readonly global: Middleware<M>[] = [];
+  private readonly byType = new Map<string, Middleware<M>[]>();
+
+  public use(middleware: Middleware<M>): void {
+    this.global.push(middleware);
+  }
+
+  public useFor(messageType: string, middleware: Middleware<M>): void {
+    const middlewares = this.byType.get(messageType) || [];
+    middlewares.push(middleware);
+    this.byType.set(messageType, middlewares);
+  }
+
+  public resolve(messageType: string): Middleware<M>[] {
+    return [...this.global, ...(this.byType.get(messageType) || [])];
+  }
+}
@@ -0,0 +1,39 @@
+import type { Clock } from '../../time';
+import type { DispatchContext, Message, Middleware, Next } from './Middleware';
+
+export interface TimingMeasurement {
+  kind: DispatchContext['kind'];
+  messageType: string;
+  messageId: string;
+  durationMs: number;
+  succeeded: boolean;
+}
+
+export const DURATION_MS_ITEM = 'durationMs';
+
+export class TimingMiddleware implements Middleware {
+  constructor(
+    private readonly clock: Clock,
+    private readonly record: (measurement: TimingMeasurement) => void = () => {},
+  ) {}
+
+  public async handle(_message: Message, context: DispatchContext, next: Next): Promise<unknown> {
+    const startedAt = this.clock.timestamp();
+    let succeeded = false;
+    try {
+      const result = await next();
+      succeeded = true;
+      return result;
+    } finally {
+      const durationMs = this.clock.timestamp() - startedAt;
+      context.items.set(DURATION_MS_ITEM, durationMs);
+      this.record({
+        kind: context.kind,
+        messageType: context.messageType,
+        messageId: context.messageId,
+        durationMs,
+        succeeded,
+      });
+    }
+  }
+}
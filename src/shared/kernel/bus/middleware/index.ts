@@ -0,0 +1,4 @@
+export * from './Middleware';
+export * from './LoggingMiddleware';
+export * from './TimingMiddleware';
+export * from './ErrorToResultMiddleware';
@@ -0,0 +1,47 @@
+import { ConcurrencyError } from '../errors';
+import { Failure } from '../result';
+import { sleep, type Clock } from '../time';
+import type { Command, CommandHandler } from './CommandBus';
+
+export interface RetryOnConflictOptions {
+  maxAttempts?: number;
+  delayMs?: number;
+  clock?: Clock;
+}
+
+const isConflict = (outcome: unknown): boolean =>
+  outcome instanceof ConcurrencyError ||
+  (outcome instanceof Failure && outcome.error instanceof ConcurrencyError);
+
+/**
+ * Wraps a command handler so that a `ConcurrencyError` (thrown or returned
+ * as a `Failure`) re-runs it. Handlers must load their aggregates inside
+ * `handle` so each attempt starts from the latest stored version.
+ */
+export const retryOnConflict = <T extends Command, R>(
+  handler: CommandHandler<T, R>,
+  options: RetryOnConflictOptions = {},
+): CommandHandler<T, R> => {
+  const maxAttempts = options.maxAttempts ?? 3;
+  const delayMs = options.delayMs ?? 0;
+
+  return {
+    async handle(command: T): Promise<R> {
+      for (let attempt = 1; ; attempt += 1) {
+        try {
+          const result = await handler.handle(command);
+          if (!isConflict(result) || attempt >= maxAttempts) {
+            return result;
+          }
+        } catch (error) {
+          if (!isConflict(error) || attempt >= maxAttempts) {
+            throw error;
+          }
+        }
+        if (delayMs > 0) {
+          await sleep(delayMs, options.clock);
+        }
+      }
+    },
+  };
+};
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { serializedEventSchema, type EventRegistry } from '../events';
+import { embeddedJsonSchema, type ApiInfo, type JsonObject } from './jsonSchema';
+
+export interface AsyncApiOptions {
+  info: ApiInfo;
+  registry: EventRegistry;
+  /** Channel address of an event type; defaults to the type itself. */
+  address?: (eventType: string) => string;
+}
+
+export interface AsyncApiDocument {
+  asyncapi: '3.0.0';
+  info: ApiInfo;
+  defaultContentType: 'application/json';
+  channels: Record<string, JsonObject>;
+  operations: Record<string, JsonObject>;
+  components: { messages: Record<string, JsonObject>; schemas: Record<string, JsonObject> };
+}
+
+/**
+ * Builds an AsyncAPI 3.0 document with one channel per registered event type.
+ * Each message is the serialized envelope the outbox relays, with the event's
+ * own payload schema and its type and version fixed.
+ */
+export const generateAsyncApi = ({
+  info,
+  registry,
+  address = (eventType) => eventType,
+}: AsyncApiOptions): AsyncApiDocument => {
+  const document: AsyncApiDocument = {
+    asyncapi: '3.0.0',
+    info,
+    defaultContentType: 'application/json',
+    channels: {},
+    operations: {},
+    components: { messages: {}, schemas: {} },
+  };
+
+  for (const definition of registry.list()) {
+    const { type, version } = definition;
+    const message = `${type}.v${version}`;
+    document.components.schemas[message] = embeddedJsonSchema(
+      serializedEventSchema.extend({
+        eventType: z.literal(type),
+        eventVersion: z.literal(version),
+        payload: definition.schema,
+      }),
+    );
+    document.components.messages[message] = {
+      name: type,
+      title: `${type} v${version}`,
+      payload: { $ref: `#/components/schemas/${message}` },
+    };
+    document.channels[type] = {
+      address: address(type),
+      messages: { [message]: { $ref: `#/components/messages/${message}` } },
+    };
+    document.operations[`publish.${type}`] = {
+      action: 'send',
+      channel: { $ref: `#/channels/${type}` },
+      messages: [{ $ref: `#/channels/${type}/messages/${message}` }],
+    };
+  }
+  return document;
+};
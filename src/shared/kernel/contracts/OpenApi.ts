@@ -0,0 +1,185 @@
+import { STATUS_CODES } from 'node:http';
+import { z } from 'zod';
+import {
+  ERROR_CATEGORY_STATUS,
+  INTERNAL_ERROR,
+  problemType,
+  type ErrorCatalog,
+  type ErrorDefinition,
+} from '../errors';
+import { HTTP_ERROR_STATUS, type Route, type RouteSpec } from '../http';
+import { embeddedJsonSchema, type ApiInfo, type JsonObject } from './jsonSchema';
+
+export interface OpenApiOptions {
+  info: ApiInfo;
+  routes: readonly Route[];
+  /** Resolves the status and public message of every error code a route declares. */
+  catalog: ErrorCatalog;
+  servers?: ReadonlyArray<{ url: string; description?: string }>;
+  typeBase?: string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: ApiInfo;
+  servers?: OpenApiOptions['servers'];
+  paths: Record<string, Record<string, JsonObject>>;
+  components: { schemas: Record<string, JsonObject> };
+}
+
+const PROBLEM_DETAILS = 'ProblemDetails';
+
+const problemDetailsSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string(),
+  instance: z.string().optional(),
+  code: z.string(),
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+const QUERY_METHODS = new Set(['GET', 'DELETE']);
+const BODY_ERRORS = ['MALFORMED_JSON', 'UNSUPPORTED_MEDIA_TYPE', 'PAYLOAD_TOO_LARGE'];
+
+const ref = (name: string): JsonObject => ({ $ref: `#/components/schemas/${name}` });
+
+/**
+ * Builds an OpenAPI 3.1 document from the routes that carry a `spec`. Request
+ * and response bodies become named component schemas; every declared error code
+ * becomes an example of the problem details response for its status.
+ */
+export const generateOpenApi = (options: OpenApiOptions): OpenApiDocument => {
+  const schemas: Record<string, JsonObject> = {
+    [PROBLEM_DETAILS]: embeddedJsonSchema(problemDetailsSchema),
+  };
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const { method, path, spec } of options.routes) {
+    if (!spec) {
+      continue;
+    }
+    const hasBody = !!spec.request && !QUERY_METHODS.has(method);
+    const { response } = spec;
+    if (response.body) {
+      schemas[response.body.name] = embeddedJsonSchema(response.body.schema, 'input');
+    }
+    const errorCodes = [
+      ...(spec.request ? ['VALIDATION_ERROR'] : []),
+      ...(hasBody ? BODY_ERRORS : []),
+      ...(spec.errors ?? []),
+      INTERNAL_ERROR.code,
+    ];
+
+    const openApiPath = path.replace(/:([A-Za-z0-9_]+)/g, '{$1}');
+    paths[openApiPath] ??= {};
+    (paths[openApiPath] as Record<string, JsonObject>)[method.toLowerCase()] = {
+      operationId: spec.operationId,
+      ...(spec.summary ? { summary: spec.summary } : {}),
+      ...describeRequest(path, spec, hasBody, schemas),
+      responses: {
+        [response.status]: {
+          description: response.description,
+          ...(response.body
+            ? { content: { 'application/json': { schema: ref(response.body.name) } } }
+            : {}),
+        },
+        ...describeErrors(errorCodes, `${method} ${path}`, options),
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: options.info,
+    ...(options.servers ? { servers: options.servers } : {}),
+    paths,
+    components: { schemas },
+  };
+};
+
+/**
+ * Splits the request message's payload into path parameters, query parameters
+ * and, for methods with a body, a request body schema registered in `schemas`.
+ */
+const describeRequest = (
+  path: string,
+  spec: RouteSpec,
+  hasBody: boolean,
+  schemas: Record<string, JsonObject>,
+): JsonObject => {
+  const params = [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map((match) => match[1] as string);
+  const schema = spec.request?.jsonSchema() ?? {};
+  const properties = (schema.properties ?? {}) as Record<string, JsonObject>;
+  const required = (schema.required ?? []) as string[];
+  const rest = Object.keys(properties).filter((name) => !params.includes(name));
+
+  const parameters = [
+    ...params.map((name) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: properties[name] ?? { type: 'string' },
+    })),
+    ...(hasBody ? [] : rest).map((name) => ({
+      name,
+      in: 'query',
+      required: required.includes(name),
+      schema: properties[name],
+    })),
+  ];
+  const described: JsonObject = parameters.length > 0 ? { parameters } : {};
+  if (hasBody && spec.request) {
+    const { $schema: _dialect, ...body } = schema;
+    schemas[spec.request.type] = {
+      ...body,
+      properties: Object.fromEntries(rest.map((name) => [name, properties[name]])),
+      required: required.filter((name) => rest.includes(name)),
+    };
+    described.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: ref(spec.request.type) } },
+    };
+  }
+  return described;
+};
+
+/** One problem details response per status, with an example for each code answered with it. */
+const describeErrors = (
+  codes: readonly string[],
+  routeName: string,
+  { catalog, typeBase }: OpenApiOptions,
+): Record<string, JsonObject> => {
+  const byStatus = new Map<number, ErrorDefinition[]>();
+  for (const code of new Set(codes)) {
+    const definition = code === INTERNAL_ERROR.code ? INTERNAL_ERROR : catalog.get(code);
+    if (!definition) {
+      throw new Error(`Route ${routeName} declares unregistered error code ${code}`);
+    }
+    const status =
+      HTTP_ERROR_STATUS[code as keyof typeof HTTP_ERROR_STATUS] ??
+      ERROR_CATEGORY_STATUS[definition.category];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), definition]);
+  }
+
+  const responses: Record<string, JsonObject> = {};
+  for (const [status, definitions] of [...byStatus].sort(([a], [b]) => a - b)) {
+    const examples = definitions.map(({ code, message }) => [
+      code,
+      {
+        summary: message,
+        value: { type: problemType(code, typeBase), title: message, status, detail: message, code },
+      },
+    ]);
+    responses[status] = {
+      description: STATUS_CODES[status] ?? 'Error',
+      content: {
+        'application/problem+json': {
+          schema: ref(PROBLEM_DETAILS),
+          examples: Object.fromEntries(examples),
+        },
+      },
+    };
+  }
+  return responses;
+};
@@ -0,0 +1,3 @@
+export * from './jsonSchema';
+export * from './OpenApi';
+export * from './AsyncApi';
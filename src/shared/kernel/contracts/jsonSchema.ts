@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export type JsonObject = Record<string, unknown>;
+
+export interface ApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * A `Date` sent as an ISO 8601 string. Types derived with `z.output` see the
+ * `Date`; documents generated from the input side see the string.
+ */
+export const isoDateTime = () =>
+  z.codec(z.iso.datetime(), z.date(), {
+    decode: (value) => new Date(value),
+    encode: (date) => date.toISOString(),
+  });
+
+/** JSON Schema of `schema` without its `$schema` dialect marker, for embedding in a document. */
+export const embeddedJsonSchema = (
+  schema: z.ZodType,
+  io: 'input' | 'output' = 'output',
+): JsonObject => {
+  const { $schema: _dialect, ...rest } = z.toJSONSchema(schema, { io });
+  return rest;
+};
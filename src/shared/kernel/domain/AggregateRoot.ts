@@ -0,0 +1,41 @@
+import type { DomainEvent } from '../events/DomainEvent';
+import { BaseEntity } from './BaseEntity';
+
+export abstract class AggregateRoot<TId extends string> extends BaseEntity<TId> {
+  private uncommittedEvents: DomainEvent[] = [];
+
+  protected constructor(
+    id: TId,
+    private persistedVersion = 0,
+  ) {
+    super(id);
+  }
+
+  /** Version the aggregate was loaded or last saved at; 0 if never persisted. */
+  public get version(): number {
+    return this.persistedVersion;
+  }
+
+  /** Called by repositories after loading or saving the aggregate. */
+  public markPersisted(version: number): void {
+    this.persistedVersion = version;
+  }
+
+  protected record(event: DomainEvent): void {
+    this.uncommittedEvents.push(event);
+  }
+
+  public getDomainEvents(): ReadonlyArray<DomainEvent> {
+    return [...this.uncommittedEvents];
+  }
+
+  public pullDomainEvents(): DomainEvent[] {
+    const events = this.uncommittedEvents;
+    this.uncommittedEvents = [];
+    return events;
+  }
+
+  public clearDomainEvents(): void {
+    this.uncommittedEvents = [];
+  }
+}
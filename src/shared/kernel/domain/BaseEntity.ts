@@ -0,0 +1,17 @@
+export abstract class BaseEntity<TId extends string> {
+  protected constructor(private readonly _id: TId) {}
+
+  public get id(): TId {
+    return this._id;
+  }
+
+  public equals(other?: BaseEntity<TId> | null): boolean {
+    if (!other) {
+      return false;
+    }
+    if (other === this) {
+      return true;
+    }
+    return other.constructor === this.constructor && other.id === this.id;
+  }
+}
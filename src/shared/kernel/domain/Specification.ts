@@ -0,0 +1,144 @@
+export interface SpecificationFailure {
+  rule: string;
+  message: string;
+}
+
+export interface SpecificationExplanation {
+  satisfied: boolean;
+  failures: SpecificationFailure[];
+}
+
+export interface Specification<T> {
+  readonly name: string;
+  isSatisfiedBy(candidate: T): boolean;
+  /** Evaluates every sub-rule and lists the ones that failed. */
+  explain(candidate: T): SpecificationExplanation;
+  and(other: Specification<T>): Specification<T>;
+  or(other: Specification<T>): Specification<T>;
+  not(): Specification<T>;
+}
+
+export abstract class CompositeSpecification<T> implements Specification<T> {
+  public abstract readonly name: string;
+
+  public abstract isSatisfiedBy(candidate: T): boolean;
+
+  public describeFailure(_candidate: T): string {
+    return `${this.name} is not satisfied`;
+  }
+
+  public explain(candidate: T): SpecificationExplanation {
+    if (this.isSatisfiedBy(candidate)) {
+      return { satisfied: true, failures: [] };
+    }
+    return {
+      satisfied: false,
+      failures: [{ rule: this.name, message: this.describeFailure(candidate) }],
+    };
+  }
+
+  public and(other: Specification<T>): Specification<T> {
+    return new AndSpecification(this, other);
+  }
+
+  public or(other: Specification<T>): Specification<T> {
+    return new OrSpecification(this, other);
+  }
+
+  public not(): Specification<T> {
+    return new NotSpecification(this);
+  }
+}
+
+export class AndSpecification<T> extends CompositeSpecification<T> {
+  constructor(
+    public readonly left: Specification<T>,
+    public readonly right: Specification<T>,
+  ) {
+    super();
+  }
+
+  public get name(): string {
+    return `(${this.left.name} and ${this.right.name})`;
+  }
+
+  public isSatisfiedBy(candidate: T): boolean {
+    return this.left.isSatisfiedBy(candidate) && this.right.isSatisfiedBy(candidate);
+  }
+
+  public explain(candidate: T): SpecificationExplanation {
+    const failures = [
+      ...this.left.explain(candidate).failures,
+      ...this.right.explain(candidate).failures,
+    ];
+    return { satisfied: failures.length === 0, failures };
+  }
+}
+
+export class OrSpecification<T> extends CompositeSpecification<T> {
+  constructor(
+    public readonly left: Specification<T>,
+    public readonly right: Specification<T>,
+  ) {
+    super();
+  }
+
+  public get name(): string {
+    return `(${this.left.name} or ${this.right.name})`;
+  }
+
+  public isSatisfiedBy(candidate: T): boolean {
+    return this.left.isSatisfiedBy(candidate) || this.right.isSatisfiedBy(candidate);
+  }
+
+  public explain(candidate: T): SpecificationExplanation {
+    const left = this.left.explain(candidate);
+    const right = this.right.explain(candidate);
+    if (left.satisfied || right.satisfied) {
+      return { satisfied: true, failures: [] };
+    }
+    return { satisfied: false, failures: [...left.failures, ...right.failures] };
+  }
+}
+
+export class NotSpecification<T> extends CompositeSpecification<T> {
+  constructor(public readonly inner: Specification<T>) {
+    super();
+  }
+
+  public get name(): string {
+    return `not ${this.inner.name}`;
+  }
+
+  public isSatisfiedBy(candidate: T): boolean {
+    return !this.inner.isSatisfiedBy(candidate);
+  }
+
+  public describeFailure(_candidate: T): string {
+    return `${this.inner.name} must not be satisfied`;
+  }
+}
+
+class PredicateSpecification<T> extends CompositeSpecification<T> {
+  constructor(
+    public readonly name: string,
+    private readonly predicate: (candidate: T) => boolean,
+    private readonly message?: string,
+  ) {
+    super();
+  }
+
+  public isSatisfiedBy(candidate: T): boolean {
+    return this.predicate(candidate);
+  }
+
+  public describeFailure(candidate: T): string {
+    return this.message ?? super.describeFailure(candidate);
+  }
+}
+
+export const specification = <T>(
+  name: string,
+  predicate: (candidate: T) => boolean,
+  message?: string,
+): Specification<T> => new PredicateSpecification(name, predicate, message);
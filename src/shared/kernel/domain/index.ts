@@ -0,0 +1,3 @@
+export * from './BaseEntity';
+export * from './AggregateRoot';
+export * from './Specification';
@@ -1,24 +1,12 @@
-export abstract class ApplicationError extends Error {
-  public readonly code: string;
-  public readonly timestamp: Date;
-  public readonly details?: Record<string, unknown>;
+import { BaseError } from './BaseError';
 
-  constructor(message: string, code: string, details?: Record<string, unknown>) {
-    super(message);
-    this.name = this.constructor.name;
-    this.code = code;
-    this.details = details;
-    this.timestamp = new Date();
-    Error.captureStackTrace(this, this.constructor);
-  }
-
-  public toJSON(): Record<string, unknown> {
-    return {
-      name: this.name,
-      code: this.code,
-      message: this.message,
-      details: this.details,
-      timestamp: this.timestamp.toISOString(),
-    };
+export abstract class ApplicationError extends BaseError {
+  constructor(
+    message: string,
+    code: string,
+    details?: Record<string, unknown>,
+    options: { cause?: unknown } = {},
+  ) {
+    super(message, code, { details, cause: options.cause });
   }
 }
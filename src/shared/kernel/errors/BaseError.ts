@@ -0,0 +1,42 @@
+export interface BaseErrorOptions {
+  details?: Record<string, unknown>;
+  /** The error that caused this one; serialized along with it by `toJSON`. */
+  cause?: unknown;
+}
+
+/** Common base of domain and application errors: a stable code, details and a cause chain. */
+export abstract class BaseError extends Error {
+  public readonly code: string;
+  public readonly timestamp: Date;
+  public readonly details?: Record<string, unknown>;
+
+  constructor(message: string, code: string, options: BaseErrorOptions = {}) {
+    super(message, options.cause === undefined ? undefined : { cause: options.cause });
+    this.name = this.constructor.name;
+    this.code = code;
+    this.details = options.details;
+    this.timestamp = new Date();
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  public toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      code: this.code,
+      message: this.message,
+      details: this.details,
+      timestamp: this.timestamp.toISOString(),
+      cause: serializeCause(this.cause),
+    };
+  }
+}
+
+const serializeCause = (cause: unknown): unknown => {
+  if (cause === undefined || cause instanceof BaseError) {
+    return cause?.toJSON();
+  }
+  if (cause instanceof Error) {
+    return { name: cause.name, message: cause.message, cause: serializeCause(cause.cause) };
+  }
+  return cause;
+};
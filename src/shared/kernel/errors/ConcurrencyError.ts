@@ -0,0 +1,24 @@
+import { ApplicationError } from './ApplicationError';
+
+export class ConcurrencyError extends ApplicationError {
+  constructor(
+    message: string,
+    details?: { aggregateId?: string; expectedVersion: number; actualVersion: number } & Record<
+      string,
+      unknown
+    >,
+  ) {
+    super(message, 'CONCURRENCY_CONFLICT', details);
+  }
+
+  public static forAggregate(
+    aggregateId: string,
+    expectedVersion: number,
+    actualVersion: number,
+  ): ConcurrencyError {
+    return new ConcurrencyError(
+      `Aggregate ${aggregateId} was modified concurrently (expected version ${expectedVersion}, found ${actualVersion})`,
+      { aggregateId, expectedVersion, actualVersion },
+    );
+  }
+}
@@ -1,21 +1,7 @@
-export abstract class DomainError extends Error {
-  public readonly code: string;
-  public readonly timestamp: Date;
+import { BaseError, type BaseErrorOptions } from './BaseError';
 
-  constructor(message: string, code: string) {
-    super(message);
-    this.name = this.constructor.name;
-    this.code = code;
-    this.timestamp = new Date();
-    Error.captureStackTrace(this, this.constructor);
-  }
-
-  public toJSON(): Record<string, unknown> {
-    return {
-      name: this.name,
-      code: this.code,
-      message: this.message,
-      timestamp: this.timestamp.toISOString(),
-    };
+export abstract class DomainError extends BaseError {
+  constructor(message: string, code: string, options?: BaseErrorOptions) {
+    super(message, code, options);
   }
 }
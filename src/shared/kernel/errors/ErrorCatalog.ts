@@ -0,0 +1,129 @@
+import { BaseError } from './BaseError';
+
+export const ERROR_CATEGORIES = [
+  'validation',
+  'not-found',
+  'conflict',
+  'forbidden',
+  'internal',
+] as const;
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+export interface ErrorDefinition {
+  readonly code: string;
+  readonly category: ErrorCategory;
+  /** Shown to clients instead of the error's own message unless details are exposed. */
+  readonly message: string;
+  /** Whether the error's message and `details` are safe to return to clients. */
+  readonly exposeDetails: boolean;
+}
+
+export interface RegisteredErrorDefinition extends ErrorDefinition {
+  readonly module: string;
+}
+
+/** Keeps the literal `code`, so a module can derive the union of the codes it defines. */
+export const defineError = <C extends string>(
+  definition: ErrorDefinition & { readonly code: C },
+): ErrorDefinition & { readonly code: C } => definition;
+
+const CODE_FORMAT = /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/;
+
+export const INTERNAL_ERROR: RegisteredErrorDefinition = {
+  module: 'kernel',
+  code: 'INTERNAL_ERROR',
+  category: 'internal',
+  message: 'An unexpected error occurred',
+  exposeDetails: false,
+};
+
+/**
+ * Registry of every error code the application can surface. Each module
+ * registers its codes once; transports look errors up here to decide how to
+ * present them without knowing the error classes.
+ */
+export class ErrorCatalog {
+  private readonly definitions = new Map<string, RegisteredErrorDefinition>();
+
+  public register(module: string, ...definitions: ErrorDefinition[]): this {
+    for (const definition of definitions) {
+      if (!CODE_FORMAT.test(definition.code)) {
+        throw new Error(`Error code must be SCREAMING_SNAKE_CASE: ${definition.code}`);
+      }
+      if (!ERROR_CATEGORIES.includes(definition.category)) {
+        throw new Error(`Unknown error category for ${definition.code}: ${definition.category}`);
+      }
+      const existing = this.definitions.get(definition.code);
+      if (existing) {
+        throw new Error(
+          `Error code ${definition.code} is already registered by module ${existing.module}`,
+        );
+      }
+      this.definitions.set(definition.code, { ...definition, module });
+    }
+    return this;
+  }
+
+  public has(code: string): boolean {
+    return this.definitions.has(code);
+  }
+
+  public get(code: string): RegisteredErrorDefinition | undefined {
+    return this.definitions.get(code);
+  }
+
+  public list(): RegisteredErrorDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /** The definition for `error`'s code, or `INTERNAL_ERROR` for anything unregistered. */
+  public resolve(error: unknown): RegisteredErrorDefinition {
+    return (error instanceof BaseError && this.definitions.get(error.code)) || INTERNAL_ERROR;
+  }
+}
+
+export const kernelErrorDefinitions = [
+  defineError({
+    code: 'VALIDATION_ERROR',
+    category: 'validation',
+    message: 'The request is invalid',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'CONCURRENCY_CONFLICT',
+    category: 'conflict',
+    message: 'The resource was modified concurrently; retry the request',
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'EVENT_DESERIALIZATION_FAILED',
+    category: 'internal',
+    message: INTERNAL_ERROR.message,
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'MISSING_PORT',
+    category: 'internal',
+    message: INTERNAL_ERROR.message,
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'CIRCULAR_DEPENDENCY',
+    category: 'internal',
+    message: INTERNAL_ERROR.message,
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'DUPLICATE_PROVIDER',
+    category: 'internal',
+    message: INTERNAL_ERROR.message,
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'INVALID_EXPORT',
+    category: 'internal',
+    message: INTERNAL_ERROR.message,
+    exposeDetails: false,
+  }),
+] as const;
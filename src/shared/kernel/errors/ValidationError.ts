@@ -1,15 +1,24 @@
+import type { ZodError } from 'zod';
 import { ApplicationError } from './ApplicationError';
 
+export interface Violation {
+  field: string;
+  message: string;
+  /** Identifies the failed rule so clients can render per-rule feedback. */
+  rule?: string;
+}
+
 export class ValidationError extends ApplicationError {
   public readonly field?: string;
-  public readonly violations: Array<{ field: string; message: string }>;
+  public readonly violations: Violation[];
 
   constructor(
     message: string,
-    violations: Array<{ field: string; message: string }> = [],
+    violations: Violation[] = [],
     field?: string,
+    code = 'VALIDATION_ERROR',
   ) {
-    super(message, 'VALIDATION_ERROR', { violations, field });
+    super(message, code, { violations, field });
     this.field = field;
     this.violations = violations;
   }
@@ -17,4 +26,16 @@ export class ValidationError extends ApplicationError {
   public static singleField(field: string, message: string): ValidationError {
     return new ValidationError(message, [{ field, message }], field);
   }
+
+  /** One violation per zod issue, keyed by its dotted path (`''` for the root). */
+  public static fromZodError(error: ZodError, message = 'Validation failed'): ValidationError {
+    return new ValidationError(
+      message,
+      error.issues.map((issue) => ({
+        field: issue.path.map(String).join('.'),
+        message: issue.message,
+        rule: issue.code,
+      })),
+    );
+  }
 }
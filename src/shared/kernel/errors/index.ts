@@ -1,3 +1,7 @@
+export * from './BaseError';
 export * from './DomainError';
 export * from './ApplicationError';
 export * from './ValidationError';
+export * from './ConcurrencyError';
+export * from './ErrorCatalog';
+export * from './problemDetails';
@@ -0,0 +1,62 @@
+import { BaseError } from './BaseError';
+import type { ErrorCatalog, ErrorCategory } from './ErrorCatalog';
+
+/** RFC 9457 problem details, extended with the error `code` and exposable `details`. */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  code: string;
+  details?: Record<string, unknown>;
+}
+
+export const ERROR_CATEGORY_STATUS: Readonly<Record<ErrorCategory, number>> = {
+  validation: 400,
+  'not-found': 404,
+  conflict: 409,
+  forbidden: 403,
+  internal: 500,
+};
+
+export interface ProblemDetailsOptions {
+  /** Prefix of the `type` URI; the kebab-cased code is appended. */
+  typeBase?: string;
+  /** URI identifying this occurrence, e.g. the request path or id. */
+  instance?: string;
+}
+
+const DEFAULT_TYPE_BASE = 'urn:problem-type:';
+
+/** The problem `type` URI of an error code, e.g. `urn:problem-type:user-not-found`. */
+export const problemType = (code: string, typeBase = DEFAULT_TYPE_BASE): string =>
+  `${typeBase}${code.toLowerCase().replace(/_/g, '-')}`;
+
+/**
+ * Maps any thrown value to problem details using the catalog. Unregistered
+ * errors become a generic 500, and an error's own message and details are only
+ * included when its definition marks them safe to expose.
+ */
+export const toProblemDetails = (
+  error: unknown,
+  catalog: ErrorCatalog,
+  options: ProblemDetailsOptions = {},
+): ProblemDetails => {
+  const definition = catalog.resolve(error);
+  const exposed = definition.exposeDetails && error instanceof BaseError ? error : undefined;
+  const problem: ProblemDetails = {
+    type: problemType(definition.code, options.typeBase),
+    title: definition.message,
+    status: ERROR_CATEGORY_STATUS[definition.category],
+    detail: exposed?.message ?? definition.message,
+    code: definition.code,
+  };
+  if (options.instance !== undefined) {
+    problem.instance = options.instance;
+  }
+  if (exposed?.details !== undefined) {
+    problem.details = exposed.details;
+  }
+  return problem;
+};
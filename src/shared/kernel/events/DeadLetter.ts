@@ -0,0 +1,37 @@
+import type { DomainEvent } from './DomainEvent';
+
+export interface DeadLetter {
+  readonly id: string;
+  readonly event: DomainEvent;
+  readonly handlerName: string;
+  readonly error: { name: string; message: string; code?: string };
+  readonly attempts: number;
+  readonly failedAt: Date;
+}
+
+export interface DeadLetterStore {
+  add(letter: DeadLetter): Promise<void>;
+  list(): Promise<DeadLetter[]>;
+  get(id: string): Promise<DeadLetter | null>;
+  remove(id: string): Promise<void>;
+}
+
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private readonly letters = new Map<string, DeadLetter>();
+
+  public async add(letter: DeadLetter): Promise<void> {
+    this.letters.set(letter.id, letter);
+  }
+
+  public async list(): Promise<DeadLetter[]> {
+    return [...this.letters.values()];
+  }
+
+  public async get(id: string): Promise<DeadLetter | null> {
+    return this.letters.get(id) ?? null;
+  }
+
+  public async remove(id: string): Promise<void> {
+    this.letters.delete(id);
+  }
+}
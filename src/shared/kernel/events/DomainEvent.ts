@@ -1,22 +1,48 @@
+/** Transport metadata, such as a W3C `traceparent`, that travels with an event. */
+export type EventHeaders = Readonly<Record<string, string>>;
+
 export interface DomainEvent {
   readonly eventId: string;
   readonly occurredAt: Date;
   readonly eventType: string;
   readonly aggregateId: string;
+  readonly headers?: EventHeaders;
 }
 
+/**
+ * A copy of `event`, with the same prototype, whose headers are merged with
+ * `headers`. Headers describe how the event is carried rather than what
+ * happened, so a carrier may add them after the event was raised.
+ */
+export const withEventHeaders = <E extends DomainEvent>(event: E, headers: EventHeaders): E =>
+  Object.assign(Object.create(Object.getPrototypeOf(event) as object) as E, event, {
+    headers: { ...event.headers, ...headers },
+  });
+
+/**
+ * Subclasses must declare `static readonly eventType` (namespaced, e.g.
+ * `example.UserCreated`) and `static readonly eventVersion`; the class name
+ * is never used because it does not survive minification.
+ */
 export abstract class BaseDomainEvent implements DomainEvent {
   public readonly eventId: string;
   public readonly occurredAt: Date;
   public readonly eventType: string;
+  public readonly eventVersion: number;
+  public readonly headers?: EventHeaders;
 
   constructor(
     public readonly aggregateId: string,
     eventId: string,
     occurredAt: Date,
   ) {
+    const eventClass = this.constructor as { eventType?: string; eventVersion?: number };
+    if (!eventClass.eventType) {
+      throw new Error(`${this.constructor.name} must declare a static eventType`);
+    }
     this.eventId = eventId;
     this.occurredAt = occurredAt;
-    this.eventType = this.constructor.name;
+    this.eventType = eventClass.eventType;
+    this.eventVersion = eventClass.eventVersion ?? 1;
   }
 }
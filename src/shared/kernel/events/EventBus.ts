@@ -1,36 +1,211 @@
+import { NoopLogger, type Logger } from '../logger';
+import { SystemClock, sleep, type Clock } from '../time';
+import type { DeadLetter, DeadLetterStore } from './DeadLetter';
 import type { DomainEvent } from './DomainEvent';
 
 export interface EventHandler<T extends DomainEvent = DomainEvent> {
   handle(event: T): Promise<void>;
 }
 
+export interface SubscribeOptions {
+  /** Identifies the subscriber in dead letters; defaults to the handler's class name. */
+  name?: string;
+}
+
 export interface EventBus {
   publish(event: DomainEvent): Promise<void>;
   publishAll(events: DomainEvent[]): Promise<void>;
   subscribe<T extends DomainEvent>(
     eventType: string,
     handler: EventHandler<T>,
+    options?: SubscribeOptions,
   ): void;
 }
 
+export type DeliveryOrdering = 'parallel' | 'sequential';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface InMemoryEventBusOptions {
+  /** Defaults to a single attempt, i.e. no retries. */
+  retry?: Partial<RetryPolicy>;
+  ordering?: DeliveryOrdering;
+  orderingByEventType?: Record<string, DeliveryOrdering>;
+  /**
+   * Where deliveries that exhausted their retries go. Without a store, `publish`
+   * rejects with the handler's error instead, so an `OutboxRelay` retries the event.
+   */
+  deadLetters?: DeadLetterStore;
+  clock?: Clock;
+  logger?: Logger;
+}
+
+interface Subscription {
+  name: string;
+  handler: EventHandler;
+}
+
+export const handlerNameOf = (handler: EventHandler): string | undefined => {
+  const name = handler.constructor?.name;
+  return name && name !== 'Object' ? name : undefined;
+};
+
+/**
+ * Delivers each event to every subscriber in isolation: a failing handler is
+ * retried with exponential backoff without affecting the other handlers. When it
+ * is still failing, the event is dead-lettered for that handler if a store is
+ * configured; otherwise `publish` rejects once every handler has run, which keeps
+ * the outbox relay's at-least-once retry in charge of the event.
+ */
 export class InMemoryEventBus implements EventBus {
-  private readonly handlers = new Map<string, EventHandler[]>();
+  private readonly handlers = new Map<string, Subscription[]>();
+  private readonly retry: RetryPolicy;
+  private readonly clock: Clock;
+  private readonly logger: Logger;
+  private deadLetterSequence = 0;
+
+  constructor(private readonly options: InMemoryEventBusOptions = {}) {
+    this.retry = {
+      maxAttempts: options.retry?.maxAttempts ?? 1,
+      baseDelayMs: options.retry?.baseDelayMs ?? 50,
+      maxDelayMs: options.retry?.maxDelayMs ?? 5000,
+    };
+    this.clock = options.clock ?? new SystemClock();
+    this.logger = options.logger ?? new NoopLogger();
+  }
 
   public async publish(event: DomainEvent): Promise<void> {
-    const handlers = this.handlers.get(event.eventType) || [];
-    await Promise.all(handlers.map((handler) => handler.handle(event)));
+    const subscriptions = this.handlers.get(event.eventType) || [];
+    const errors: unknown[] = [];
+    const deliver = async (subscription: Subscription): Promise<void> => {
+      const error = await this.deliver(event, subscription);
+      if (error !== undefined) {
+        errors.push(error);
+      }
+    };
+    if (this.orderingFor(event.eventType) === 'sequential') {
+      for (const subscription of subscriptions) {
+        await deliver(subscription);
+      }
+    } else {
+      await Promise.all(subscriptions.map(deliver));
+    }
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+    if (errors.length > 1) {
+      throw new AggregateError(errors, `${errors.length} handlers failed for ${event.eventType}`);
+    }
   }
 
+  /**
+   * Publishes `events` one after another, so handlers see a batch in the order
+   * it was raised; stops at the first event that fails.
+   */
   public async publishAll(events: DomainEvent[]): Promise<void> {
-    await Promise.all(events.map((event) => this.publish(event)));
+    for (const event of events) {
+      await this.publish(event);
+    }
   }
 
   public subscribe<T extends DomainEvent>(
     eventType: string,
     handler: EventHandler<T>,
+    options: SubscribeOptions = {},
   ): void {
     const handlers = this.handlers.get(eventType) || [];
-    handlers.push(handler as EventHandler);
+    const requested = options.name ?? handlerNameOf(handler as EventHandler) ?? 'anonymous';
+    const taken = (name: string): boolean => handlers.some((s) => s.name === name);
+    // Several instances of one handler class may subscribe; number them apart.
+    let name = requested;
+    for (let n = 2; taken(name); n += 1) {
+      name = `${requested}#${n}`;
+    }
+    handlers.push({ name, handler: handler as EventHandler });
     this.handlers.set(eventType, handlers);
   }
+
+  public async listDeadLetters(): Promise<DeadLetter[]> {
+    return (await this.options.deadLetters?.list()) ?? [];
+  }
+
+  /**
+   * Re-delivers a dead-lettered event to the handler that failed it. Returns
+   * `true` when the handler succeeded and the dead letter was removed.
+   */
+  public async replayDeadLetter(id: string): Promise<boolean> {
+    const letter = await this.options.deadLetters?.get(id);
+    if (!letter) {
+      throw new Error(`Unknown dead letter: ${id}`);
+    }
+    const subscription = (this.handlers.get(letter.event.eventType) || []).find(
+      (candidate) => candidate.name === letter.handlerName,
+    );
+    if (!subscription) {
+      throw new Error(
+        `Handler ${letter.handlerName} is not subscribed to event: ${letter.event.eventType}`,
+      );
+    }
+    await this.options.deadLetters?.remove(id);
+    return (await this.deliver(letter.event, subscription)) === undefined;
+  }
+
+  private orderingFor(eventType: string): DeliveryOrdering {
+    return this.options.orderingByEventType?.[eventType] ?? this.options.ordering ?? 'parallel';
+  }
+
+  /** Returns the error of a delivery that failed and was not dead-lettered. */
+  private async deliver(event: DomainEvent, subscription: Subscription): Promise<unknown> {
+    for (let attempt = 1; ; attempt += 1) {
+      try {
+        await subscription.handler.handle(event);
+        return undefined;
+      } catch (error) {
+        if (attempt >= this.retry.maxAttempts) {
+          const { deadLetters } = this.options;
+          if (!deadLetters) {
+            return error;
+          }
+          await this.deadLetter(deadLetters, event, subscription, error, attempt);
+          return undefined;
+        }
+        await sleep(
+          Math.min(this.retry.baseDelayMs * 2 ** (attempt - 1), this.retry.maxDelayMs),
+          this.clock,
+        );
+      }
+    }
+  }
+
+  private async deadLetter(
+    deadLetters: DeadLetterStore,
+    event: DomainEvent,
+    subscription: Subscription,
+    error: unknown,
+    attempts: number,
+  ): Promise<void> {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    const code = (exception as Error & { code?: unknown }).code;
+    this.deadLetterSequence += 1;
+    await deadLetters.add({
+      id: `${event.eventId}:${subscription.name}:${this.deadLetterSequence}`,
+      event,
+      handlerName: subscription.name,
+      error: {
+        name: exception.name,
+        message: exception.message,
+        ...(typeof code === 'string' ? { code } : {}),
+      },
+      attempts,
+      failedAt: this.clock.now(),
+    });
+    this.logger.error(`Event handler ${subscription.name} failed for ${event.eventType}`, exception, {
+      eventId: event.eventId,
+      attempts,
+    });
+  }
 }
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { ApplicationError } from '../errors';
+import { failure, success, type Result } from '../result';
+import { withEventHeaders, type DomainEvent } from './DomainEvent';
+
+export interface EventMetadata {
+  eventId: string;
+  aggregateId: string;
+  occurredAt: Date;
+}
+
+/** Migrates a payload from the version it is keyed by to the next one. */
+export type Upcaster = (payload: Record<string, unknown>) => Record<string, unknown>;
+
+export interface EventClass<E extends DomainEvent> {
+  readonly eventType: string;
+  readonly eventVersion: number;
+  readonly prototype: E;
+}
+
+export interface EventDefinition<E extends DomainEvent = DomainEvent, P = unknown> {
+  readonly type: string;
+  readonly version: number;
+  readonly schema: z.ZodType<P>;
+  toPayload(event: E): P;
+  fromPayload(payload: P, metadata: EventMetadata): E;
+  readonly upcasters?: Readonly<Record<number, Upcaster>>;
+}
+
+export const defineEvent = <E extends DomainEvent, P>(
+  eventClass: EventClass<E>,
+  definition: Omit<EventDefinition<E, P>, 'type' | 'version'>,
+): EventDefinition<E, P> => ({
+  type: eventClass.eventType,
+  version: eventClass.eventVersion,
+  ...definition,
+});
+
+export const serializedEventSchema = z.object({
+  eventId: z.string().min(1),
+  eventType: z.string().min(1),
+  eventVersion: z.number().int().positive(),
+  aggregateId: z.string().min(1),
+  occurredAt: z.iso.datetime({ offset: true }),
+  payload: z.record(z.string(), z.unknown()),
+  headers: z.record(z.string(), z.string()).optional(),
+});
+
+export type SerializedEvent = z.infer<typeof serializedEventSchema>;
+
+export class EventDeserializationError extends ApplicationError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, 'EVENT_DESERIALIZATION_FAILED', details);
+  }
+}
+
+export class EventRegistry {
+  private readonly definitions = new Map<string, EventDefinition>();
+
+  public register(...definitions: EventDefinition[]): this {
+    for (const definition of definitions) {
+      if (this.definitions.has(definition.type)) {
+        throw new Error(`Event type already registered: ${definition.type}`);
+      }
+      this.definitions.set(definition.type, definition);
+    }
+    return this;
+  }
+
+  public has(eventType: string): boolean {
+    return this.definitions.has(eventType);
+  }
+
+  public list(): EventDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  public serialize(event: DomainEvent): SerializedEvent {
+    const definition = this.definitions.get(event.eventType);
+    if (!definition) {
+      throw new Error(`No event definition registered for type: ${event.eventType}`);
+    }
+    return {
+      eventId: event.eventId,
+      eventType: definition.type,
+      eventVersion: definition.version,
+      aggregateId: event.aggregateId,
+      occurredAt: event.occurredAt.toISOString(),
+      payload: definition.schema.parse(definition.toPayload(event)) as Record<string, unknown>,
+      ...(event.headers ? { headers: { ...event.headers } } : {}),
+    };
+  }
+
+  public deserialize(raw: unknown): Result<DomainEvent, EventDeserializationError> {
+    const envelope = serializedEventSchema.safeParse(raw);
+    if (!envelope.success) {
+      return failure(
+        new EventDeserializationError('Malformed event envelope', { issues: envelope.error.issues }),
+      );
+    }
+    const { eventType, eventVersion, payload } = envelope.data;
+    const definition = this.definitions.get(eventType);
+    if (!definition) {
+      return failure(new EventDeserializationError(`Unknown event type: ${eventType}`, { eventType }));
+    }
+    if (eventVersion > definition.version) {
+      return failure(
+        new EventDeserializationError(`Unsupported ${eventType} version ${eventVersion}`, {
+          eventType,
+          eventVersion,
+        }),
+      );
+    }
+
+    let current = payload;
+    for (let version = eventVersion; version < definition.version; version += 1) {
+      const upcast = definition.upcasters?.[version];
+      if (!upcast) {
+        return failure(
+          new EventDeserializationError(`No upcaster for ${eventType} from version ${version}`, {
+            eventType,
+            eventVersion: version,
+          }),
+        );
+      }
+      current = upcast(current);
+    }
+
+    const parsed = definition.schema.safeParse(current);
+    if (!parsed.success) {
+      return failure(
+        new EventDeserializationError(`Invalid ${eventType} payload`, {
+          eventType,
+          issues: parsed.error.issues,
+        }),
+      );
+    }
+    const event = definition.fromPayload(parsed.data, {
+      eventId: envelope.data.eventId,
+      aggregateId: envelope.data.aggregateId,
+      occurredAt: new Date(envelope.data.occurredAt),
+    });
+    const { headers } = envelope.data;
+    return success(headers ? withEventHeaders(event, headers) : event);
+  }
+}
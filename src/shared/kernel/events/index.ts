@@ -1,2 +1,4 @@
 export * from './DomainEvent';
+export * from './DeadLetter';
 export * from './EventBus';
+export * from './EventRegistry';
@@ -0,0 +1,69 @@
+import { ApplicationError, defineError } from '../errors';
+
+/**
+ * Statuses of transport errors that their catalog category alone cannot express,
+ * keyed by code so an `HttpError` is raised by code alone and `generateOpenApi`
+ * documents the same status the server answers with.
+ */
+export const HTTP_ERROR_STATUS = {
+  INVALID_REQUEST_TARGET: 400,
+  ROUTE_NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  UNSUPPORTED_MEDIA_TYPE: 415,
+  MALFORMED_JSON: 400,
+  PAYLOAD_TOO_LARGE: 413,
+} as const;
+
+export type HttpErrorCode = keyof typeof HTTP_ERROR_STATUS;
+
+/**
+ * A failure of the transport itself, such as an unknown route or an oversized
+ * body. Its `status` takes precedence over the status of the code's category.
+ */
+export class HttpError extends ApplicationError {
+  public readonly status: number;
+
+  constructor(code: HttpErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message, code, details);
+    this.status = HTTP_ERROR_STATUS[code];
+  }
+}
+
+export const httpErrorDefinitions = [
+  defineError({
+    code: 'INVALID_REQUEST_TARGET',
+    category: 'validation',
+    message: 'The request target is not a valid URL',
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'ROUTE_NOT_FOUND',
+    category: 'not-found',
+    message: 'No route matches the request',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'METHOD_NOT_ALLOWED',
+    category: 'validation',
+    message: 'The route does not support this method',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'UNSUPPORTED_MEDIA_TYPE',
+    category: 'validation',
+    message: 'Request bodies must be JSON',
+    exposeDetails: true,
+  }),
+  defineError({
+    code: 'MALFORMED_JSON',
+    category: 'validation',
+    message: 'The request body is not valid JSON',
+    exposeDetails: false,
+  }),
+  defineError({
+    code: 'PAYLOAD_TOO_LARGE',
+    category: 'validation',
+    message: 'The request body is too large',
+    exposeDetails: true,
+  }),
+] as const;
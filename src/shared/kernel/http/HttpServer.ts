@@ -0,0 +1,211 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { toProblemDetails, type ErrorCatalog } from '../errors';
+import { createId, type IdGenerator } from '../id';
+import { NoopLogger, childLogger, type Logger } from '../logger';
+import { SystemClock, type Clock } from '../time';
+import { HttpError } from './HttpError';
+import { Router, type HttpMethod, type HttpResponse, type Route } from './Router';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+export const DEFAULT_BODY_LIMIT_BYTES = 1024 * 1024;
+
+/** Incoming request ids are trusted only if they look like an id, not arbitrary text. */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const METHODS_WITH_BODY = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+const parseTarget = (target = '/'): URL => {
+  try {
+    return new URL(target, 'http://localhost');
+  } catch {
+    throw new HttpError('INVALID_REQUEST_TARGET', 'The request target is not a valid URL');
+  }
+};
+
+export interface HttpServerOptions {
+  routes: readonly Route[];
+  /** Maps thrown errors to problem details and their status codes. */
+  catalog: ErrorCatalog;
+  logger?: Logger;
+  bodyLimitBytes?: number;
+  clock?: Clock;
+  idGenerator?: IdGenerator;
+}
+
+/**
+ * JSON over `node:http`. Each request gets an id (reused from `x-request-id`
+ * when valid) that is echoed in the response and bound to the request's logger;
+ * errors are rendered as problem details with the status of their catalog category.
+ */
+export class HttpServer {
+  private readonly router: Router;
+  private readonly logger: Logger;
+  private readonly bodyLimitBytes: number;
+  private readonly clock: Clock;
+  private readonly server: Server;
+
+  constructor(private readonly options: HttpServerOptions) {
+    this.router = new Router(options.routes);
+    this.logger = options.logger ?? new NoopLogger();
+    this.bodyLimitBytes = options.bodyLimitBytes ?? DEFAULT_BODY_LIMIT_BYTES;
+    this.clock = options.clock ?? new SystemClock();
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch((error: unknown) => {
+        this.logger.error(
+          'Request handling failed',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+        if (!response.headersSent) {
+          response.statusCode = 500;
+        }
+        if (!response.writableEnded) {
+          response.end();
+        }
+      });
+    });
+  }
+
+  public listen(port: number, host?: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Stops accepting connections and resolves once open ones are closed. */
+  public close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server.closeIdleConnections();
+    });
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const startedAt = this.clock.timestamp();
+    const incomingId = request.headers[REQUEST_ID_HEADER];
+    const requestId =
+      typeof incomingId === 'string' && REQUEST_ID_PATTERN.test(incomingId)
+        ? incomingId
+        : createId('RequestId', this.options.idGenerator);
+    const method = request.method ?? 'GET';
+    let logger = childLogger(this.logger, { requestId, method });
+
+    let url: URL | undefined;
+    let result: HttpResponse;
+    try {
+      url = parseTarget(request.url);
+      logger = childLogger(logger, { path: url.pathname });
+      const { route, params } = this.router.match(method, url.pathname);
+      const body = await this.readBody(request);
+      result = await route.handle({
+        method: method as HttpMethod,
+        path: url.pathname,
+        params,
+        query: url.searchParams,
+        headers: request.headers,
+        body,
+        requestId,
+        logger,
+      });
+    } catch (error) {
+      result = this.toErrorResponse(error, url?.pathname, logger);
+    }
+
+    this.send(response, requestId, result);
+    logger.info('Request completed', {
+      status: result.status,
+      durationMs: this.clock.timestamp() - startedAt,
+    });
+  }
+
+  private toErrorResponse(error: unknown, path: string | undefined, logger: Logger): HttpResponse {
+    const problem = toProblemDetails(error, this.options.catalog, { instance: path });
+    if (error instanceof HttpError) {
+      problem.status = error.status;
+    }
+    if (problem.status >= 500) {
+      logger.error('Request failed', error instanceof Error ? error : new Error(String(error)));
+    }
+    const allowed = error instanceof HttpError ? error.details?.allowed : undefined;
+    const unread = error instanceof HttpError && error.code === 'PAYLOAD_TOO_LARGE';
+    return {
+      status: problem.status,
+      headers: {
+        'content-type': 'application/problem+json',
+        ...(Array.isArray(allowed) ? { allow: allowed.join(', ') } : {}),
+        ...(unread ? { connection: 'close' } : {}),
+      },
+      body: problem,
+    };
+  }
+
+  private send(response: ServerResponse, requestId: string, result: HttpResponse): void {
+    const payload = result.body === undefined ? undefined : JSON.stringify(result.body);
+    response.writeHead(result.status, {
+      ...(payload === undefined ? {} : { 'content-type': 'application/json; charset=utf-8' }),
+      ...result.headers,
+      [REQUEST_ID_HEADER]: requestId,
+    });
+    const socket = response.socket;
+    if (socket && result.headers?.connection === 'close') {
+      // The rest of the body was never read, so drop the connection instead of draining it.
+      response.once('finish', () => socket.destroy());
+    }
+    response.end(payload);
+  }
+
+  /**
+   * Reads and parses a JSON body, rejecting it as soon as it exceeds the size
+   * limit; the oversized rest is not read and the connection is closed.
+   */
+  private async readBody(request: IncomingMessage): Promise<unknown> {
+    if (!METHODS_WITH_BODY.has(request.method ?? '')) {
+      return undefined;
+    }
+    const raw = await this.readRaw(request);
+    if (raw.length === 0) {
+      return undefined;
+    }
+    const contentType = request.headers['content-type'] ?? '';
+    if (!/^application\/([\w.+-]+\+)?json\s*(;|$)/i.test(contentType)) {
+      throw new HttpError('UNSUPPORTED_MEDIA_TYPE', `Unsupported content type: ${contentType}`, {
+        contentType,
+      });
+    }
+    try {
+      return JSON.parse(raw.toString('utf8'));
+    } catch {
+      throw new HttpError('MALFORMED_JSON', 'The request body is not valid JSON');
+    }
+  }
+
+  private readRaw(request: IncomingMessage): Promise<Buffer> {
+    const limitBytes = this.bodyLimitBytes;
+    const tooLarge = new HttpError('PAYLOAD_TOO_LARGE', 'The request body is too large', {
+      limitBytes,
+    });
+    if (Number(request.headers['content-length'] ?? 0) > limitBytes) {
+      return Promise.reject(tooLarge);
+    }
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer): void => {
+        size += chunk.length;
+        if (size > limitBytes) {
+          request.off('data', onData);
+          request.pause();
+          reject(tooLarge);
+          return;
+        }
+        chunks.push(chunk);
+      };
+      request.on('data', onData);
+      request.once('end', () => resolve(Buffer.concat(chunks)));
+      request.once('error', reject);
+    });
+  }
+}
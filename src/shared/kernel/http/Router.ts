@@ -0,0 +1,146 @@
+import type { IncomingHttpHeaders } from 'node:http';
+import type { z } from 'zod';
+import type { MessageDefinition } from '../bus';
+import type { Logger } from '../logger';
+import { HttpError } from './HttpError';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpRequest {
+  method: HttpMethod;
+  path: string;
+  /** Values of the route's `:name` segments, URI-decoded. */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body, `undefined` when the request had none. */
+  body: unknown;
+  requestId: string;
+  /** Logger bound to this request's id. */
+  logger: Logger;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers?: Record<string, string>;
+  /** Serialized as JSON; omit for an empty response. */
+  body?: unknown;
+}
+
+export type RouteHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+/** Describes a route's contract for generated API documentation. */
+export interface RouteSpec {
+  operationId: string;
+  summary?: string;
+  /**
+   * Message the request carries. Payload fields named like a path parameter
+   * come from the path, the rest from the query string (GET, DELETE) or the body.
+   */
+  request?: MessageDefinition;
+  response: {
+    status: number;
+    description: string;
+    /**
+     * Component name and schema of the JSON body, documented by its input side
+     * (the JSON form); omitted for empty responses.
+     */
+    body?: { name: string; schema: z.ZodType };
+  };
+  /** Codes of the errors the route can answer with besides validation and internal errors. */
+  errors?: readonly string[];
+}
+
+export interface Route {
+  readonly method: HttpMethod;
+  /** Literal segments and `:name` parameters, e.g. `/users/:id`. */
+  readonly path: string;
+  readonly handle: RouteHandler;
+  readonly spec?: RouteSpec;
+}
+
+export const route = (
+  method: HttpMethod,
+  path: string,
+  handle: RouteHandler,
+  spec?: RouteSpec,
+): Route => ({ method, path, handle, spec });
+
+export interface RouteMatch {
+  route: Route;
+  params: Record<string, string>;
+}
+
+const segmentsOf = (path: string): string[] => path.split('/').filter(Boolean);
+
+const decode = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+const matchPath = (pattern: string[], segments: string[]): Record<string, string> | null => {
+  if (pattern.length !== segments.length) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (const [index, part] of pattern.entries()) {
+    const segment = segments[index] as string;
+    if (!part.startsWith(':')) {
+      if (part !== segment) {
+        return null;
+      }
+      continue;
+    }
+    const value = decode(segment);
+    if (value === null) {
+      return null;
+    }
+    params[part.slice(1)] = value;
+  }
+  return params;
+};
+
+export class Router {
+  private readonly routes: Array<{ route: Route; pattern: string[] }>;
+
+  constructor(routes: readonly Route[]) {
+    this.routes = routes.map((route) => ({ route, pattern: segmentsOf(route.path) }));
+    const seen = new Set<string>();
+    for (const { route, pattern } of this.routes) {
+      const shape = pattern.map((part) => (part.startsWith(':') ? ':' : part)).join('/');
+      const key = `${route.method} /${shape}`;
+      if (seen.has(key)) {
+        throw new Error(`Route ${route.method} ${route.path} is declared twice`);
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Finds the route for `method` and `path`. Throws `ROUTE_NOT_FOUND`, or
+   * `METHOD_NOT_ALLOWED` (listing the allowed methods) when only the method differs.
+   */
+  public match(method: string, path: string): RouteMatch {
+    const segments = segmentsOf(path);
+    const allowed: HttpMethod[] = [];
+    for (const { route, pattern } of this.routes) {
+      const params = matchPath(pattern, segments);
+      if (!params) {
+        continue;
+      }
+      if (route.method === method) {
+        return { route, params };
+      }
+      allowed.push(route.method);
+    }
+    if (allowed.length > 0) {
+      throw new HttpError('METHOD_NOT_ALLOWED', `${method} is not allowed on ${path}`, {
+        allowed,
+      });
+    }
+    throw new HttpError('ROUTE_NOT_FOUND', `No route for ${method} ${path}`, { path });
+  }
+}
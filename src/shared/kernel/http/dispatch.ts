@@ -0,0 +1,84 @@
+import type {
+  Command,
+  CommandDefinition,
+  CommandFrom,
+  CommandHandler,
+  Query,
+  QueryDefinition,
+  QueryFrom,
+  QueryHandler,
+} from '../bus';
+import { ValidationError } from '../errors';
+import type { HttpRequest, HttpResponse, RouteHandler } from './Router';
+
+type CommandTarget<D> =
+  | { execute(command: CommandFrom<D>): Promise<unknown> }
+  | CommandHandler<CommandFrom<D>, unknown>;
+
+type QueryTarget<D> =
+  | { execute(query: QueryFrom<D>): Promise<unknown> }
+  | QueryHandler<QueryFrom<D>, unknown>;
+
+export interface DispatchOptions<R> {
+  /** Builds the message payload; defaults to query string, JSON body and route params merged. */
+  payload?: (request: HttpRequest) => Record<string, unknown>;
+  /** Builds the response from the handler's result; defaults to `200` with the result as body. */
+  respond?: (result: R, request: HttpRequest) => HttpResponse;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const defaultPayload = (request: HttpRequest): Record<string, unknown> => {
+  if (request.body !== undefined && !isObject(request.body)) {
+    throw ValidationError.singleField('body', 'Request body must be a JSON object');
+  }
+  return { ...Object.fromEntries(request.query), ...request.body, ...request.params };
+};
+
+const defaultResponse = (result: unknown): HttpResponse =>
+  result === undefined ? { status: 204 } : { status: 200, body: result };
+
+/** Sends `message` tagged with the request's id, so bus and handler logs can be correlated. */
+const run = <M extends Command | Query>(
+  target: { execute(message: M): Promise<unknown> } | { handle(message: M): Promise<unknown> },
+  message: M,
+  request: HttpRequest,
+): Promise<unknown> => {
+  const tagged = { ...message, metadata: { ...message.metadata, requestId: request.requestId } };
+  return 'execute' in target ? target.execute(tagged) : target.handle(tagged);
+};
+
+/**
+ * Validates the request against `definition` and sends the command to a bus
+ * or straight to an interface handler. Invalid payloads throw a `ValidationError`.
+ */
+export const dispatchCommand = <D extends CommandDefinition, R = unknown>(
+  target: CommandTarget<D>,
+  definition: D,
+  { payload = defaultPayload, respond = defaultResponse }: DispatchOptions<R> = {},
+): RouteHandler => {
+  return async (request) => {
+    const parsed = definition.parse(definition.create(payload(request)));
+    if (parsed.isFailure) {
+      throw parsed.error;
+    }
+    const result = await run(target, parsed.value as CommandFrom<D>, request);
+    return respond(result as R, request);
+  };
+};
+
+export const dispatchQuery = <D extends QueryDefinition, R = unknown>(
+  target: QueryTarget<D>,
+  definition: D,
+  { payload = defaultPayload, respond = defaultResponse }: DispatchOptions<R> = {},
+): RouteHandler => {
+  return async (request) => {
+    const parsed = definition.parse(definition.create(payload(request)));
+    if (parsed.isFailure) {
+      throw parsed.error;
+    }
+    const result = await run(target, parsed.value as QueryFrom<D>, request);
+    return respond(result as R, request);
+  };
+};
@@ -0,0 +1,4 @@
+export * from './HttpError';
+export * from './Router';
+export * from './dispatch';
+export * from './HttpServer';
@@ -0,0 +1,103 @@
+import { randomBytes } from 'node:crypto';
+import { SystemClock, type Clock } from '../time/Clock';
+
+export interface IdGenerator {
+  next(): string;
+}
+
+const hex = (value: bigint, digits: number): string => value.toString(16).padStart(digits, '0');
+
+const formatUuid = (digits: string): string =>
+  `${digits.slice(0, 8)}-${digits.slice(8, 12)}-${digits.slice(12, 16)}-${digits.slice(16, 20)}-${digits.slice(20)}`;
+
+const randomBigInt = (bytes: number): bigint => BigInt(`0x${randomBytes(bytes).toString('hex')}`);
+
+/**
+ * RFC 9562 UUIDv7: a 48-bit millisecond timestamp followed by random bits, so
+ * ids sort by creation time. A 12-bit counter seeded randomly each millisecond
+ * keeps ids from the same generator strictly increasing.
+ */
+export class UuidV7Generator implements IdGenerator {
+  private lastTimestamp = -1;
+  private counter = 0;
+
+  constructor(private readonly clock: Clock = new SystemClock()) {}
+
+  public next(): string {
+    let timestamp = Math.max(this.clock.timestamp(), this.lastTimestamp);
+    if (timestamp === this.lastTimestamp) {
+      this.counter += 1;
+      if (this.counter > 0xfff) {
+        timestamp += 1;
+        this.counter = 0;
+      }
+    } else {
+      this.counter = Number(randomBigInt(2) & 0x7ffn);
+    }
+    this.lastTimestamp = timestamp;
+
+    const randB = (randomBigInt(8) & 0x3fffffffffffffffn) | 0x8000000000000000n;
+    return formatUuid(
+      `${hex(BigInt(timestamp), 12)}7${hex(BigInt(this.counter), 3)}${hex(randB, 16)}`,
+    );
+  }
+}
+
+const CROCKFORD = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const ULID_REGEX = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/;
+const MAX_ULID_RANDOM = (1n << 80n) - 1n;
+
+const encodeCrockford = (value: bigint, length: number): string => {
+  let encoded = '';
+  for (let i = 0; i < length; i++) {
+    encoded = CROCKFORD[Number(value & 31n)] + encoded;
+    value >>= 5n;
+  }
+  return encoded;
+};
+
+/**
+ * ULID: 48-bit millisecond timestamp and 80 random bits in Crockford base32.
+ * Within one millisecond the random part is incremented (monotonic ULIDs).
+ */
+export class UlidGenerator implements IdGenerator {
+  private lastTimestamp = -1;
+  private lastRandom = 0n;
+
+  constructor(private readonly clock: Clock = new SystemClock()) {}
+
+  public next(): string {
+    let timestamp = Math.max(this.clock.timestamp(), this.lastTimestamp);
+    if (timestamp === this.lastTimestamp) {
+      this.lastRandom += 1n;
+      if (this.lastRandom > MAX_ULID_RANDOM) {
+        timestamp += 1;
+        this.lastRandom = randomBigInt(10);
+      }
+    } else {
+      this.lastRandom = randomBigInt(10);
+    }
+    this.lastTimestamp = timestamp;
+    return encodeCrockford(BigInt(timestamp), 10) + encodeCrockford(this.lastRandom, 16);
+  }
+}
+
+export const isValidUlid = (value: string): boolean => ULID_REGEX.test(value);
+
+/**
+ * Deterministic generator for tests: yields valid, increasing UUIDv7-shaped ids
+ * `00000000-0000-7000-8000-000000000001`, `...002`, and so on.
+ */
+export class SequentialIdGenerator implements IdGenerator {
+  private sequence: bigint;
+
+  constructor(start = 1) {
+    this.sequence = BigInt(start);
+  }
+
+  public next(): string {
+    const id = formatUuid(`000000000000700080000${hex(this.sequence, 11)}`);
+    this.sequence += 1n;
+    return id;
+  }
+}
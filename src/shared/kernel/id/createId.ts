@@ -1,15 +1,22 @@
-import { randomUUID } from 'node:crypto';
 import type { Brand } from './Brand';
+import { UuidV7Generator, type IdGenerator } from './IdGenerator';
 
-export const createId = <B extends string>(brand?: B): Brand<string, B> => {
-  return randomUUID() as Brand<string, B>;
+const defaultIdGenerator: IdGenerator = new UuidV7Generator();
+
+/** Generates a new id, time-ordered (UUIDv7) unless another generator is injected. */
+export const createId = <B extends string>(
+  _brand?: B,
+  generator: IdGenerator = defaultIdGenerator,
+): Brand<string, B> => {
+  return generator.next() as Brand<string, B>;
 };
 
 export const fromString = <B extends string>(value: string, _brand?: B): Brand<string, B> => {
   return value as Brand<string, B>;
 };
 
+/** Accepts RFC 9562 UUIDs of versions 1 through 8. */
 export const isValidUUID = (value: string): boolean => {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
   return uuidRegex.test(value);
 };
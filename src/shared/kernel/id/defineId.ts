@@ -0,0 +1,52 @@
+import { failure, success, type Result } from '../result';
+import { DomainError } from '../errors/DomainError';
+import type { Brand } from './Brand';
+import { createId, isValidUUID } from './createId';
+import type { IdGenerator } from './IdGenerator';
+
+export class InvalidIdError<B extends string = string> extends DomainError {
+  constructor(
+    public readonly brand: B,
+    value: string,
+  ) {
+    super(`Invalid ${brand}: ${value}`, `INVALID_${toScreamingSnake(brand)}`);
+  }
+}
+
+const toScreamingSnake = (value: string): string =>
+  value.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+
+export interface BrandedIdType<B extends string> {
+  readonly brand: B;
+  /** `InvalidIdError` subclass specific to this brand, usable with `instanceof`. */
+  readonly InvalidError: new (value: string) => InvalidIdError<B>;
+  parse(value: string): Result<Brand<string, B>, InvalidIdError<B>>;
+  is(value: string): value is Brand<string, B>;
+  generate(generator?: IdGenerator): Brand<string, B>;
+}
+
+/**
+ * Builds the parser, guard and generator for one branded id type. Ids are
+ * validated as UUIDs unless `validate` says otherwise.
+ */
+export const defineId = <B extends string>(
+  brand: B,
+  options: { validate?: (value: string) => boolean } = {},
+): BrandedIdType<B> => {
+  const validate = options.validate ?? isValidUUID;
+  const InvalidError = class extends InvalidIdError<B> {
+    constructor(value: string) {
+      super(brand, value);
+    }
+  };
+  Object.defineProperty(InvalidError, 'name', { value: `Invalid${brand}Error` });
+
+  const is = (value: string): value is Brand<string, B> => validate(value);
+  return {
+    brand,
+    InvalidError,
+    is,
+    parse: (value) => (is(value) ? success(value) : failure(new InvalidError(value))),
+    generate: (generator) => createId(brand, generator),
+  };
+};
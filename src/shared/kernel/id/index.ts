@@ -1,2 +1,4 @@
 export * from './Brand';
+export * from './IdGenerator';
 export * from './createId';
+export * from './defineId';
@@ -0,0 +1,198 @@
+import { SystemClock, type Clock } from '../time';
+import type { LogContext, Logger, LogLevel } from './Logger';
+
+const LEVEL_WEIGHT: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REDACTED = '[REDACTED]';
+/** Shorter redacted values are masked only in their own field, not searched for elsewhere. */
+const MIN_SCRUBBED_LENGTH = 8;
+
+export interface LoggingConfig {
+  level: LogLevel;
+  pretty: boolean;
+  redact?: readonly string[];
+}
+
+export interface JsonLoggerOptions extends LoggingConfig {
+  bindings?: LogContext;
+  clock?: Clock;
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const defaultWrite = (line: string, level: LogLevel): void => {
+  const stream = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+};
+
+const serializeError = (error: Error): Record<string, unknown> => {
+  const withToJSON = error as Error & { toJSON?: () => Record<string, unknown> };
+  if (typeof withToJSON.toJSON === 'function') {
+    return { ...withToJSON.toJSON(), stack: error.stack };
+  }
+  return { name: error.name, message: error.message, stack: error.stack };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+const collectStrings = (value: unknown, into: Set<string>, seen = new WeakSet<object>()): void => {
+  if (typeof value === 'string') {
+    if (value.length >= MIN_SCRUBBED_LENGTH) {
+      into.add(value);
+    }
+    return;
+  }
+  if ((Array.isArray(value) || isPlainObject(value)) && !seen.has(value)) {
+    seen.add(value);
+    Object.values(value).forEach((item) => collectStrings(item, into, seen));
+  }
+};
+
+/** Replaces every occurrence of a secret in the strings of `value` (already acyclic). */
+const scrub = (value: unknown, secrets: ReadonlySet<string>): unknown => {
+  if (secrets.size === 0) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    let result = value;
+    secrets.forEach((secret) => {
+      result = result.split(secret).join(REDACTED);
+    });
+    return result;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => scrub(item, secrets));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, scrub(v, secrets)]));
+  }
+  return value;
+};
+
+/**
+ * Writes one JSON object per log entry (or a readable line when `pretty`
+ * is set). Keys listed in `redact` are masked at any depth, case-insensitively,
+ * and their string values of at least eight characters are also masked wherever
+ * they appear in the message, an error's message or stack, or other fields.
+ */
+export class JsonLogger implements Logger {
+  private readonly threshold: number;
+  private readonly redactKeys: ReadonlySet<string>;
+  private readonly bindings: LogContext;
+  private readonly clock: Clock;
+  private readonly write: (line: string, level: LogLevel) => void;
+
+  constructor(private readonly options: JsonLoggerOptions) {
+    this.threshold = LEVEL_WEIGHT[options.level];
+    this.redactKeys = new Set((options.redact ?? []).map((key) => key.toLowerCase()));
+    this.bindings = options.bindings ?? {};
+    this.clock = options.clock ?? new SystemClock();
+    this.write = options.write ?? defaultWrite;
+  }
+
+  public static fromConfig(config: LoggingConfig): JsonLogger {
+    return new JsonLogger(config);
+  }
+
+  public debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
+  }
+
+  public info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
+  }
+
+  public warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context);
+  }
+
+  public error(message: string, error?: Error, context?: LogContext): void {
+    this.log('error', message, context, error);
+  }
+
+  public child(bindings: LogContext): JsonLogger {
+    return new JsonLogger({
+      ...this.options,
+      bindings: { ...this.bindings, ...bindings },
+    });
+  }
+
+  public isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_WEIGHT[level] >= this.threshold;
+  }
+
+  private log(level: LogLevel, message: string, context?: LogContext, error?: Error): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+    const secrets = new Set<string>();
+    const fields = this.redact(
+      {
+        ...this.bindings,
+        ...context,
+        ...(error ? { error: serializeError(error) } : {}),
+      },
+      secrets,
+    ) as Record<string, unknown>;
+    const text = scrub(message, secrets) as string;
+    const scrubbed = scrub(fields, secrets) as Record<string, unknown>;
+    const time = this.clock.now().toISOString();
+
+    if (this.options.pretty) {
+      this.write(this.formatPretty(time, level, text, scrubbed), level);
+      return;
+    }
+    this.write(JSON.stringify({ time, level, message: text, ...scrubbed }), level);
+  }
+
+  /** Masks redacted keys and collects their string values into `secrets`. */
+  private redact(value: unknown, secrets: Set<string>, seen = new WeakSet<object>()): unknown {
+    if (Array.isArray(value) || isPlainObject(value)) {
+      if (seen.has(value)) {
+        return '[Circular]';
+      }
+      seen.add(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item, secrets, seen));
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (this.redactKeys.has(key.toLowerCase())) {
+        collectStrings(entry, secrets);
+        result[key] = REDACTED;
+      } else {
+        result[key] = this.redact(entry, secrets, seen);
+      }
+    }
+    return result;
+  }
+
+  private formatPretty(
+    time: string,
+    level: LogLevel,
+    message: string,
+    fields: Record<string, unknown>,
+  ): string {
+    const { error, ...rest } = fields;
+    const pairs = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`);
+    const line = [time, level.toUpperCase().padEnd(5), message, ...pairs].join(' ');
+    if (!isPlainObject(error)) {
+      return line;
+    }
+    const { stack, ...details } = error;
+    return `${line}\n  ${JSON.stringify(details)}${typeof stack === 'string' ? `\n${stack}` : ''}`;
+  }
+}
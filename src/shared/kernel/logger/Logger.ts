@@ -1,3 +1,5 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
 export interface LogContext {
   traceId?: string;
   spanId?: string;
@@ -9,6 +11,8 @@ export interface Logger {
   info(message: string, context?: LogContext): void;
   warn(message: string, context?: LogContext): void;
   error(message: string, error?: Error, context?: LogContext): void;
+  /** Optional; use `childLogger` to bind fields on any logger. */
+  child?(bindings: LogContext): Logger;
 }
 
 export class NoopLogger implements Logger {
@@ -27,4 +31,40 @@ export class NoopLogger implements Logger {
   public error(_message: string, _error?: Error, _context?: LogContext): void {
     // noop
   }
+
+  public child(_bindings: LogContext): Logger {
+    return this;
+  }
+}
+
+/** Adds `bindings` to the context of every entry written through it. */
+class BoundLogger implements Logger {
+  constructor(
+    private readonly inner: Logger,
+    private readonly bindings: LogContext,
+  ) {}
+
+  public debug(message: string, context?: LogContext): void {
+    this.inner.debug(message, { ...this.bindings, ...context });
+  }
+
+  public info(message: string, context?: LogContext): void {
+    this.inner.info(message, { ...this.bindings, ...context });
+  }
+
+  public warn(message: string, context?: LogContext): void {
+    this.inner.warn(message, { ...this.bindings, ...context });
+  }
+
+  public error(message: string, error?: Error, context?: LogContext): void {
+    this.inner.error(message, error, { ...this.bindings, ...context });
+  }
+
+  public child(bindings: LogContext): Logger {
+    return new BoundLogger(this.inner, { ...this.bindings, ...bindings });
+  }
 }
+
+/** `logger.child(bindings)` when the logger implements it, a binding wrapper otherwise. */
+export const childLogger = (logger: Logger, bindings: LogContext): Logger =>
+  logger.child ? logger.child(bindings) : new BoundLogger(logger, bindings);
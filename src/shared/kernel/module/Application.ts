@@ -0,0 +1,300 @@
+import type { AnyCommandMap, AnyQueryMap, CommandBus, QueryBus } from '../bus';
+import { ApplicationError } from '../errors';
+import type { EventBus } from '../events';
+import type { OutboxRelay } from '../persistence';
+import { Kernel, defaultKernelProviders } from './KernelTokens';
+import type { ModuleContext, ModuleDefinition, Provider } from './Module';
+import type { Token } from './Token';
+
+export class MissingPortError extends ApplicationError {
+  constructor(moduleName: string, port: string, requiredBy?: string) {
+    super(
+      requiredBy
+        ? `Module ${moduleName}: ${requiredBy} depends on ${port}, ` +
+            'which the module neither provides nor requires'
+        : `Module ${moduleName} requires ${port}, but nothing provides or exports it`,
+      'MISSING_PORT',
+      { module: moduleName, port, requiredBy },
+    );
+  }
+}
+
+export class CircularDependencyError extends ApplicationError {
+  constructor(public readonly cycle: string[]) {
+    super(`Circular dependency: ${cycle.join(' -> ')}`, 'CIRCULAR_DEPENDENCY', { cycle });
+  }
+}
+
+export class DuplicateProviderError extends ApplicationError {
+  constructor(token: string, owners: [string, string]) {
+    super(`${token} is provided by both ${owners[0]} and ${owners[1]}`, 'DUPLICATE_PROVIDER', {
+      token,
+      owners,
+    });
+  }
+}
+
+export class InvalidExportError extends ApplicationError {
+  constructor(moduleName: string, token: string) {
+    super(`Module ${moduleName} exports ${token} without providing it`, 'INVALID_EXPORT', {
+      module: moduleName,
+      token,
+    });
+  }
+}
+
+export interface BootstrapOptions {
+  modules: readonly ModuleDefinition[];
+  /** Replace any provider, kernel or module, by token. */
+  overrides?: readonly Provider[];
+}
+
+const KERNEL = 'kernel';
+
+interface Registered {
+  provider: Provider;
+  owner: string;
+}
+
+/**
+ * Composition root: wires modules' providers into singletons, registers their
+ * handlers on the kernel buses and runs their start/stop hooks in dependency
+ * order. Every problem in the wiring is reported by `bootstrap`, before any
+ * provider is instantiated. The outbox relay runs while the application is
+ * started: after every module's `onStart` and until before the first `onStop`.
+ */
+export class Application {
+  private readonly instances = new Map<Token<unknown>, unknown>();
+  private readonly started: ModuleDefinition[] = [];
+  private relay?: OutboxRelay;
+
+  private constructor(
+    private readonly providers: Map<Token<unknown>, Registered>,
+    private readonly exported: Map<Token<unknown>, string>,
+    private readonly order: ModuleDefinition[],
+  ) {}
+
+  public static bootstrap({ modules, overrides = [] }: BootstrapOptions): Application {
+    const providers = new Map<Token<unknown>, Registered>();
+    for (const provider of defaultKernelProviders()) {
+      providers.set(provider.token, { provider, owner: KERNEL });
+    }
+    const exported = new Map<Token<unknown>, string>();
+    for (const token of providers.keys()) {
+      exported.set(token, KERNEL);
+    }
+
+    for (const module of modules) {
+      for (const provider of module.providers ?? []) {
+        const existing = providers.get(provider.token);
+        if (existing) {
+          throw new DuplicateProviderError(provider.token.name, [existing.owner, module.name]);
+        }
+        providers.set(provider.token, { provider, owner: module.name });
+      }
+      for (const token of module.exports ?? []) {
+        if (providers.get(token)?.owner !== module.name) {
+          throw new InvalidExportError(module.name, token.name);
+        }
+        exported.set(token, module.name);
+      }
+    }
+    for (const provider of overrides) {
+      const owner = providers.get(provider.token)?.owner;
+      providers.set(provider.token, { provider, owner: owner ?? KERNEL });
+      if (!owner) {
+        exported.set(provider.token, KERNEL);
+      }
+    }
+
+    validatePorts(modules, providers, exported);
+    detectProviderCycles(providers);
+    const application = new Application(providers, exported, orderModules(modules, exported));
+    application.registerHandlers();
+    return application;
+  }
+
+  public get commandBus(): CommandBus {
+    return this.resolve(Kernel.CommandBus);
+  }
+
+  public get queryBus(): QueryBus {
+    return this.resolve(Kernel.QueryBus);
+  }
+
+  /** Modules in start order: every module after the modules whose exports it requires. */
+  public get modules(): readonly ModuleDefinition[] {
+    return this.order;
+  }
+
+  /** Resolves a kernel token or a token some module exports. */
+  public get<T>(token: Token<T>): T {
+    if (!this.exported.has(token)) {
+      throw new Error(`${token.name} is not exported by any module`);
+    }
+    return this.resolve(token);
+  }
+
+  public async start(): Promise<void> {
+    for (const module of this.order) {
+      if (this.started.includes(module)) {
+        continue;
+      }
+      try {
+        await module.onStart?.(this.contextFor(module));
+      } catch (error) {
+        await this.stop();
+        throw error;
+      }
+      this.started.push(module);
+    }
+    this.relay ??= this.resolve(Kernel.OutboxRelay);
+    this.relay.start();
+  }
+
+  /** Stops the outbox relay, then started modules in reverse start order. */
+  public async stop(): Promise<void> {
+    await this.relay?.stop();
+    this.relay = undefined;
+    for (let module = this.started.pop(); module; module = this.started.pop()) {
+      await module.onStop?.(this.contextFor(module));
+    }
+  }
+
+  private registerHandlers(): void {
+    const commandBus = this.resolve(Kernel.CommandBus) as unknown as CommandBus<AnyCommandMap>;
+    const queryBus = this.resolve(Kernel.QueryBus) as unknown as QueryBus<AnyQueryMap>;
+    const eventBus: EventBus = this.resolve(Kernel.EventBus);
+    for (const module of this.order) {
+      const context = this.contextFor(module);
+      const build = <R>(registration: { deps: readonly Token<unknown>[] } & {
+        create(...deps: unknown[]): R;
+      }): R => registration.create(...registration.deps.map((dep) => context.get(dep)));
+
+      for (const command of module.commands ?? []) {
+        commandBus.register(command.commandType as string, build(command));
+      }
+      for (const query of module.queries ?? []) {
+        queryBus.register(query.queryType as string, build(query));
+      }
+      for (const subscription of module.subscriptions ?? []) {
+        eventBus.subscribe(subscription.eventType, build(subscription), subscription.options);
+      }
+    }
+  }
+
+  private contextFor(module: ModuleDefinition): ModuleContext {
+    return {
+      get: <T>(token: Token<T>): T => {
+        if (!isVisibleTo(module, token, this.providers)) {
+          throw new MissingPortError(module.name, token.name, 'context.get');
+        }
+        return this.resolve(token);
+      },
+    };
+  }
+
+  private resolve<T>(token: Token<T>): T {
+    if (!this.instances.has(token)) {
+      const registered = this.providers.get(token);
+      if (!registered) {
+        throw new Error(`No provider for ${token.name}`);
+      }
+      const { provider } = registered;
+      this.instances.set(token, provider.create(...provider.deps.map((dep) => this.resolve(dep))));
+    }
+    return this.instances.get(token) as T;
+  }
+}
+
+const isVisibleTo = (
+  module: ModuleDefinition,
+  token: Token<unknown>,
+  providers: Map<Token<unknown>, Registered>,
+): boolean => providers.get(token)?.owner === module.name || !!module.requires?.includes(token);
+
+const validatePorts = (
+  modules: readonly ModuleDefinition[],
+  providers: Map<Token<unknown>, Registered>,
+  exported: Map<Token<unknown>, string>,
+): void => {
+  for (const module of modules) {
+    for (const token of module.requires ?? []) {
+      if (!exported.has(token)) {
+        throw new MissingPortError(module.name, token.name);
+      }
+    }
+    const dependents: Array<{ name: string; deps: readonly Token<unknown>[] }> = [
+      ...(module.providers ?? [])
+        .filter((provider) => providers.get(provider.token)?.provider === provider)
+        .map((provider) => ({ name: provider.token.name, deps: provider.deps })),
+      ...(module.commands ?? []).map(({ commandType, deps }) => ({
+        name: `handler of ${typeName(commandType)}`,
+        deps,
+      })),
+      ...(module.queries ?? []).map(({ queryType, deps }) => ({
+        name: `handler of ${typeName(queryType)}`,
+        deps,
+      })),
+      ...(module.subscriptions ?? []).map(({ eventType, deps }) => ({
+        name: `subscriber to ${eventType}`,
+        deps,
+      })),
+    ];
+    for (const { name, deps } of dependents) {
+      const missing = deps.find((dep) => !isVisibleTo(module, dep, providers));
+      if (missing) {
+        throw new MissingPortError(module.name, missing.name, name);
+      }
+    }
+  }
+};
+
+const typeName = (type: string | { type: string }): string =>
+  typeof type === 'string' ? type : type.type;
+
+const detectProviderCycles = (providers: Map<Token<unknown>, Registered>): void => {
+  const done = new Set<Token<unknown>>();
+  const visit = (token: Token<unknown>, path: Token<unknown>[]): void => {
+    if (done.has(token)) {
+      return;
+    }
+    const index = path.indexOf(token);
+    if (index >= 0) {
+      throw new CircularDependencyError([...path.slice(index), token].map((t) => t.name));
+    }
+    for (const dep of providers.get(token)?.provider.deps ?? []) {
+      visit(dep, [...path, token]);
+    }
+    done.add(token);
+  };
+  for (const token of providers.keys()) {
+    visit(token, []);
+  }
+};
+
+/** Topologically sorts modules by required exports, keeping declaration order otherwise. */
+const orderModules = (
+  modules: readonly ModuleDefinition[],
+  exported: Map<Token<unknown>, string>,
+): ModuleDefinition[] => {
+  const byName = new Map(modules.map((module) => [module.name, module]));
+  const ordered: ModuleDefinition[] = [];
+  const visit = (module: ModuleDefinition, path: string[]): void => {
+    if (ordered.includes(module)) {
+      return;
+    }
+    if (path.includes(module.name)) {
+      throw new CircularDependencyError([...path.slice(path.indexOf(module.name)), module.name]);
+    }
+    for (const token of module.requires ?? []) {
+      const provider = byName.get(exported.get(token) ?? KERNEL);
+      if (provider && provider !== module) {
+        visit(provider, [...path, module.name]);
+      }
+    }
+    ordered.push(module);
+  };
+  modules.forEach((module) => visit(module, []));
+  return ordered;
+};
@@ -0,0 +1,63 @@
+import {
+  InMemoryCommandBus,
+  InMemoryQueryBus,
+  LoggingMiddleware,
+  type CommandBus,
+  type QueryBus,
+} from '../bus';
+import { InMemoryEventBus, type EventBus } from '../events';
+import { NoopLogger, type Logger } from '../logger';
+import {
+  InMemoryOutbox,
+  OutboxRelay,
+  type Outbox,
+  type TransactionParticipant,
+} from '../persistence';
+import { SystemClock, type Clock } from '../time';
+import { TraceContextLogger, TracingEventBus, TracingMiddleware, TracingOutbox } from '../tracing';
+import { provideFactory, provideValue, type Provider } from './Module';
+import { createToken } from './Token';
+
+/** Ports every application provides; modules list the ones they use in `requires`. */
+export const Kernel = {
+  CommandBus: createToken<CommandBus>('kernel.CommandBus'),
+  QueryBus: createToken<QueryBus>('kernel.QueryBus'),
+  EventBus: createToken<EventBus>('kernel.EventBus'),
+  Clock: createToken<Clock>('kernel.Clock'),
+  Outbox: createToken<Outbox & TransactionParticipant>('kernel.Outbox'),
+  /** Drains the outbox into the event bus while the application is started. */
+  OutboxRelay: createToken<OutboxRelay>('kernel.OutboxRelay'),
+  Logger: createToken<Logger>('kernel.Logger'),
+} as const;
+
+/**
+ * In-memory adapters, traced with the global OpenTelemetry tracer: one span per
+ * command, query and event handler, and log entries tagged with the active span.
+ */
+export const defaultKernelProviders = (): Provider[] => [
+  provideFactory(Kernel.CommandBus, [Kernel.Logger], (logger) => {
+    const bus = new InMemoryCommandBus();
+    bus.use(new TracingMiddleware());
+    bus.use(new LoggingMiddleware(logger));
+    return bus;
+  }),
+  provideFactory(Kernel.QueryBus, [Kernel.Logger], (logger) => {
+    const bus = new InMemoryQueryBus();
+    bus.use(new TracingMiddleware());
+    bus.use(new LoggingMiddleware(logger));
+    return bus;
+  }),
+  provideFactory(
+    Kernel.EventBus,
+    [Kernel.Logger],
+    (logger) => new TracingEventBus(new InMemoryEventBus({ logger })),
+  ),
+  provideValue(Kernel.Clock, new SystemClock()),
+  provideFactory(Kernel.Outbox, [], () => new TracingOutbox(new InMemoryOutbox())),
+  provideFactory(
+    Kernel.OutboxRelay,
+    [Kernel.Outbox, Kernel.EventBus, Kernel.Clock, Kernel.Logger],
+    (outbox, eventBus, clock, logger) => new OutboxRelay(outbox, eventBus, clock, { logger }),
+  ),
+  provideValue(Kernel.Logger, new TraceContextLogger(new NoopLogger())),
+];
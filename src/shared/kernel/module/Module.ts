@@ -0,0 +1,115 @@
+import type {
+  CommandDefinition,
+  CommandHandler,
+  CommandIn,
+  CommandRegistry,
+  CommandResult,
+  CommandTypeIn,
+  QueryDefinition,
+  QueryHandler,
+  QueryIn,
+  QueryRegistry,
+  QueryResult,
+  QueryTypeIn,
+} from '../bus';
+import type { EventHandler, SubscribeOptions } from '../events';
+import type { Token, TokenValues } from './Token';
+
+type Dependencies = readonly Token<unknown>[];
+
+export interface Provider<T = unknown> {
+  readonly token: Token<T>;
+  readonly deps: Dependencies;
+  create(...deps: unknown[]): T;
+}
+
+export interface CommandRegistration {
+  readonly commandType: string | CommandDefinition;
+  readonly deps: Dependencies;
+  create(...deps: unknown[]): CommandHandler<never, unknown>;
+}
+
+export interface QueryRegistration {
+  readonly queryType: string | QueryDefinition;
+  readonly deps: Dependencies;
+  create(...deps: unknown[]): QueryHandler<never, unknown>;
+}
+
+export interface EventSubscription {
+  readonly eventType: string;
+  readonly deps: Dependencies;
+  readonly options?: SubscribeOptions;
+  create(...deps: unknown[]): EventHandler<never>;
+}
+
+/** Resolves the tokens a module may see: its own providers and its required ports. */
+export interface ModuleContext {
+  get<T>(token: Token<T>): T;
+}
+
+export interface ModuleDefinition {
+  readonly name: string;
+  /** Ports this module needs from the kernel, other modules' exports or overrides. */
+  readonly requires?: readonly Token<unknown>[];
+  readonly providers?: readonly Provider[];
+  /** Provided tokens other modules may require. */
+  readonly exports?: readonly Token<unknown>[];
+  readonly commands?: readonly CommandRegistration[];
+  readonly queries?: readonly QueryRegistration[];
+  readonly subscriptions?: readonly EventSubscription[];
+  onStart?(context: ModuleContext): Promise<void> | void;
+  onStop?(context: ModuleContext): Promise<void> | void;
+}
+
+export const defineModule = (definition: ModuleDefinition): ModuleDefinition => definition;
+
+export const provideValue = <T>(token: Token<T>, value: T): Provider<T> => ({
+  token,
+  deps: [],
+  create: () => value,
+});
+
+export const provideFactory = <T, const D extends Dependencies>(
+  token: Token<T>,
+  deps: D,
+  create: (...deps: TokenValues<D>) => T,
+): Provider<T> => ({ token, deps, create: create as Provider<T>['create'] });
+
+export const handleCommand = <
+  K extends CommandTypeIn<CommandRegistry>,
+  const D extends Dependencies,
+>(
+  commandType: K | CommandDefinition<K>,
+  deps: D,
+  create: (
+    ...deps: TokenValues<D>
+  ) => CommandHandler<CommandIn<CommandRegistry, K>, CommandResult<CommandRegistry, K>>,
+): CommandRegistration => ({
+  commandType,
+  deps,
+  create: create as unknown as CommandRegistration['create'],
+});
+
+export const handleQuery = <K extends QueryTypeIn<QueryRegistry>, const D extends Dependencies>(
+  queryType: K | QueryDefinition<K>,
+  deps: D,
+  create: (
+    ...deps: TokenValues<D>
+  ) => QueryHandler<QueryIn<QueryRegistry, K>, QueryResult<QueryRegistry, K>>,
+): QueryRegistration => ({
+  queryType,
+  deps,
+  create: create as unknown as QueryRegistration['create'],
+});
+
+export const subscribeTo = <const D extends Dependencies>(
+  eventType: string,
+  deps: D,
+  create: (...deps: TokenValues<D>) => EventHandler<never>,
+  options?: SubscribeOptions,
+): EventSubscription => ({
+  eventType,
+  deps,
+  options,
+  create: create as EventSubscription['create'],
+});
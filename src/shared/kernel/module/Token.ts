@@ -0,0 +1,14 @@
+/** Identifies a provided value; `T` only exists at compile time. */
+export interface Token<T> {
+  readonly name: string;
+  /** Phantom field carrying the provided type. */
+  readonly __type?: T;
+}
+
+export const createToken = <T>(name: string): Token<T> => ({ name });
+
+export type TokenValue<K> = K extends Token<infer T> ? T : never;
+
+export type TokenValues<D extends readonly Token<unknown>[]> = {
+  -readonly [I in keyof D]: TokenValue<D[I]>;
+};
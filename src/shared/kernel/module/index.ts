@@ -0,0 +1,4 @@
+export * from './Token';
+export * from './Module';
+export * from './KernelTokens';
+export * from './Application';
@@ -0,0 +1,78 @@
+import type { AggregateRoot } from '../domain/AggregateRoot';
+import type { DomainEvent } from '../events/DomainEvent';
+import { NO_STREAM, type EventStore } from './EventStore';
+import type { SnapshotStore } from './SnapshotStore';
+
+export interface EventSourcedAggregateType<A extends AggregateRoot<string>, S> {
+  /** Prefix of every stream id, e.g. `example.User`. */
+  readonly streamPrefix: string;
+  /** Rebuilds the aggregate from an optional snapshot plus the events after it. */
+  rehydrate(history: ReadonlyArray<DomainEvent>, snapshot?: S): A | null;
+  toSnapshot?(aggregate: A): S;
+}
+
+export interface SnapshotOptions<S> {
+  store: SnapshotStore<S>;
+  /** Take a snapshot each time the stream crosses a multiple of this many events. */
+  every: number;
+}
+
+/**
+ * Loads aggregates by replaying their stream and saves them by appending
+ * their uncommitted events, guarded by the version they were loaded at.
+ */
+export class EventSourcedRepository<A extends AggregateRoot<string>, S = unknown> {
+  constructor(
+    private readonly eventStore: EventStore,
+    private readonly type: EventSourcedAggregateType<A, S>,
+    private readonly snapshots?: SnapshotOptions<S>,
+  ) {}
+
+  public streamIdOf(id: string): string {
+    return `${this.type.streamPrefix}-${id}`;
+  }
+
+  public async load(id: string): Promise<A | null> {
+    const streamId = this.streamIdOf(id);
+    const snapshot = this.snapshots ? await this.snapshots.store.load(streamId) : null;
+    const history = await this.eventStore.readStream(streamId, (snapshot?.version ?? 0) + 1);
+    if (!snapshot && history.length === 0) {
+      return null;
+    }
+
+    const aggregate = this.type.rehydrate(
+      history.map((stored) => stored.event),
+      snapshot?.state,
+    );
+    if (aggregate) {
+      const lastEvent = history[history.length - 1];
+      aggregate.markPersisted(lastEvent?.streamVersion ?? snapshot?.version ?? NO_STREAM);
+    }
+    return aggregate;
+  }
+
+  public async save(aggregate: A, expectedVersion = aggregate.version): Promise<void> {
+    const events = aggregate.getDomainEvents();
+    if (events.length === 0) {
+      return;
+    }
+    const streamId = this.streamIdOf(aggregate.id);
+    const version = await this.eventStore.append(streamId, [...events], expectedVersion);
+    aggregate.clearDomainEvents();
+    aggregate.markPersisted(version);
+
+    if (this.snapshots && this.type.toSnapshot) {
+      const { every, store } = this.snapshots;
+      if (Math.floor(version / every) > Math.floor(expectedVersion / every)) {
+        await store.save({ streamId, version, state: this.type.toSnapshot(aggregate) });
+      }
+    }
+  }
+
+  /** Deletes the stream and its snapshot, so the aggregate cannot be loaded again. */
+  public async delete(id: string): Promise<void> {
+    const streamId = this.streamIdOf(id);
+    await this.snapshots?.store.delete(streamId);
+    await this.eventStore.deleteStream(streamId);
+  }
+}
@@ -0,0 +1,33 @@
+import { ConcurrencyError } from '../errors';
+import type { DomainEvent } from '../events/DomainEvent';
+
+export interface StoredEvent {
+  readonly streamId: string;
+  /** 1-based position of the event within its stream. */
+  readonly streamVersion: number;
+  /** 1-based position of the event across all streams. */
+  readonly globalPosition: number;
+  readonly event: DomainEvent;
+}
+
+/** Expected version of a stream that has never been written to. */
+export const NO_STREAM = 0;
+
+export interface EventStore {
+  /** Appends `events` if the stream is at `expectedVersion`; resolves to the new version. */
+  append(streamId: string, events: DomainEvent[], expectedVersion: number): Promise<number>;
+  readStream(streamId: string, fromVersion?: number): Promise<StoredEvent[]>;
+  readAll(fromPosition?: number, limit?: number): Promise<StoredEvent[]>;
+  /** Removes the stream's events; it can then be re-created from `NO_STREAM`. */
+  deleteStream(streamId: string): Promise<void>;
+}
+
+export class WrongExpectedVersionError extends ConcurrencyError {
+  constructor(streamId: string, expectedVersion: number, actualVersion: number) {
+    super(`Stream ${streamId} is at version ${actualVersion}, expected ${expectedVersion}`, {
+      streamId,
+      expectedVersion,
+      actualVersion,
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import type { DomainEvent } from '../events/DomainEvent';
+import { WrongExpectedVersionError, type EventStore, type StoredEvent } from './EventStore';
+
+export class InMemoryEventStore implements EventStore {
+  private log: StoredEvent[] = [];
+  private readonly versions = new Map<string, number>();
+  private position = 0;
+
+  public async append(
+    streamId: string,
+    events: DomainEvent[],
+    expectedVersion: number,
+  ): Promise<number> {
+    const actualVersion = this.versions.get(streamId) ?? 0;
+    if (actualVersion !== expectedVersion) {
+      throw new WrongExpectedVersionError(streamId, expectedVersion, actualVersion);
+    }
+
+    let version = actualVersion;
+    for (const event of events) {
+      version += 1;
+      this.position += 1;
+      this.log.push({
+        streamId,
+        streamVersion: version,
+        globalPosition: this.position,
+        event,
+      });
+    }
+    this.versions.set(streamId, version);
+    return version;
+  }
+
+  public async readStream(streamId: string, fromVersion = 1): Promise<StoredEvent[]> {
+    return this.log.filter((e) => e.streamId === streamId && e.streamVersion >= fromVersion);
+  }
+
+  public async readAll(fromPosition = 1, limit = Number.POSITIVE_INFINITY): Promise<StoredEvent[]> {
+    return this.log.filter((e) => e.globalPosition >= fromPosition).slice(0, limit);
+  }
+
+  /** Global positions are never reused, so readers past a deleted event are unaffected. */
+  public async deleteStream(streamId: string): Promise<void> {
+    this.log = this.log.filter((e) => e.streamId !== streamId);
+    this.versions.delete(streamId);
+  }
+}
@@ -0,0 +1,75 @@
+import type { DomainEvent } from '../events/DomainEvent';
+import type { Outbox, OutboxMessage } from './Outbox';
+import type { TransactionParticipant } from './UnitOfWork';
+
+export class InMemoryOutbox implements Outbox, TransactionParticipant {
+  private readonly messages = new Map<string, OutboxMessage>();
+
+  public async append(events: DomainEvent[], storedAt: Date): Promise<void> {
+    for (const event of events) {
+      if (this.messages.has(event.eventId)) {
+        continue;
+      }
+      this.messages.set(event.eventId, {
+        id: event.eventId,
+        event,
+        storedAt,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: storedAt,
+      });
+    }
+  }
+
+  public async pending(now: Date, limit: number): Promise<OutboxMessage[]> {
+    return this.all()
+      .filter((m) => m.status === 'pending' && m.nextAttemptAt.getTime() <= now.getTime())
+      .slice(0, limit);
+  }
+
+  public async markProcessed(id: string, processedAt: Date): Promise<void> {
+    const message = this.get(id);
+    message.attempts += 1;
+    message.status = 'processed';
+    message.processedAt = processedAt;
+  }
+
+  public async markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    const message = this.get(id);
+    message.attempts += 1;
+    message.lastError = error;
+    if (nextAttemptAt) {
+      message.nextAttemptAt = nextAttemptAt;
+    } else {
+      message.status = 'dead';
+    }
+  }
+
+  public all(): OutboxMessage[] {
+    return [...this.messages.values()];
+  }
+
+  public savepoint(ids: readonly string[]): () => void {
+    const snapshot = ids.map((id) => {
+      const message = this.messages.get(id);
+      return [id, message && { ...message }] as const;
+    });
+    return () => {
+      for (const [id, message] of snapshot) {
+        if (message) {
+          this.messages.set(id, message);
+        } else {
+          this.messages.delete(id);
+        }
+      }
+    };
+  }
+
+  private get(id: string): OutboxMessage {
+    const message = this.messages.get(id);
+    if (!message) {
+      throw new Error(`Unknown outbox message: ${id}`);
+    }
+    return message;
+  }
+}
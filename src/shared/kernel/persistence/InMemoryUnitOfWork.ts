@@ -0,0 +1,61 @@
+import type { AggregateRoot } from '../domain/AggregateRoot';
+import { Failure } from '../result';
+import type { Clock } from '../time';
+import type { Outbox } from './Outbox';
+import type { TransactionParticipant, UnitOfWork, UnitOfWorkScope } from './UnitOfWork';
+
+interface Tracked {
+  aggregate: AggregateRoot<string>;
+  persist: () => Promise<void>;
+}
+
+/**
+ * Emulates a transaction over in-memory stores: the entries a commit writes in
+ * every participant (and the outbox) are snapshotted first and restored if any
+ * write fails.
+ */
+export class InMemoryUnitOfWork implements UnitOfWork {
+  constructor(
+    private readonly outbox: Outbox & TransactionParticipant,
+    private readonly clock: Clock,
+    private readonly participants: TransactionParticipant[] = [],
+  ) {}
+
+  public async run<T>(work: (scope: UnitOfWorkScope) => Promise<T>): Promise<T> {
+    const tracked: Tracked[] = [];
+    const scope: UnitOfWorkScope = {
+      track: (aggregate, persist) => {
+        if (!tracked.some((t) => t.aggregate === aggregate)) {
+          tracked.push({ aggregate, persist: () => persist(aggregate) });
+        }
+      },
+    };
+
+    const result = await work(scope);
+    if (result instanceof Failure) {
+      return result;
+    }
+
+    await this.commit(tracked);
+    return result;
+  }
+
+  private async commit(tracked: Tracked[]): Promise<void> {
+    const events = tracked.flatMap(({ aggregate }) => aggregate.getDomainEvents());
+    const aggregateIds = tracked.map(({ aggregate }) => aggregate.id);
+    const restores = [
+      this.outbox.savepoint(events.map((event) => event.eventId)),
+      ...this.participants.map((participant) => participant.savepoint(aggregateIds)),
+    ];
+    try {
+      for (const { persist } of tracked) {
+        await persist();
+      }
+      await this.outbox.append(events, this.clock.now());
+    } catch (error) {
+      restores.forEach((restore) => restore());
+      throw error;
+    }
+    tracked.forEach(({ aggregate }) => aggregate.clearDomainEvents());
+  }
+}
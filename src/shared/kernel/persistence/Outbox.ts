@@ -0,0 +1,22 @@
+import type { DomainEvent } from '../events/DomainEvent';
+
+export type OutboxMessageStatus = 'pending' | 'processed' | 'dead';
+
+export interface OutboxMessage {
+  readonly id: string;
+  readonly event: DomainEvent;
+  readonly storedAt: Date;
+  status: OutboxMessageStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  processedAt?: Date;
+  lastError?: string;
+}
+
+export interface Outbox {
+  append(events: DomainEvent[], storedAt: Date): Promise<void>;
+  pending(now: Date, limit: number): Promise<OutboxMessage[]>;
+  markProcessed(id: string, processedAt: Date): Promise<void>;
+  /** Records a failed attempt; a `null` retry time marks the message dead. */
+  markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+}
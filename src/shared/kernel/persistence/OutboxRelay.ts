@@ -0,0 +1,118 @@
+import type { EventBus } from '../events/EventBus';
+import { NoopLogger, type Logger } from '../logger';
+import type { Clock } from '../time';
+import type { Outbox } from './Outbox';
+
+export interface OutboxRelayOptions {
+  batchSize?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  /** Pause between batches once `start` is called. */
+  pollIntervalMs?: number;
+  /** Receives errors from background polls, which are retried on the next one. */
+  logger?: Logger;
+}
+
+export interface RelayReport {
+  processed: number;
+  failed: number;
+  dead: number;
+}
+
+/**
+ * Dispatches stored events to the `EventBus`. A message is marked processed
+ * only after publishing succeeds, so delivery is at-least-once; failures are
+ * retried with exponential backoff until `maxAttempts` is reached. A bus with a
+ * dead-letter store resolves once failing subscribers are dead-lettered, handing
+ * their retries over to `replayDeadLetter`. `start` keeps relaying in the
+ * background until `stop`.
+ */
+export class OutboxRelay {
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly logger: Logger;
+  private polling?: Promise<void>;
+  private stopping = false;
+  private wake?: () => void;
+
+  constructor(
+    private readonly outbox: Outbox,
+    private readonly eventBus: EventBus,
+    private readonly clock: Clock,
+    options: OutboxRelayOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.logger = options.logger ?? new NoopLogger();
+  }
+
+  public start(): void {
+    if (this.polling) {
+      return;
+    }
+    this.stopping = false;
+    this.polling = this.poll();
+  }
+
+  /** Resolves once the batch in flight, if any, has been relayed. */
+  public async stop(): Promise<void> {
+    this.stopping = true;
+    this.wake?.();
+    await this.polling;
+    this.polling = undefined;
+  }
+
+  public async relayPending(): Promise<RelayReport> {
+    const report: RelayReport = { processed: 0, failed: 0, dead: 0 };
+    const messages = await this.outbox.pending(this.clock.now(), this.batchSize);
+
+    for (const message of messages) {
+      try {
+        await this.eventBus.publish(message.event);
+        await this.outbox.markProcessed(message.id, this.clock.now());
+        report.processed += 1;
+      } catch (error) {
+        const attempt = message.attempts + 1;
+        const reason = error instanceof Error ? error.message : String(error);
+        if (attempt >= this.maxAttempts) {
+          await this.outbox.markFailed(message.id, reason, null);
+          report.dead += 1;
+          continue;
+        }
+        const delay = this.baseDelayMs * 2 ** (attempt - 1);
+        await this.outbox.markFailed(message.id, reason, new Date(this.clock.timestamp() + delay));
+        report.failed += 1;
+      }
+    }
+
+    return report;
+  }
+
+  private async poll(): Promise<void> {
+    while (!this.stopping) {
+      try {
+        await this.relayPending();
+      } catch (error) {
+        this.logger.error(
+          'Outbox relay failed',
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+      if (this.stopping) {
+        return;
+      }
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.pollIntervalMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = undefined;
+    }
+  }
+}
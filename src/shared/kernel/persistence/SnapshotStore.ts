@@ -0,0 +1,27 @@
+export interface Snapshot<S> {
+  readonly streamId: string;
+  readonly version: number;
+  readonly state: S;
+}
+
+export interface SnapshotStore<S = unknown> {
+  load(streamId: string): Promise<Snapshot<S> | null>;
+  save(snapshot: Snapshot<S>): Promise<void>;
+  delete(streamId: string): Promise<void>;
+}
+
+export class InMemorySnapshotStore<S = unknown> implements SnapshotStore<S> {
+  private readonly snapshots = new Map<string, Snapshot<S>>();
+
+  public async load(streamId: string): Promise<Snapshot<S> | null> {
+    return this.snapshots.get(streamId) ?? null;
+  }
+
+  public async save(snapshot: Snapshot<S>): Promise<void> {
+    this.snapshots.set(snapshot.streamId, snapshot);
+  }
+
+  public async delete(streamId: string): Promise<void> {
+    this.snapshots.delete(streamId);
+  }
+}
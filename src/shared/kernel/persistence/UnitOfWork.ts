@@ -0,0 +1,29 @@
+import type { AggregateRoot } from '../domain/AggregateRoot';
+
+export interface UnitOfWorkScope {
+  track<A extends AggregateRoot<string>>(
+    aggregate: A,
+    persist: (aggregate: A) => Promise<void>,
+  ): void;
+}
+
+/**
+ * Runs `work` and then persists every tracked aggregate together with its
+ * pending domain events in one step. Nothing is written when `work` throws
+ * or resolves to a `Failure`.
+ */
+export interface UnitOfWork {
+  run<T>(work: (scope: UnitOfWorkScope) => Promise<T>): Promise<T>;
+}
+
+export interface TransactionParticipant {
+  /**
+   * Captures the entries identified by `keys` (the unit of work's write set:
+   * aggregate ids, or event ids for an outbox) and returns a function that
+   * restores only those, so concurrent units of work keep their writes.
+   */
+  savepoint(keys: readonly string[]): () => void;
+}
+
+export const isTransactionParticipant = (value: unknown): value is TransactionParticipant =>
+  typeof (value as Partial<TransactionParticipant> | null)?.savepoint === 'function';
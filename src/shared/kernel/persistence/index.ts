@@ -0,0 +1,9 @@
+export * from './UnitOfWork';
+export * from './Outbox';
+export * from './InMemoryOutbox';
+export * from './InMemoryUnitOfWork';
+export * from './OutboxRelay';
+export * from './EventStore';
+export * from './InMemoryEventStore';
+export * from './SnapshotStore';
+export * from './EventSourcedRepository';
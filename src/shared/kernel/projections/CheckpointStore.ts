@@ -0,0 +1,17 @@
+export interface CheckpointStore {
+  /** Last global position applied by the projection, or 0 if none. */
+  get(projection: string): Promise<number>;
+  set(projection: string, position: number): Promise<void>;
+}
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly positions = new Map<string, number>();
+
+  public async get(projection: string): Promise<number> {
+    return this.positions.get(projection) ?? 0;
+  }
+
+  public async set(projection: string, position: number): Promise<void> {
+    this.positions.set(projection, position);
+  }
+}
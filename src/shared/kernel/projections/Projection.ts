@@ -0,0 +1,9 @@
+import type { DomainEvent } from '../events/DomainEvent';
+
+export interface Projection {
+  readonly name: string;
+  readonly eventTypes: ReadonlyArray<string>;
+  apply(event: DomainEvent): Promise<void>;
+  /** Drops the read model so the projection can be rebuilt from the first event. */
+  reset(): Promise<void>;
+}
@@ -0,0 +1,62 @@
+import type { EventStore } from '../persistence/EventStore';
+import type { CheckpointStore } from './CheckpointStore';
+import type { Projection } from './Projection';
+
+export type EventSource = Pick<EventStore, 'readAll'>;
+
+/**
+ * Feeds projections from the global event log, each from its own checkpoint.
+ * The checkpoint advances after every batch, so a crash replays at most one
+ * batch; projections should therefore apply events idempotently.
+ */
+export class ProjectionEngine {
+  private readonly projections = new Map<string, Projection>();
+
+  constructor(
+    private readonly source: EventSource,
+    private readonly checkpoints: CheckpointStore,
+    private readonly batchSize = 500,
+  ) {}
+
+  public register(projection: Projection): void {
+    if (this.projections.has(projection.name)) {
+      throw new Error(`Projection already registered: ${projection.name}`);
+    }
+    this.projections.set(projection.name, projection);
+  }
+
+  public async catchUp(): Promise<void> {
+    for (const projection of this.projections.values()) {
+      await this.run(projection);
+    }
+  }
+
+  public async rebuild(name: string): Promise<void> {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      throw new Error(`No projection registered: ${name}`);
+    }
+    await projection.reset();
+    await this.checkpoints.set(name, 0);
+    await this.run(projection);
+  }
+
+  private async run(projection: Projection): Promise<void> {
+    const handled = new Set(projection.eventTypes);
+    let position = await this.checkpoints.get(projection.name);
+
+    for (;;) {
+      const batch = await this.source.readAll(position + 1, this.batchSize);
+      if (batch.length === 0) {
+        return;
+      }
+      for (const stored of batch) {
+        if (handled.has(stored.event.eventType)) {
+          await projection.apply(stored.event);
+        }
+        position = stored.globalPosition;
+      }
+      await this.checkpoints.set(projection.name, position);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+export interface ReadModelStore<T> {
+  get(id: string): Promise<T | null>;
+  set(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<T[]>;
+  clear(): Promise<void>;
+}
+
+export class InMemoryReadModelStore<T> implements ReadModelStore<T> {
+  private readonly rows = new Map<string, T>();
+
+  public async get(id: string): Promise<T | null> {
+    return this.rows.get(id) ?? null;
+  }
+
+  public async set(id: string, value: T): Promise<void> {
+    this.rows.set(id, value);
+  }
+
+  public async delete(id: string): Promise<void> {
+    this.rows.delete(id);
+  }
+
+  public async list(): Promise<T[]> {
+    return [...this.rows.values()];
+  }
+
+  public async clear(): Promise<void> {
+    this.rows.clear();
+  }
+}
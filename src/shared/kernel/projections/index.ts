@@ -0,0 +1,4 @@
+export * from './Projection';
+export * from './ReadModelStore';
+export * from './CheckpointStore';
+export * from './ProjectionEngine';
@@ -1,5 +1,10 @@
 export type Result<T, E = Error> = Success<T> | Failure<E>;
 
+export interface ResultMatcher<T, E, U> {
+  success: (value: T) => U;
+  failure: (error: E) => U;
+}
+
 export class Success<T> {
   public readonly isSuccess = true;
   public readonly isFailure = false;
@@ -14,14 +19,36 @@ export class Success<T> {
     return fn(this.value);
   }
 
+  /** Alias of `flatMap`, matching `ResultAsync`. */
+  public andThen<U, F>(fn: (value: T) => Result<U, F>): Result<U, F> {
+    return fn(this.value);
+  }
+
   public mapError<F>(_fn: (error: never) => F): Result<T, F> {
     return this as unknown as Result<T, F>;
   }
 
+  public orElse<U, F>(_fn: (error: never) => Result<U, F>): Result<T, never> {
+    return this;
+  }
+
+  public tap(fn: (value: T) => void): this {
+    fn(this.value);
+    return this;
+  }
+
+  public tapError(_fn: (error: never) => void): this {
+    return this;
+  }
+
   public fold<U>(onSuccess: (value: T) => U, _onFailure: (error: never) => U): U {
     return onSuccess(this.value);
   }
 
+  public match<U>(matcher: ResultMatcher<T, never, U>): U {
+    return matcher.success(this.value);
+  }
+
   public getOrThrow(): T {
     return this.value;
   }
@@ -45,14 +72,35 @@ export class Failure<E> {
     return this as unknown as Result<U, E>;
   }
 
+  public andThen<U, F>(_fn: (value: never) => Result<U, F>): Result<U, E> {
+    return this as unknown as Result<U, E>;
+  }
+
   public mapError<F>(fn: (error: E) => F): Result<never, F> {
     return new Failure(fn(this.error));
   }
 
+  public orElse<U, F>(fn: (error: E) => Result<U, F>): Result<U, F> {
+    return fn(this.error);
+  }
+
+  public tap(_fn: (value: never) => void): this {
+    return this;
+  }
+
+  public tapError(fn: (error: E) => void): this {
+    fn(this.error);
+    return this;
+  }
+
   public fold<U>(_onSuccess: (value: never) => U, onFailure: (error: E) => U): U {
     return onFailure(this.error);
   }
 
+  public match<U>(matcher: ResultMatcher<never, E, U>): U {
+    return matcher.failure(this.error);
+  }
+
   public getOrThrow(): never {
     throw this.error;
   }
@@ -64,3 +112,58 @@ export class Failure<E> {
 
 export const success = <T>(value: T): Success<T> => new Success(value);
 export const failure = <E>(error: E): Failure<E> => new Failure(error);
+
+export const isSuccess = <T, E>(result: Result<T, E>): result is Success<T> => result.isSuccess;
+export const isFailure = <T, E>(result: Result<T, E>): result is Failure<E> => result.isFailure;
+
+export type SuccessValue<R> = R extends Success<infer T> ? T : never;
+export type FailureError<R> = R extends Failure<infer E> ? E : never;
+
+export type SuccessValues<R extends readonly Result<unknown, unknown>[]> = {
+  -readonly [K in keyof R]: SuccessValue<R[K]>;
+};
+export type FailureErrors<R extends readonly Result<unknown, unknown>[]> = FailureError<R[number]>;
+
+/** All values if every result succeeded, otherwise the first failure. */
+export const combine = <const R extends readonly Result<unknown, unknown>[]>(
+  results: R,
+): Result<SuccessValues<R>, FailureErrors<R>> => {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (result.isFailure) {
+      return result as Failure<FailureErrors<R>>;
+    }
+    values.push(result.value);
+  }
+  return success(values as SuccessValues<R>);
+};
+
+/** All values if every result succeeded, otherwise every error in order. */
+export const combineWithAllErrors = <const R extends readonly Result<unknown, unknown>[]>(
+  results: R,
+): Result<SuccessValues<R>, FailureErrors<R>[]> => {
+  const errors = results.filter(isFailure).map((result) => result.error as FailureErrors<R>);
+  if (errors.length > 0) {
+    return failure(errors);
+  }
+  return success(results.map((result) => (result as Success<unknown>).value) as SuccessValues<R>);
+};
+
+/** Runs `fn`, turning anything it throws into a failure via `mapError`. */
+export const tryCatch = <T, E>(fn: () => T, mapError: (thrown: unknown) => E): Result<T, E> => {
+  try {
+    return success(fn());
+  } catch (thrown) {
+    return failure(mapError(thrown));
+  }
+};
+
+export const Result = {
+  success,
+  failure,
+  isSuccess,
+  isFailure,
+  combine,
+  all: combineWithAllErrors,
+  tryCatch,
+} as const;
@@ -0,0 +1,176 @@
+import {
+  failure,
+  success,
+  type Failure,
+  type FailureError,
+  type FailureErrors,
+  type Result,
+  type ResultMatcher,
+  type SuccessValue,
+  type SuccessValues,
+} from './Result';
+
+type Awaitable<T> = T | Promise<T>;
+type ResultLike<T, E> = Result<T, E> | ResultAsync<T, E> | Promise<Result<T, E>>;
+type ValueOf<R> = SuccessValue<Awaited<R>>;
+type ErrorOf<R> = FailureError<Awaited<R>>;
+
+/**
+ * A `Promise<Result<T, E>>` with the `Result` combinators, so async steps can be
+ * chained without unwrapping. Awaiting it yields the underlying `Result`.
+ * Callbacks that throw reject the promise; use `fromPromise` to capture errors.
+ */
+export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
+  private readonly promise: Promise<Result<T, E>>;
+
+  constructor(promise: Promise<Result<T, E>>) {
+    this.promise = promise;
+  }
+
+  public static from<T, E>(result: ResultLike<T, E>): ResultAsync<T, E> {
+    return result instanceof ResultAsync ? result : new ResultAsync(Promise.resolve(result));
+  }
+
+  /** Resolves to a success, or to `mapError(reason)` if the promise rejects. */
+  public static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (thrown: unknown) => E,
+  ): ResultAsync<T, E> {
+    return new ResultAsync(
+      Promise.resolve(promise).then(
+        (value) => success(value),
+        (thrown: unknown) => failure(mapError(thrown)),
+      ),
+    );
+  }
+
+  /** For promises that cannot reject, or whose rejection should stay a rejection. */
+  public static fromSafePromise<T, E = never>(promise: PromiseLike<T>): ResultAsync<T, E> {
+    return new ResultAsync(Promise.resolve(promise).then((value) => success(value)));
+  }
+
+  public static combine<const R extends readonly ResultAsync<unknown, unknown>[]>(
+    results: R,
+  ): ResultAsync<AsyncSuccessValues<R>, AsyncFailureErrors<R>> {
+    return new ResultAsync(
+      Promise.all(results).then((settled) => {
+        const values: unknown[] = [];
+        for (const result of settled) {
+          if (result.isFailure) {
+            return result as Failure<AsyncFailureErrors<R>>;
+          }
+          values.push(result.value);
+        }
+        return success(values as AsyncSuccessValues<R>);
+      }),
+    );
+  }
+
+  public static all<const R extends readonly ResultAsync<unknown, unknown>[]>(
+    results: R,
+  ): ResultAsync<AsyncSuccessValues<R>, AsyncFailureErrors<R>[]> {
+    return new ResultAsync(
+      Promise.all(results).then((settled) => {
+        const errors = settled.flatMap((result) =>
+          result.isFailure ? [result.error as AsyncFailureErrors<R>] : [],
+        );
+        if (errors.length > 0) {
+          return failure(errors);
+        }
+        const values = settled.map((result) => (result.isSuccess ? result.value : undefined));
+        return success(values as AsyncSuccessValues<R>);
+      }),
+    );
+  }
+
+  public map<U>(fn: (value: T) => Awaitable<U>): ResultAsync<U, E> {
+    return this.chain(
+      async (value) => success(await fn(value)),
+      async (error) => failure(error),
+    );
+  }
+
+  public mapError<F>(fn: (error: E) => Awaitable<F>): ResultAsync<T, F> {
+    return this.chain(
+      async (value) => success(value),
+      async (error) => failure(await fn(error)),
+    );
+  }
+
+  public andThen<R extends ResultLike<unknown, unknown>>(
+    fn: (value: T) => R,
+  ): ResultAsync<ValueOf<R>, E | ErrorOf<R>> {
+    return this.chain<ValueOf<R>, E | ErrorOf<R>>(
+      (value) => Promise.resolve(fn(value)) as Promise<Result<ValueOf<R>, ErrorOf<R>>>,
+      async (error) => failure(error),
+    );
+  }
+
+  public orElse<R extends ResultLike<unknown, unknown>>(
+    fn: (error: E) => R,
+  ): ResultAsync<T | ValueOf<R>, ErrorOf<R>> {
+    return this.chain<T | ValueOf<R>, ErrorOf<R>>(
+      async (value) => success(value),
+      (error) => Promise.resolve(fn(error)) as Promise<Result<ValueOf<R>, ErrorOf<R>>>,
+    );
+  }
+
+  public tap(fn: (value: T) => Awaitable<void>): ResultAsync<T, E> {
+    return this.chain(
+      async (value) => {
+        await fn(value);
+        return success(value);
+      },
+      async (error) => failure(error),
+    );
+  }
+
+  public tapError(fn: (error: E) => Awaitable<void>): ResultAsync<T, E> {
+    return this.chain(
+      async (value) => success(value),
+      async (error) => {
+        await fn(error);
+        return failure(error);
+      },
+    );
+  }
+
+  public match<U>(matcher: ResultMatcher<T, E, Awaitable<U>>): Promise<U> {
+    return this.promise.then((result) =>
+      result.isSuccess ? matcher.success(result.value) : matcher.failure(result.error),
+    );
+  }
+
+  public then<A = Result<T, E>, B = never>(
+    onFulfilled?: ((result: Result<T, E>) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): Promise<A | B> {
+    return this.promise.then(onFulfilled, onRejected);
+  }
+
+  private chain<U, F>(
+    onSuccess: (value: T) => Promise<Result<U, F>>,
+    onFailure: (error: E) => Promise<Result<U, F>>,
+  ): ResultAsync<U, F> {
+    return new ResultAsync(
+      this.promise.then((result) =>
+        result.isSuccess ? onSuccess(result.value) : onFailure(result.error),
+      ),
+    );
+  }
+}
+
+type AsyncSuccessValues<R extends readonly ResultAsync<unknown, unknown>[]> = SuccessValues<{
+  -readonly [K in keyof R]: Awaited<R[K]>;
+}>;
+type AsyncFailureErrors<R extends readonly ResultAsync<unknown, unknown>[]> = FailureErrors<{
+  -readonly [K in keyof R]: Awaited<R[K]>;
+}>;
+
+export const successAsync = <T, E = never>(value: T): ResultAsync<T, E> =>
+  new ResultAsync(Promise.resolve(success(value)));
+
+export const failureAsync = <T = never, E = unknown>(error: E): ResultAsync<T, E> =>
+  new ResultAsync(Promise.resolve(failure(error)));
+
+export const fromPromise = ResultAsync.fromPromise;
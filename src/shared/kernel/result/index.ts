@@ -1 +1,2 @@
 export * from './Result';
+export * from './ResultAsync';
@@ -1,8 +1,14 @@
 export interface Clock {
   now(): Date;
   timestamp(): number;
+  /** Lets test clocks advance instead of waiting; see `sleep`. */
+  sleep?(ms: number): Promise<void>;
 }
 
+/** Waits `ms` through the clock when it can sleep, otherwise on a timer. */
+export const sleep = (ms: number, clock?: Clock): Promise<void> =>
+  clock?.sleep ? clock.sleep(ms) : new Promise((resolve) => setTimeout(resolve, ms));
+
 export class SystemClock implements Clock {
   public now(): Date {
     return new Date();
@@ -11,6 +17,10 @@ export class SystemClock implements Clock {
   public timestamp(): number {
     return Date.now();
   }
+
+  public sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
 }
 
 export class FixedClock implements Clock {
@@ -23,4 +33,32 @@ export class FixedClock implements Clock {
   public timestamp(): number {
     return this.fixedDate.getTime();
   }
+
+  public async sleep(_ms: number): Promise<void> {
+    // time never moves
+  }
+}
+
+export class ManualClock implements Clock {
+  private current: number;
+
+  constructor(start: Date) {
+    this.current = start.getTime();
+  }
+
+  public now(): Date {
+    return new Date(this.current);
+  }
+
+  public timestamp(): number {
+    return this.current;
+  }
+
+  public advance(ms: number): void {
+    this.current += ms;
+  }
+
+  public async sleep(ms: number): Promise<void> {
+    this.advance(ms);
+  }
 }
@@ -0,0 +1,39 @@
+import { trace } from '@opentelemetry/api';
+import { childLogger, type LogContext, type Logger } from '../logger';
+
+/**
+ * Fills `traceId`/`spanId` from the active span before delegating, unless
+ * the caller already set them.
+ */
+export class TraceContextLogger implements Logger {
+  constructor(private readonly inner: Logger) {}
+
+  public debug(message: string, context?: LogContext): void {
+    this.inner.debug(message, this.withTrace(context));
+  }
+
+  public info(message: string, context?: LogContext): void {
+    this.inner.info(message, this.withTrace(context));
+  }
+
+  public warn(message: string, context?: LogContext): void {
+    this.inner.warn(message, this.withTrace(context));
+  }
+
+  public error(message: string, error?: Error, context?: LogContext): void {
+    this.inner.error(message, error, this.withTrace(context));
+  }
+
+  public child(bindings: LogContext): Logger {
+    return new TraceContextLogger(childLogger(this.inner, bindings));
+  }
+
+  private withTrace(context?: LogContext): LogContext | undefined {
+    const span = trace.getActiveSpan();
+    if (!span) {
+      return context;
+    }
+    const { traceId, spanId } = span.spanContext();
+    return { traceId, spanId, ...context };
+  }
+}
@@ -0,0 +1,84 @@
+import { trace, type Link, type Tracer } from '@opentelemetry/api';
+import type { DomainEvent } from '../events/DomainEvent';
+import {
+  handlerNameOf,
+  type EventBus,
+  type EventHandler,
+  type SubscribeOptions,
+} from '../events/EventBus';
+import { recordError } from './recordError';
+import { TRACEPARENT_HEADER, fromTraceparent } from './traceparent';
+import { stampActiveSpan } from './TracingOutbox';
+import {
+  KERNEL_TRACER_NAME,
+  MESSAGE_ID_ATTRIBUTE,
+  MESSAGE_KIND_ATTRIBUTE,
+  MESSAGE_TYPE_ATTRIBUTE,
+} from './TracingMiddleware';
+
+export const EVENT_HANDLER_ATTRIBUTE = 'modulith.event.handler';
+
+/**
+ * Decorates an `EventBus` so every subscriber runs in its own span named
+ * after the `eventType`. The span named by the event's `traceparent` header
+ * (usually the command that raised it) is attached as a link; events that
+ * arrive without one are stamped with the span active when they are published.
+ */
+export class TracingEventBus implements EventBus {
+  constructor(
+    private readonly inner: EventBus,
+    private readonly tracer: Tracer = trace.getTracer(KERNEL_TRACER_NAME),
+  ) {}
+
+  public async publish(event: DomainEvent): Promise<void> {
+    await this.inner.publish(stampActiveSpan(event));
+  }
+
+  public async publishAll(events: DomainEvent[]): Promise<void> {
+    await this.inner.publishAll(events.map(stampActiveSpan));
+  }
+
+  public subscribe<T extends DomainEvent>(
+    eventType: string,
+    handler: EventHandler<T>,
+    options: SubscribeOptions = {},
+  ): void {
+    const name = options.name ?? handlerNameOf(handler as EventHandler);
+    this.inner.subscribe<T>(
+      eventType,
+      { handle: (event) => this.trace(event, handler, name ?? 'anonymous') },
+      { ...options, name },
+    );
+  }
+
+  private trace<T extends DomainEvent>(
+    event: T,
+    handler: EventHandler<T>,
+    handlerName: string,
+  ): Promise<void> {
+    const raisedIn = fromTraceparent(event.headers?.[TRACEPARENT_HEADER]);
+    const links: Link[] = raisedIn ? [{ context: raisedIn }] : [];
+    return this.tracer.startActiveSpan(
+      event.eventType,
+      {
+        links,
+        attributes: {
+          [MESSAGE_KIND_ATTRIBUTE]: 'event',
+          [MESSAGE_TYPE_ATTRIBUTE]: event.eventType,
+          [MESSAGE_ID_ATTRIBUTE]: event.eventId,
+          [EVENT_HANDLER_ATTRIBUTE]: handlerName,
+        },
+      },
+      async (span) => {
+        try {
+          await handler.handle(event);
+        } catch (error) {
+          recordError(span, error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { trace, type Tracer } from '@opentelemetry/api';
+import type { DispatchContext, Message, Middleware, Next } from '../bus/middleware';
+import { Failure } from '../result';
+import { recordError } from './recordError';
+
+export const KERNEL_TRACER_NAME = 'modulith-dx/kernel';
+
+export const MESSAGE_KIND_ATTRIBUTE = 'modulith.message.kind';
+export const MESSAGE_TYPE_ATTRIBUTE = 'modulith.message.type';
+export const MESSAGE_ID_ATTRIBUTE = 'modulith.message.id';
+
+/**
+ * Opens one span per dispatched command or query, named after its
+ * `commandType`/`queryType`. Thrown errors and returned `Failure`s mark
+ * the span as errored.
+ */
+export class TracingMiddleware implements Middleware {
+  constructor(private readonly tracer: Tracer = trace.getTracer(KERNEL_TRACER_NAME)) {}
+
+  public handle(_message: Message, context: DispatchContext, next: Next): Promise<unknown> {
+    return this.tracer.startActiveSpan(
+      context.messageType,
+      {
+        attributes: {
+          [MESSAGE_KIND_ATTRIBUTE]: context.kind,
+          [MESSAGE_TYPE_ATTRIBUTE]: context.messageType,
+          [MESSAGE_ID_ATTRIBUTE]: context.messageId,
+        },
+      },
+      async (span) => {
+        try {
+          const result = await next();
+          if (result instanceof Failure) {
+            recordError(span, result.error);
+          }
+          return result;
+        } catch (error) {
+          recordError(span, error);
+          throw error;
+        } finally {
+          span.end();
+        }
+      },
+    );
+  }
+}
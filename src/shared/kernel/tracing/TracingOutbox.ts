@@ -0,0 +1,44 @@
+import { trace } from '@opentelemetry/api';
+import { withEventHeaders, type DomainEvent } from '../events/DomainEvent';
+import type { Outbox, OutboxMessage } from '../persistence/Outbox';
+import type { TransactionParticipant } from '../persistence/UnitOfWork';
+import { TRACEPARENT_HEADER, toTraceparent } from './traceparent';
+
+/**
+ * Decorates an `Outbox` so events stored while a span is active carry its
+ * `traceparent` header, which survives serialization and later relaying.
+ */
+export class TracingOutbox implements Outbox, TransactionParticipant {
+  constructor(private readonly inner: Outbox & TransactionParticipant) {}
+
+  public append(events: DomainEvent[], storedAt: Date): Promise<void> {
+    return this.inner.append(events.map(stampActiveSpan), storedAt);
+  }
+
+  public pending(now: Date, limit: number): Promise<OutboxMessage[]> {
+    return this.inner.pending(now, limit);
+  }
+
+  public markProcessed(id: string, processedAt: Date): Promise<void> {
+    return this.inner.markProcessed(id, processedAt);
+  }
+
+  public markFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    return this.inner.markFailed(id, error, nextAttemptAt);
+  }
+
+  public savepoint(keys: readonly string[]): () => void {
+    return this.inner.savepoint(keys);
+  }
+}
+
+/**
+ * A copy of the event naming the active span, unless there is none or the event
+ * already names where it was raised.
+ */
+export const stampActiveSpan = <E extends DomainEvent>(event: E): E => {
+  const active = trace.getActiveSpan();
+  return active && !event.headers?.[TRACEPARENT_HEADER]
+    ? withEventHeaders(event, { [TRACEPARENT_HEADER]: toTraceparent(active.spanContext()) })
+    : event;
+};
@@ -0,0 +1,6 @@
+export * from './recordError';
+export * from './TracingMiddleware';
+export * from './TracingEventBus';
+export * from './TraceContextLogger';
+export * from './TracingOutbox';
+export * from './traceparent';
@@ -0,0 +1,15 @@
+import { SpanStatusCode, type Span } from '@opentelemetry/api';
+import { ApplicationError, DomainError } from '../errors';
+
+export const ERROR_CODE_ATTRIBUTE = 'error.code';
+export const ERROR_TYPE_ATTRIBUTE = 'error.type';
+
+export const recordError = (span: Span, error: unknown): void => {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setAttribute(ERROR_TYPE_ATTRIBUTE, exception.name);
+  if (exception instanceof ApplicationError || exception instanceof DomainError) {
+    span.setAttribute(ERROR_CODE_ATTRIBUTE, exception.code);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+};
@@ -0,0 +1,24 @@
+import { TraceFlags, isSpanContextValid, type SpanContext } from '@opentelemetry/api';
+
+export const TRACEPARENT_HEADER = 'traceparent';
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/** Formats a span context as a W3C `traceparent` header value. */
+export const toTraceparent = ({ traceId, spanId, traceFlags }: SpanContext): string =>
+  `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+
+/** Parses a W3C `traceparent`; returns `undefined` for anything malformed. */
+export const fromTraceparent = (value: string | undefined): SpanContext | undefined => {
+  const match = value ? TRACEPARENT_PATTERN.exec(value) : null;
+  if (!match) {
+    return undefined;
+  }
+  const context: SpanContext = {
+    traceId: match[1] as string,
+    spanId: match[2] as string,
+    traceFlags: parseInt(match[3] as string, 16) & TraceFlags.SAMPLED,
+    isRemote: true,
+  };
+  return isSpanContextValid(context) ? context : undefined;
+};
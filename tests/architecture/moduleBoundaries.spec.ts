@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { analyzeDependencies, collectSources } from '../../scripts/architecture/moduleGraph';
+
+describe('module boundaries', () => {
+  const rootDir = fileURLToPath(new URL('../..', import.meta.url));
+  const report = analyzeDependencies(collectSources(rootDir));
+
+  it('should find the contexts and the shared kernel', () => {
+    expect(report.nodes.map((node) => node.id)).toEqual(
+      expect.arrayContaining(['example.domain', 'example.application', 'shared.kernel']),
+    );
+  });
+
+  it('should have no layer or cross-context violations', () => {
+    expect(report.violations).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InMemoryQueryBus } from '@shared/kernel/bus';
+import { InMemoryEventStore } from '@shared/kernel/persistence';
+import {
+  InMemoryCheckpointStore,
+  InMemoryReadModelStore,
+  ProjectionEngine,
+} from '@shared/kernel/projections';
+import { User } from '@core/example/domain/entities/User';
+import { UserDeleted } from '@core/example/domain/events';
+import { createEmail, type Email } from '@core/example/domain/valueObjects/Email';
+import { EventSourcedUserRepository } from '@core/example/infrastructure/adapters/EventSourcedUserRepository';
+import {
+  UserDirectoryProjection,
+  type UserDirectoryEntry,
+} from '@core/example/application/projections';
+import {
+  LIST_USERS,
+  ListUsersQueryHandler,
+} from '@core/example/application/queries';
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+const changedAt = new Date('2026-01-05T00:00:00Z');
+
+describe('UserDirectoryProjection', () => {
+  let repository: EventSourcedUserRepository;
+  let directory: InMemoryReadModelStore<UserDirectoryEntry>;
+  let checkpoints: InMemoryCheckpointStore;
+  let engine: ProjectionEngine;
+  let queryBus: InMemoryQueryBus;
+
+  const listUsers = (activeOnly?: boolean): Promise<UserDirectoryEntry[]> =>
+    queryBus.execute({
+      queryId: 'q-1',
+      queryType: LIST_USERS,
+      activeOnly,
+    });
+
+  beforeEach(() => {
+    const eventStore = new InMemoryEventStore();
+    repository = new EventSourcedUserRepository(eventStore);
+    directory = new InMemoryReadModelStore<UserDirectoryEntry>();
+    checkpoints = new InMemoryCheckpointStore();
+    engine = new ProjectionEngine(eventStore, checkpoints, 2);
+    engine.register(new UserDirectoryProjection(directory));
+    queryBus = new InMemoryQueryBus();
+    queryBus.register(LIST_USERS, new ListUsersQueryHandler(directory));
+  });
+
+  it('should answer ListUsers from the projected read model', async () => {
+    const alice = User.create(email('alice@example.com'), new Date('2026-01-01T00:00:00Z'));
+    const bob = User.create(email('bob@example.com'), new Date('2026-01-02T00:00:00Z'));
+    await repository.save(alice);
+    await repository.save(bob);
+    bob.deactivate(changedAt);
+    alice.changeEmail(email('alice@corp.example.com'), changedAt);
+    await repository.save(bob);
+    await repository.save(alice);
+
+    await engine.catchUp();
+
+    expect((await listUsers()).map((u) => [u.email, u.isActive])).toEqual([
+      ['alice@corp.example.com', true],
+      ['bob@example.com', false],
+    ]);
+    expect((await listUsers(true)).map((u) => u.id)).toEqual([alice.id]);
+    expect(await checkpoints.get('example.UserDirectory')).toBe(4);
+  });
+
+  it('should only apply new events on subsequent catch-ups', async () => {
+    const alice = User.create(email('alice@example.com'));
+    await repository.save(alice);
+    await engine.catchUp();
+    const entry = await directory.get(alice.id);
+    if (!entry) throw new Error('Expected projected user');
+    await directory.set(alice.id, { ...entry, email: 'stale' });
+
+    alice.deactivate(changedAt);
+    await repository.save(alice);
+    await engine.catchUp();
+
+    expect(await directory.get(alice.id)).toMatchObject({ email: 'stale', isActive: false });
+  });
+
+  it('should rebuild the read model from scratch', async () => {
+    const alice = User.create(email('alice@example.com'));
+    await repository.save(alice);
+    await engine.catchUp();
+    await directory.clear();
+    await directory.set('ghost', {
+      id: 'ghost',
+      email: 'ghost@example.com',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    await engine.rebuild('example.UserDirectory');
+
+    expect((await listUsers()).map((u) => u.email)).toEqual(['alice@example.com']);
+  });
+
+  it('should drop deleted users from the read model', async () => {
+    const alice = User.create(email('alice@example.com'));
+    await repository.save(alice);
+    await engine.catchUp();
+
+    await new UserDirectoryProjection(directory).apply(new UserDeleted(alice.id, changedAt));
+
+    expect(await listUsers()).toEqual([]);
+  });
+});
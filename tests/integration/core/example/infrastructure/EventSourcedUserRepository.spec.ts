@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { EventSourcedUserRepository } from '@core/example/infrastructure/adapters/EventSourcedUserRepository';
+import { User, type UserProps } from '@core/example/domain/entities/User';
+import { createEmail, type Email } from '@core/example/domain/valueObjects/Email';
+import { ActiveUserSpecification } from '@core/example/domain/policies/UserSpecifications';
+import {
+  InMemoryEventStore,
+  InMemorySnapshotStore,
+  NO_STREAM,
+  WrongExpectedVersionError,
+} from '@shared/kernel/persistence';
+import { describeUserRepositoryContract } from './userRepositoryContract';
+
+describeUserRepositoryContract('EventSourcedUserRepository', async () => ({
+  repository: new EventSourcedUserRepository(new InMemoryEventStore(), {
+    store: new InMemorySnapshotStore<UserProps>(),
+    every: 2,
+  }),
+}));
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+const changedAt = new Date('2026-01-05T00:00:00Z');
+
+describe('EventSourcedUserRepository', () => {
+  let eventStore: InMemoryEventStore;
+  let snapshots: InMemorySnapshotStore<UserProps>;
+  let repository: EventSourcedUserRepository;
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    snapshots = new InMemorySnapshotStore<UserProps>();
+    repository = new EventSourcedUserRepository(eventStore, { store: snapshots, every: 3 });
+  });
+
+  it('should rebuild a user from its event stream', async () => {
+    const user = User.create(email('a@example.com'), new Date('2026-01-04T00:00:00Z'));
+    await repository.save(user);
+    user.changeEmail(email('b@example.com'), changedAt);
+    user.deactivate(changedAt);
+    await repository.save(user);
+
+    const loaded = await repository.findById(user.id);
+
+    expect(loaded?.id).toBe(user.id);
+    expect(loaded?.email).toBe('b@example.com');
+    expect(loaded?.isActive).toBe(false);
+    expect(loaded?.createdAt).toEqual(new Date('2026-01-04T00:00:00Z'));
+    expect(loaded?.getDomainEvents()).toEqual([]);
+    const stream = await eventStore.readStream(`example.User-${user.id}`);
+    expect(stream.map((e) => e.streamVersion)).toEqual([1, 2, 3]);
+  });
+
+  it('should snapshot every N events and load from the snapshot', async () => {
+    const user = User.create(email('a@example.com'));
+    user.deactivate(changedAt);
+    await repository.save(user);
+    expect(await snapshots.load(`example.User-${user.id}`)).toBeNull();
+
+    user.activate(changedAt);
+    user.changeEmail(email('c@example.com'), changedAt);
+    await repository.save(user);
+
+    expect(await snapshots.load(`example.User-${user.id}`)).toMatchObject({
+      version: 4,
+      state: { email: 'c@example.com', isActive: true },
+    });
+    const loaded = await repository.findById(user.id);
+    expect(loaded?.email).toBe('c@example.com');
+    expect(loaded?.isActive).toBe(true);
+  });
+
+  it('should reject saving a stale copy', async () => {
+    const user = User.create(email('a@example.com'));
+    await repository.save(user);
+    const first = await repository.findById(user.id);
+    const second = await repository.findById(user.id);
+    if (!first || !second) throw new Error('Expected user');
+
+    first.deactivate(changedAt);
+    await repository.save(first);
+    second.changeEmail(email('b@example.com'), changedAt);
+
+    await expect(repository.save(second)).rejects.toBeInstanceOf(WrongExpectedVersionError);
+  });
+
+  it('should find by email and forget deleted users', async () => {
+    const user = User.create(email('a@example.com'));
+    await repository.save(user);
+    user.changeEmail(email('b@example.com'), changedAt);
+    await repository.save(user);
+
+    expect(await repository.findByEmail(email('a@example.com'))).toBeNull();
+    expect((await repository.findByEmail(email('b@example.com')))?.id).toBe(user.id);
+
+    await repository.delete(user.id);
+
+    expect(await repository.findById(user.id)).toBeNull();
+    expect(await repository.findByEmail(email('b@example.com'))).toBeNull();
+  });
+
+  it('should not load a deleted user from its snapshot', async () => {
+    const user = User.create(email('a@example.com'));
+    user.deactivate(changedAt);
+    user.activate(changedAt);
+    await repository.save(user);
+    expect(await snapshots.load(`example.User-${user.id}`)).not.toBeNull();
+
+    await repository.delete(user.id);
+
+    expect(await snapshots.load(`example.User-${user.id}`)).toBeNull();
+    expect(await repository.findById(user.id)).toBeNull();
+    expect(await repository.findMatching(new ActiveUserSpecification())).toEqual([]);
+  });
+
+  it('should let a deleted stream be created again without its old events', async () => {
+    const user = User.create(email('a@example.com'));
+    user.deactivate(changedAt);
+    await repository.save(user);
+    await repository.delete(user.id);
+    const streamId = `example.User-${user.id}`;
+
+    const recreated = User.create(email('a@example.com'));
+    await eventStore.append(streamId, [...recreated.getDomainEvents()], NO_STREAM);
+
+    expect((await eventStore.readStream(streamId)).map((e) => e.event)).toEqual(
+      recreated.getDomainEvents(),
+    );
+    expect(await eventStore.readAll()).toHaveLength(1);
+  });
+});
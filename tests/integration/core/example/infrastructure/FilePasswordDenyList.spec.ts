@@ -0,0 +1,37 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  loadPasswordDenyList,
+  loadPasswordPolicy,
+} from '@core/example/infrastructure/adapters/FilePasswordDenyList';
+
+describe('FilePasswordDenyList', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'deny-list-'));
+    path = join(dir, 'common-passwords.txt');
+    await writeFile(path, '# common passwords\nPassword123!\n\n  Welcome2024!  \r\n');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read one entry per line, skipping blanks and comments', async () => {
+    expect(await loadPasswordDenyList(path)).toEqual(['Password123!', 'Welcome2024!']);
+  });
+
+  it('should build a policy rejecting passwords from the file', async () => {
+    const policy = await loadPasswordPolicy({ denyListPath: path, minLength: 10 });
+
+    const result = policy.validate('WelCome2024!');
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error.violations.map((v) => v.rule)).toEqual(['notCommon']);
+    expect(policy.validate('Str0nger!Pass').isSuccess).toBe(true);
+  });
+});
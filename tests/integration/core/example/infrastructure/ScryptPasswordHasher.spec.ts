@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import { createPasswordHash, type PasswordHash } from '@core/example/domain/valueObjects/PasswordHash';
+
+describe('ScryptPasswordHasher', () => {
+  const hasher = new ScryptPasswordHasher({ logCost: 4 });
+
+  it('should produce salted PHC strings encoding the parameters', async () => {
+    const first = await hasher.hash('Correct-Horse-1!');
+    const second = await hasher.hash('Correct-Horse-1!');
+
+    expect(first).toMatch(/^\$scrypt\$ln=4,r=8,p=1\$[A-Za-z0-9+/]+\$[A-Za-z0-9+/]+$/);
+    expect(first).not.toBe(second);
+    expect(createPasswordHash(first).isSuccess).toBe(true);
+  });
+
+  it('should verify only the original password', async () => {
+    const hash = await hasher.hash('Correct-Horse-1!');
+    const foreign = '$argon2id$v=19$c2FsdA$a2V5' as PasswordHash;
+
+    expect(await hasher.verify('Correct-Horse-1!', hash)).toBe(true);
+    expect(await hasher.verify('correct-horse-1!', hash)).toBe(false);
+    expect(await hasher.verify('Correct-Horse-1!', foreign)).toBe(false);
+  });
+
+  it('should reject stored hashes with out-of-range parameters instead of throwing', async () => {
+    const [, , , salt, key] = (await hasher.hash('Correct-Horse-1!')).split('$');
+    const withParams = (params: string) => `$scrypt$${params}$${salt}$${key}` as PasswordHash;
+
+    for (const params of ['ln=0,r=8,p=1', 'ln=40,r=8,p=1', 'ln=4,r=0,p=1', 'ln=4,r=8,p=0']) {
+      expect(await hasher.verify('Correct-Horse-1!', withParams(params))).toBe(false);
+      expect(hasher.needsRehash(withParams(params))).toBe(true);
+    }
+  });
+
+  it('should keep verifying hashes made with older parameters', async () => {
+    const hash = await hasher.hash('Correct-Horse-1!');
+    const upgraded = new ScryptPasswordHasher({ logCost: 5, keyLength: 64 });
+
+    expect(await upgraded.verify('Correct-Horse-1!', hash)).toBe(true);
+    expect(upgraded.needsRehash(hash)).toBe(true);
+    expect(hasher.needsRehash(hash)).toBe(false);
+  });
+});
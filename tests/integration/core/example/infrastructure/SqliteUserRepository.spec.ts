@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { SqliteUserRepository } from '@core/example/infrastructure/adapters/SqliteUserRepository';
+import { User } from '@core/example/domain/entities/User';
+import { EmailCanonicalizer, createEmail } from '@core/example/domain/valueObjects/Email';
+import {
+  migrate,
+  userMigrations,
+  userSpecificationToSql,
+} from '@core/example/infrastructure/adapters/sqlite';
+import {
+  ActiveUserSpecification,
+  EmailDomainSpecification,
+} from '@core/example/domain/policies/UserSpecifications';
+import { specification } from '@shared/kernel/domain';
+import { InMemoryOutbox, InMemoryUnitOfWork } from '@shared/kernel/persistence';
+import { FixedClock } from '@shared/kernel/time';
+import { describeUserRepositoryContract } from './userRepositoryContract';
+
+// node:sqlite ships with Node 22.5+; older runtimes skip these suites.
+const sqliteAvailable = await import('node:sqlite').then(
+  () => true,
+  () => false,
+);
+
+const openTemporary = async (): Promise<{ path: string; dir: string }> => {
+  const dir = await mkdtemp(join(tmpdir(), 'modulith-users-'));
+  return { dir, path: join(dir, 'users.db') };
+};
+
+describeUserRepositoryContract(
+  'SqliteUserRepository',
+  async () => {
+    const { dir, path } = await openTemporary();
+    const repository = await SqliteUserRepository.open(path);
+    return {
+      repository,
+      cleanup: async () => {
+        repository.close();
+        await rm(dir, { recursive: true, force: true });
+      },
+    };
+  },
+  { skip: !sqliteAvailable },
+);
+
+describe.skipIf(!sqliteAvailable)('SqliteUserRepository durability', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    ({ dir, path } = await openTemporary());
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep users across reopening the database', async () => {
+    const emailResult = createEmail('durable@example.com');
+    if (!emailResult.isSuccess) throw emailResult.error;
+    const user = User.create(emailResult.value);
+
+    const first = await SqliteUserRepository.open(path);
+    await first.save(user);
+    first.close();
+    const second = await SqliteUserRepository.open(path);
+    const found = await second.findByEmail(emailResult.value);
+    second.close();
+
+    expect(found?.id).toBe(user.id);
+    expect(found?.version).toBe(1);
+  });
+
+  it('should backfill canonical emails of older rows with the configured canonicalizer', async () => {
+    const { DatabaseSync } = await import('node:sqlite');
+    const db = new DatabaseSync(path);
+    migrate(db, userMigrations.filter((migration) => migration.version < 4));
+    db.prepare(
+      `INSERT INTO users (id, email, is_active, created_at, updated_at, version)
+       VALUES ('00000000-0000-7000-8000-000000000001', ?, 1, ?, ?, 1)`,
+    ).run('Ada+news@example.com', '2026-01-04T00:00:00Z', '2026-01-04T00:00:00Z');
+    db.close();
+
+    const repository = await SqliteUserRepository.open(
+      path,
+      new EmailCanonicalizer({ stripPlusTags: true }),
+    );
+    const email = createEmail('ada@example.com');
+    if (!email.isSuccess) throw email.error;
+    const found = await repository.findByEmail(email.value);
+    repository.close();
+
+    expect(found?.email).toBe('Ada+news@example.com');
+  });
+
+  it('should undo its writes when a unit of work fails to commit', async () => {
+    const repository = await SqliteUserRepository.open(path);
+    const outbox = new InMemoryOutbox();
+    const unitOfWork = new InMemoryUnitOfWork(outbox, new FixedClock(new Date()), [repository]);
+    const email = createEmail('atomic@example.com');
+    if (!email.isSuccess) throw email.error;
+    const first = User.create(email.value);
+    const second = User.create(email.value);
+
+    await expect(
+      unitOfWork.run(async (scope) => {
+        scope.track(first, (user) => repository.save(user));
+        scope.track(second, (user) => repository.save(user));
+      }),
+    ).rejects.toMatchObject({ code: 'USER_ALREADY_EXISTS' });
+    const found = await repository.findById(first.id);
+    repository.close();
+
+    expect(found).toBeNull();
+    expect(outbox.all()).toEqual([]);
+  });
+});
+
+describe('userSpecificationToSql', () => {
+  it('should translate supported specifications into a WHERE clause', () => {
+    const spec = new ActiveUserSpecification()
+      .and(new EmailDomainSpecification('Corp_1.example'))
+      .or(new ActiveUserSpecification().not());
+
+    expect(userSpecificationToSql(spec)).toEqual({
+      where: "((is_active = 1 AND email LIKE ? ESCAPE '\\') OR NOT (is_active = 1))",
+      params: ['%@corp\\_1.example'],
+    });
+  });
+
+  it('should refuse trees containing unsupported specifications', () => {
+    const custom = specification<User>('custom', () => true);
+
+    expect(userSpecificationToSql(new ActiveUserSpecification().and(custom))).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { UserRepository } from '@core/example/application/ports/UserRepository';
+import { UserAlreadyExistsError } from '@core/example/application/errors';
+import { User } from '@core/example/domain/entities/User';
+import { createEmail, type Email } from '@core/example/domain/valueObjects/Email';
+import type { PasswordHash } from '@core/example/domain/valueObjects/PasswordHash';
+import {
+  ActiveUserSpecification,
+  EmailDomainSpecification,
+} from '@core/example/domain/policies/UserSpecifications';
+import { specification } from '@shared/kernel/domain';
+import { ConcurrencyError } from '@shared/kernel/errors';
+import { fromString } from '@shared/kernel/id';
+
+export interface UserRepositoryFixture {
+  repository: UserRepository;
+  cleanup?: () => Promise<void> | void;
+}
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+const changedAt = new Date('2026-01-05T00:00:00Z');
+
+/**
+ * Behaviour every `UserRepository` adapter must share. Each adapter's spec
+ * calls this with a factory producing a fresh, empty repository.
+ */
+export const describeUserRepositoryContract = (
+  name: string,
+  createFixture: () => Promise<UserRepositoryFixture>,
+  options: { skip?: boolean } = {},
+): void => {
+  describe.skipIf(options.skip ?? false)(`${name} (UserRepository contract)`, () => {
+    let fixture: UserRepositoryFixture;
+    let repository: UserRepository;
+
+    beforeEach(async () => {
+      fixture = await createFixture();
+      repository = fixture.repository;
+    });
+
+    afterEach(async () => {
+      await fixture.cleanup?.();
+    });
+
+    describe('save and findById', () => {
+      it('should save and retrieve a user by id', async () => {
+        const user = User.create(email('test@example.com'), new Date('2026-01-04T00:00:00Z'));
+
+        await repository.save(user);
+        const found = await repository.findById(user.id);
+
+        expect(found).not.toBeNull();
+        expect(found?.id).toBe(user.id);
+        expect(found?.email).toBe(user.email);
+        expect(found?.isActive).toBe(true);
+        expect(found?.createdAt).toEqual(user.createdAt);
+        expect(found?.updatedAt).toEqual(user.updatedAt);
+      });
+
+      it('should return null when user not found by id', async () => {
+        const found = await repository.findById(fromString('non-existent-id'));
+
+        expect(found).toBeNull();
+      });
+
+      it('should persist changes to an existing user', async () => {
+        const user = User.create(email('test@example.com'));
+        await repository.save(user);
+
+        user.changeEmail(email('changed@example.com'), changedAt);
+        user.deactivate(changedAt);
+        await repository.save(user);
+        const found = await repository.findById(user.id);
+
+        expect(found?.email).toBe('changed@example.com');
+        expect(found?.isActive).toBe(false);
+        expect(found?.updatedAt).toEqual(changedAt);
+      });
+    });
+
+    describe('findByEmail', () => {
+      it('should find user by email', async () => {
+        const user = User.create(email('test@example.com'));
+
+        await repository.save(user);
+        const found = await repository.findByEmail(email('test@example.com'));
+
+        expect(found).not.toBeNull();
+        expect(found?.email).toBe('test@example.com');
+      });
+
+      it('should return null when user not found by email', async () => {
+        const found = await repository.findByEmail(email('nonexistent@example.com'));
+
+        expect(found).toBeNull();
+      });
+
+      it('should reject a second user with the same email', async () => {
+        await repository.save(User.create(email('test@example.com')));
+
+        await expect(repository.save(User.create(email('test@example.com')))).rejects.toBeInstanceOf(
+          UserAlreadyExistsError,
+        );
+      });
+
+      it('should match and enforce uniqueness on the canonical email', async () => {
+        const user = User.create(email('Jane.Doe@Example.com'));
+        await repository.save(user);
+
+        const found = await repository.findByEmail(email('jane.doe@example.com'));
+
+        expect(found?.id).toBe(user.id);
+        expect(found?.email).toBe('Jane.Doe@example.com');
+        await expect(
+          repository.save(User.create(email('JANE.DOE@example.com'))),
+        ).rejects.toBeInstanceOf(UserAlreadyExistsError);
+      });
+    });
+
+    describe('credentials', () => {
+      it('should persist the password hash and lockout state', async () => {
+        const createdAt = new Date('2026-01-04T00:00:00Z');
+        const hash = '$scrypt$ln=4,r=8,p=1$c2FsdA$a2V5' as PasswordHash;
+        const user = User.create(email('test@example.com'), createdAt, { passwordHash: hash });
+        user.recordFailedLogin(createdAt, { maxFailedAttempts: 1, lockoutDurationMs: 60_000 });
+
+        await repository.save(user);
+        const found = await repository.findById(user.id);
+
+        expect(found?.passwordHash).toBe(hash);
+        expect(found?.failedLoginAttempts).toBe(1);
+        expect(found?.lockedUntil).toEqual(new Date('2026-01-04T00:01:00Z'));
+      });
+    });
+
+    describe('findMatching', () => {
+      const seed = async (): Promise<void> => {
+        const alice = User.create(email('alice@corp.example'), new Date('2026-01-01T00:00:00Z'));
+        const bob = User.create(email('bob@corp.example'), new Date('2026-01-02T00:00:00Z'));
+        const carol = User.create(email('carol@home.example'), new Date('2026-01-03T00:00:00Z'));
+        bob.deactivate(changedAt);
+        for (const user of [alice, bob, carol]) {
+          await repository.save(user);
+        }
+      };
+      const emails = (users: User[]): string[] => users.map((u) => u.email).sort();
+
+      it('should return users satisfying a specification', async () => {
+        await seed();
+
+        const active = await repository.findMatching(new ActiveUserSpecification());
+        const corp = await repository.findMatching(new EmailDomainSpecification('corp.example'));
+
+        expect(emails(active)).toEqual(['alice@corp.example', 'carol@home.example']);
+        expect(emails(corp)).toEqual(['alice@corp.example', 'bob@corp.example']);
+      });
+
+      it('should evaluate composed specifications', async () => {
+        await seed();
+
+        const inactiveOrHome = new ActiveUserSpecification()
+          .not()
+          .or(new EmailDomainSpecification('home.example'));
+        const activeCorp = new ActiveUserSpecification().and(
+          new EmailDomainSpecification('corp.example'),
+        );
+
+        expect(emails(await repository.findMatching(inactiveOrHome))).toEqual([
+          'bob@corp.example',
+          'carol@home.example',
+        ]);
+        expect(emails(await repository.findMatching(activeCorp))).toEqual(['alice@corp.example']);
+      });
+
+      it('should support specifications without a native translation', async () => {
+        await seed();
+
+        const registeredEarly = specification<User>(
+          'registeredEarly',
+          (user) => user.createdAt < new Date('2026-01-02T12:00:00Z'),
+        );
+        const matched = await repository.findMatching(
+          registeredEarly.and(new ActiveUserSpecification()),
+        );
+
+        expect(emails(matched)).toEqual(['alice@corp.example']);
+      });
+    });
+
+    describe('optimistic concurrency', () => {
+      it('should bump the version on every save', async () => {
+        const user = User.create(email('test@example.com'));
+
+        await repository.save(user);
+        const loaded = await repository.findById(user.id);
+        if (!loaded) throw new Error('Expected user');
+        loaded.deactivate(changedAt);
+        await repository.save(loaded);
+
+        expect(user.version).toBe(1);
+        expect(loaded.version).toBe(2);
+        expect((await repository.findById(user.id))?.version).toBe(2);
+      });
+
+      it('should reject a save based on a stale version', async () => {
+        const user = User.create(email('test@example.com'));
+        await repository.save(user);
+        const first = await repository.findById(user.id);
+        const second = await repository.findById(user.id);
+        if (!first || !second) throw new Error('Expected user');
+
+        first.deactivate(changedAt);
+        await repository.save(first);
+        second.changeEmail(email('other@example.com'), changedAt);
+
+        const error = await repository.save(second).catch((e: unknown) => e);
+        expect(error).toBeInstanceOf(ConcurrencyError);
+        expect((error as ConcurrencyError).details).toMatchObject({
+          expectedVersion: 1,
+          actualVersion: 2,
+        });
+        expect((await repository.findById(user.id))?.email).toBe('test@example.com');
+      });
+    });
+
+    describe('delete', () => {
+      it('should delete a user', async () => {
+        const user = User.create(email('test@example.com'));
+
+        await repository.save(user);
+        await repository.delete(user.id);
+        const found = await repository.findById(user.id);
+
+        expect(found).toBeNull();
+      });
+    });
+  });
+};
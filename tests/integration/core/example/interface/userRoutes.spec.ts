@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ErrorCatalog, kernelErrorDefinitions } from '@shared/kernel/errors';
+import { HttpServer, httpErrorDefinitions } from '@shared/kernel/http';
+import { Application, provideValue } from '@shared/kernel/module';
+import { userErrorDefinitions } from '@core/example/application/errors';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import { userRoutes } from '@core/example/interface/http/userRoutes';
+import { UserModule, UserTokens } from '@core/example/interface/UserModule';
+
+describe('user HTTP routes', () => {
+  let server: HttpServer;
+  let baseUrl: string;
+
+  const createUser = (body: unknown): Promise<Response> =>
+    fetch(`${baseUrl}/users`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    const application = Application.bootstrap({
+      modules: [UserModule],
+      overrides: [
+        provideValue(UserTokens.PasswordHasher, new ScryptPasswordHasher({ logCost: 4 })),
+      ],
+    });
+    server = new HttpServer({
+      routes: userRoutes(application),
+      catalog: new ErrorCatalog()
+        .register('kernel', ...kernelErrorDefinitions)
+        .register('http', ...httpErrorDefinitions)
+        .register('example', ...userErrorDefinitions),
+    });
+    const { port } = await server.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should create a user and serve it by id', async () => {
+    const created = await createUser({ email: 'ada@example.com', password: 'Correct-Horse-1!' });
+    const { userId } = (await created.json()) as { userId: string };
+
+    expect(created.status).toBe(201);
+    expect(created.headers.get('location')).toBe(`/users/${userId}`);
+
+    const fetched = await fetch(`${baseUrl}${created.headers.get('location')}`);
+    expect(fetched.status).toBe(200);
+    expect(await fetched.json()).toMatchObject({
+      userId,
+      email: 'ada@example.com',
+      isActive: true,
+    });
+  });
+
+  it('should map domain and application errors to status codes', async () => {
+    await createUser({ email: 'ada@example.com', password: 'Correct-Horse-1!' });
+
+    const duplicate = await createUser({ email: 'ada@example.com', password: 'Correct-Horse-1!' });
+    const invalidEmail = await createUser({ email: 'not-an-email', password: 'Correct-Horse-1!' });
+    const missingPassword = await createUser({ email: 'bob@example.com' });
+    const unknown = await fetch(`${baseUrl}/users/00000000-0000-7000-8000-000000000001`);
+
+    expect(duplicate.status).toBe(409);
+    const duplicateBody = await duplicate.text();
+    expect(JSON.parse(duplicateBody)).toMatchObject({ code: 'USER_ALREADY_EXISTS' });
+    expect(duplicateBody).not.toContain('ada@example.com');
+    expect(invalidEmail.status).toBe(400);
+    expect(await invalidEmail.json()).toMatchObject({ code: 'INVALID_EMAIL' });
+    expect(missingPassword.status).toBe(400);
+    expect(await missingPassword.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { violations: [expect.objectContaining({ field: 'password' })] },
+    });
+    expect(unknown.status).toBe(404);
+    expect(await unknown.json()).toMatchObject({ code: 'USER_NOT_FOUND' });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { connect } from 'node:net';
+import { z } from 'zod';
+import {
+  InMemoryCommandBus,
+  defineCommand,
+  type AnyCommandMap,
+  type CommandFrom,
+} from '@shared/kernel/bus';
+import {
+  DomainError,
+  ErrorCatalog,
+  defineError,
+  kernelErrorDefinitions,
+} from '@shared/kernel/errors';
+import {
+  HttpServer,
+  dispatchCommand,
+  httpErrorDefinitions,
+  route,
+  type HttpRequest,
+} from '@shared/kernel/http';
+import { SequentialIdGenerator } from '@shared/kernel/id';
+import { JsonLogger } from '@shared/kernel/logger';
+
+class OutOfStockError extends DomainError {
+  constructor(sku: string) {
+    super(`${sku} is out of stock`, 'OUT_OF_STOCK', { details: { sku } });
+  }
+}
+
+const Reserve = defineCommand('test.Reserve', z.object({ sku: z.string(), quantity: z.number() }));
+
+describe('HttpServer', () => {
+  const entries: Array<Record<string, unknown>> = [];
+  let server: HttpServer;
+  let baseUrl: string;
+  let seen: HttpRequest | undefined;
+  let reserved: CommandFrom<typeof Reserve> | undefined;
+
+  const post = (path: string, body: string, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body,
+    });
+
+  beforeEach(async () => {
+    entries.length = 0;
+    const commandBus = new InMemoryCommandBus<AnyCommandMap>();
+    commandBus.register(Reserve, {
+      handle: async (command: CommandFrom<typeof Reserve>) => {
+        reserved = command;
+        const { sku, quantity } = command;
+        if (sku === 'gone') {
+          throw new OutOfStockError(sku);
+        }
+        if (sku === 'boom') {
+          throw new Error('database unavailable');
+        }
+        return { sku, quantity };
+      },
+    });
+    server = new HttpServer({
+      routes: [
+        route('POST', '/reservations', dispatchCommand(commandBus, Reserve)),
+        route('GET', '/echo/:name', async (request) => {
+          seen = request;
+          request.logger.info('Echoing');
+          return { status: 200, body: { name: request.params.name } };
+        }),
+      ],
+      catalog: new ErrorCatalog()
+        .register('kernel', ...kernelErrorDefinitions)
+        .register('http', ...httpErrorDefinitions)
+        .register(
+          'test',
+          defineError({
+            code: 'OUT_OF_STOCK',
+            category: 'conflict',
+            message: 'The item is out of stock',
+            exposeDetails: true,
+          }),
+        ),
+      logger: new JsonLogger({
+        level: 'info',
+        pretty: false,
+        write: (line) => entries.push(JSON.parse(line) as Record<string, unknown>),
+      }),
+      bodyLimitBytes: 64,
+      idGenerator: new SequentialIdGenerator(),
+    });
+    const { port } = await server.listen(0, '127.0.0.1');
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('should dispatch validated commands and return their result as JSON', async () => {
+    const response = await post('/reservations', JSON.stringify({ sku: 'a-1', quantity: 2 }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(await response.json()).toEqual({ sku: 'a-1', quantity: 2 });
+  });
+
+  it('should assign request ids and bind them to the logger', async () => {
+    const generated = await fetch(`${baseUrl}/echo/ada`);
+    const propagated = await fetch(`${baseUrl}/echo/ada`, {
+      headers: { 'x-request-id': 'req-42' },
+    });
+
+    expect(generated.headers.get('x-request-id')).toBe('00000000-0000-7000-8000-000000000001');
+    expect(propagated.headers.get('x-request-id')).toBe('req-42');
+    expect(seen?.requestId).toBe('req-42');
+    expect(entries.filter((e) => e.requestId === 'req-42').map((e) => e.message)).toEqual([
+      'Echoing',
+      'Request completed',
+    ]);
+    expect(entries.at(-1)).toMatchObject({ method: 'GET', path: '/echo/ada', status: 200 });
+  });
+
+  it('should tag dispatched messages with the request id', async () => {
+    await post('/reservations', JSON.stringify({ sku: 'a-1', quantity: 2 }), {
+      'x-request-id': 'req-7',
+    });
+
+    expect(reserved?.metadata).toEqual({ requestId: 'req-7' });
+  });
+
+  it('should map errors to problem details with their category status', async () => {
+    const invalid = await post('/reservations', JSON.stringify({ sku: 'a-1' }));
+    const conflict = await post('/reservations', JSON.stringify({ sku: 'gone', quantity: 1 }));
+    const crash = await post('/reservations', JSON.stringify({ sku: 'boom', quantity: 1 }));
+
+    expect(invalid.status).toBe(400);
+    expect(invalid.headers.get('content-type')).toBe('application/problem+json');
+    expect(await invalid.json()).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      instance: '/reservations',
+      details: { violations: [expect.objectContaining({ field: 'quantity' })] },
+    });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ code: 'OUT_OF_STOCK', details: { sku: 'gone' } });
+    expect(crash.status).toBe(500);
+    expect(await crash.json()).toMatchObject({ code: 'INTERNAL_ERROR' });
+    expect(entries.some((e) => e.level === 'error' && e.message === 'Request failed')).toBe(true);
+  });
+
+  it('should reject unreadable bodies', async () => {
+    const malformed = await post('/reservations', '{"sku":');
+    const text = await post('/reservations', 'sku=a-1', { 'content-type': 'text/plain' });
+    const array = await post('/reservations', '[1, 2]');
+    const large = await post('/reservations', JSON.stringify({ sku: 'x'.repeat(100) }));
+
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ code: 'MALFORMED_JSON' });
+    expect(text.status).toBe(415);
+    expect(array.status).toBe(400);
+    expect(await array.json()).toMatchObject({ code: 'VALIDATION_ERROR' });
+    expect(large.status).toBe(413);
+    expect(await large.json()).toMatchObject({
+      code: 'PAYLOAD_TOO_LARGE',
+      details: { limitBytes: 64 },
+    });
+  });
+
+  it('should answer oversized streamed bodies and close the connection', async () => {
+    const { port } = new URL(baseUrl);
+    const { response, closed } = await new Promise<{
+      response: IncomingMessage;
+      closed: Promise<void>;
+    }>((resolve) => {
+      const outgoing = httpRequest({
+        host: '127.0.0.1',
+        port,
+        method: 'POST',
+        path: '/reservations',
+        headers: { 'content-type': 'application/json', 'transfer-encoding': 'chunked' },
+      });
+      outgoing.on('error', () => undefined);
+      outgoing.on('socket', (socket) => {
+        const closed = new Promise<void>((done) => socket.once('close', () => done()));
+        outgoing.once('response', (response) => resolve({ response, closed }));
+      });
+      // Never ended: the server must answer without waiting for the rest.
+      outgoing.write(JSON.stringify({ sku: 'x'.repeat(100) }));
+    });
+    response.resume();
+
+    expect(response.statusCode).toBe(413);
+    expect(response.headers.connection).toBe('close');
+    await closed;
+  });
+
+  it('should answer malformed request targets with a problem', async () => {
+    const { port } = new URL(baseUrl);
+    const raw = await new Promise<string>((resolve, reject) => {
+      const socket = connect(Number(port), '127.0.0.1', () => {
+        socket.end('GET http://[::1 HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n');
+      });
+      let received = '';
+      socket.on('data', (chunk: Buffer) => (received += chunk.toString('utf8')));
+      socket.once('close', () => resolve(received));
+      socket.once('error', reject);
+    });
+
+    expect(raw.split('\r\n')[0]).toBe('HTTP/1.1 400 Bad Request');
+    expect(raw).toContain('content-type: application/problem+json');
+    expect(raw).toContain('"code":"INVALID_REQUEST_TARGET"');
+  });
+
+  it('should answer unknown routes and methods', async () => {
+    const missing = await fetch(`${baseUrl}/nowhere`);
+    const wrongMethod = await fetch(`${baseUrl}/reservations`);
+
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ code: 'ROUTE_NOT_FOUND' });
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('allow')).toBe('POST');
+  });
+});
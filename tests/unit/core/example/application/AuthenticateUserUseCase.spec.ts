@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Email } from '@core/example/domain/valueObjects/Email';
+import type { PasswordHash } from '@core/example/domain/valueObjects/PasswordHash';
+import {
+  AccountLockedError,
+  AuthenticateUserUseCase,
+  InvalidCredentialsError,
+} from '@core/example/application/use-cases/AuthenticateUserUseCase';
+import { CreateUserUseCase } from '@core/example/application/use-cases/CreateUserUseCase';
+import { InMemoryUserRepository } from '@core/example/infrastructure/adapters/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import { ManualClock } from '@shared/kernel/time';
+import { InMemoryOutbox, InMemoryUnitOfWork } from '@shared/kernel/persistence';
+
+const PASSWORD = 'Correct-Horse-1!';
+
+const EMAIL = 'test@example.com' as Email;
+
+describe('AuthenticateUserUseCase', () => {
+  const hasher = new ScryptPasswordHasher({ logCost: 4 });
+  const lockout = { maxFailedAttempts: 3, lockoutDurationMs: 60_000 };
+  let repository: InMemoryUserRepository;
+  let clock: ManualClock;
+  let unitOfWork: InMemoryUnitOfWork;
+  let useCase: AuthenticateUserUseCase;
+
+  beforeEach(async () => {
+    repository = new InMemoryUserRepository();
+    clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    unitOfWork = new InMemoryUnitOfWork(new InMemoryOutbox(), clock, [repository]);
+    useCase = new AuthenticateUserUseCase(repository, hasher, clock, unitOfWork, lockout);
+    const created = await new CreateUserUseCase(repository, clock, unitOfWork, hasher).execute(
+      'test@example.com',
+      PASSWORD,
+    );
+    if (!created.isSuccess) throw created.error;
+  });
+
+  it('should authenticate with the correct password', async () => {
+    const result = await useCase.execute('Test@Example.com', PASSWORD);
+
+    if (!result.isSuccess) throw result.error;
+    expect(result.value.email).toBe('test@example.com');
+  });
+
+  it('should reject a wrong password and unknown accounts alike', async () => {
+    const wrongPassword = await useCase.execute('test@example.com', 'Wrong-Horse-1!');
+    const unknown = await useCase.execute('nobody@example.com', PASSWORD);
+
+    if (!wrongPassword.isFailure || !unknown.isFailure) throw new Error('Expected failure');
+    expect(wrongPassword.error).toBeInstanceOf(InvalidCredentialsError);
+    expect(unknown.error).toBeInstanceOf(InvalidCredentialsError);
+    expect((await repository.findByEmail(EMAIL))?.failedLoginAttempts).toBe(1);
+  });
+
+  it('should lock the account after repeated failures until the lockout expires', async () => {
+    for (let i = 0; i < lockout.maxFailedAttempts; i++) {
+      await useCase.execute('test@example.com', 'Wrong-Horse-1!');
+    }
+
+    const locked = await useCase.execute('test@example.com', PASSWORD);
+    if (!locked.isFailure) throw new Error('Expected failure');
+    expect(locked.error).toBeInstanceOf(AccountLockedError);
+    expect(locked.error.details).toEqual({ lockedUntil: '2026-01-04T00:01:00.000Z' });
+
+    const guessed = await useCase.execute('test@example.com', 'Wrong-Horse-1!');
+    if (!guessed.isFailure) throw new Error('Expected failure');
+    expect(guessed.error).toBeInstanceOf(InvalidCredentialsError);
+
+    clock.advance(lockout.lockoutDurationMs);
+    const result = await useCase.execute('test@example.com', PASSWORD);
+
+    expect(result.isSuccess).toBe(true);
+    expect((await repository.findByEmail(EMAIL))?.failedLoginAttempts).toBe(0);
+  });
+
+  it('should verify exactly one hash whether or not the account exists', async () => {
+    const verified: string[] = [];
+    const counting = Object.assign(Object.create(hasher) as ScryptPasswordHasher, {
+      verify: (password: string, hash: PasswordHash) => {
+        verified.push(hash);
+        return hasher.verify(password, hash);
+      },
+    });
+    const countingUseCase = new AuthenticateUserUseCase(
+      repository,
+      counting,
+      clock,
+      unitOfWork,
+      lockout,
+    );
+
+    await countingUseCase.execute('nobody@example.com', PASSWORD);
+    await countingUseCase.execute('not-an-email', PASSWORD);
+    await countingUseCase.execute('test@example.com', 'Wrong-Horse-1!');
+
+    expect(verified).toHaveLength(3);
+    expect(verified.every((hash) => hash.startsWith('$scrypt$ln=4,'))).toBe(true);
+  });
+
+  it('should rehash the password on login when hasher parameters changed', async () => {
+    const upgraded = new ScryptPasswordHasher({ logCost: 5 });
+    const upgradedUseCase = new AuthenticateUserUseCase(
+      repository,
+      upgraded,
+      clock,
+      unitOfWork,
+      lockout,
+    );
+    const before = (await repository.findByEmail(EMAIL))?.passwordHash;
+
+    const result = await upgradedUseCase.execute('test@example.com', PASSWORD);
+
+    if (!result.isSuccess) throw result.error;
+    const after = (await repository.findByEmail(EMAIL))?.passwordHash;
+    expect(before).toMatch(/^\$scrypt\$ln=4,/);
+    expect(after).toMatch(/^\$scrypt\$ln=5,/);
+    expect(after && upgraded.needsRehash(after)).toBe(false);
+  });
+
+  it('should reject deactivated users', async () => {
+    const user = await repository.findByEmail(EMAIL);
+    if (!user) throw new Error('Expected user');
+    user.deactivate(clock.now());
+    await repository.save(user);
+
+    const result = await useCase.execute('test@example.com', PASSWORD);
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+  });
+});
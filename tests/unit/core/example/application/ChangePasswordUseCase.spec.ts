@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { Email } from '@core/example/domain/valueObjects/Email';
+import { ChangePasswordUseCase } from '@core/example/application/use-cases/ChangePasswordUseCase';
+import { UserNotFoundError } from '@core/example/application/use-cases/GetUserByIdUseCase';
+import { InvalidCredentialsError } from '@core/example/application/use-cases/AuthenticateUserUseCase';
+import { CreateUserUseCase } from '@core/example/application/use-cases/CreateUserUseCase';
+import { WeakPasswordError } from '@core/example/domain/policies/PasswordPolicy';
+import { InMemoryUserRepository } from '@core/example/infrastructure/adapters/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import { ManualClock } from '@shared/kernel/time';
+import { InMemoryOutbox, InMemoryUnitOfWork } from '@shared/kernel/persistence';
+
+const PASSWORD = 'Correct-Horse-1!';
+const NEW_PASSWORD = 'Battery-Staple-2?';
+
+const EMAIL = 'test@example.com' as Email;
+
+describe('ChangePasswordUseCase', () => {
+  const hasher = new ScryptPasswordHasher({ logCost: 4 });
+  let repository: InMemoryUserRepository;
+  let clock: ManualClock;
+  let useCase: ChangePasswordUseCase;
+  let userId: string;
+
+  beforeEach(async () => {
+    repository = new InMemoryUserRepository();
+    clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    const unitOfWork = new InMemoryUnitOfWork(new InMemoryOutbox(), clock, [repository]);
+    useCase = new ChangePasswordUseCase(repository, hasher, clock, unitOfWork);
+    const created = await new CreateUserUseCase(repository, clock, unitOfWork, hasher).execute(
+      'test@example.com',
+      PASSWORD,
+    );
+    if (!created.isSuccess) throw created.error;
+    userId = created.value.id;
+  });
+
+  it('should replace the password hash', async () => {
+    clock.advance(1_000);
+
+    const result = await useCase.execute(userId, PASSWORD, NEW_PASSWORD);
+
+    if (!result.isSuccess) throw result.error;
+    const stored = await repository.findById(result.value.id);
+    const hash = stored?.passwordHash;
+    if (!hash) throw new Error('Expected a password hash');
+    expect(await hasher.verify(NEW_PASSWORD, hash)).toBe(true);
+    expect(await hasher.verify(PASSWORD, hash)).toBe(false);
+    expect(stored.updatedAt).toEqual(new Date('2026-01-04T00:00:01Z'));
+  });
+
+  it('should count a wrong current password as a failed attempt', async () => {
+    const result = await useCase.execute(userId, 'Wrong-Horse-1!', NEW_PASSWORD);
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(InvalidCredentialsError);
+    expect((await repository.findByEmail(EMAIL))?.failedLoginAttempts).toBe(1);
+  });
+
+  it('should enforce the password policy on the new password', async () => {
+    const result = await useCase.execute(userId, PASSWORD, 'weak');
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(WeakPasswordError);
+  });
+
+  it('should fail for unknown users', async () => {
+    const result = await useCase.execute(
+      '00000000-0000-4000-8000-000000000000',
+      PASSWORD,
+      NEW_PASSWORD,
+    );
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(UserNotFoundError);
+  });
+});
@@ -1,22 +1,54 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { CreateUserUseCase, UserAlreadyExistsError } from '@core/example/application/use-cases/CreateUserUseCase';
+import { CreateUserUseCase } from '@core/example/application/use-cases/CreateUserUseCase';
+import { UserAlreadyExistsError } from '@core/example/application/errors';
 import { InMemoryUserRepository } from '@core/example/infrastructure/adapters/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import {
+  PasswordPolicy,
+  UnknownPasswordTierError,
+  WeakPasswordError,
+} from '@core/example/domain/policies/PasswordPolicy';
 import { FixedClock } from '@shared/kernel/time';
-import { InvalidEmailError } from '@core/example/domain/valueObjects/Email';
+import { InvalidEmailError, type Email } from '@core/example/domain/valueObjects/Email';
+import { UserCreated } from '@core/example/domain/events';
+import { InMemoryEventBus, type DomainEvent } from '@shared/kernel/events';
+import { InMemoryOutbox, InMemoryUnitOfWork, OutboxRelay } from '@shared/kernel/persistence';
+
+const PASSWORD = 'Correct-Horse-1!';
+
+const EMAIL = 'test@example.com' as Email;
 
 describe('CreateUserUseCase', () => {
+  const hasher = new ScryptPasswordHasher({ logCost: 4 });
   let useCase: CreateUserUseCase;
   let repository: InMemoryUserRepository;
   let clock: FixedClock;
+  let outbox: InMemoryOutbox;
+  let relay: OutboxRelay;
+  let published: DomainEvent[];
 
   beforeEach(() => {
     repository = new InMemoryUserRepository();
     clock = new FixedClock(new Date('2026-01-04T00:00:00Z'));
-    useCase = new CreateUserUseCase(repository, clock);
+    outbox = new InMemoryOutbox();
+    const eventBus = new InMemoryEventBus();
+    published = [];
+    eventBus.subscribe(UserCreated.eventType, {
+      handle: async (event) => {
+        published.push(event);
+      },
+    });
+    relay = new OutboxRelay(outbox, eventBus, clock);
+    useCase = new CreateUserUseCase(
+      repository,
+      clock,
+      new InMemoryUnitOfWork(outbox, clock, [repository]),
+      hasher,
+    );
   });
 
   it('should create a new user successfully', async () => {
-    const result = await useCase.execute('test@example.com');
+    const result = await useCase.execute('test@example.com', PASSWORD);
 
     expect(result.isSuccess).toBe(true);
     if (!result.isSuccess) throw result.error;
@@ -25,8 +57,26 @@ describe('CreateUserUseCase', () => {
     expect(result.value.createdAt).toEqual(new Date('2026-01-04T00:00:00Z'));
   });
 
+  it('should store UserCreated in the outbox and relay it to the event bus', async () => {
+    const result = await useCase.execute('test@example.com', PASSWORD);
+
+    if (!result.isSuccess) throw result.error;
+    expect(outbox.all().map((entry) => entry.event.eventType)).toEqual([
+      'example.UserCreated',
+      'example.UserPasswordChanged',
+    ]);
+    expect(published).toEqual([]);
+
+    await relay.relayPending();
+
+    expect(published).toHaveLength(1);
+    expect(published[0]).toBeInstanceOf(UserCreated);
+    expect(published[0]?.aggregateId).toBe(result.value.id);
+    expect(result.value.getDomainEvents()).toEqual([]);
+  });
+
   it('should fail when email is invalid', async () => {
-    const result = await useCase.execute('invalid-email');
+    const result = await useCase.execute('invalid-email', PASSWORD);
 
     expect(result.isFailure).toBe(true);
     if (!result.isFailure) throw new Error('Expected failure');
@@ -34,20 +84,85 @@ describe('CreateUserUseCase', () => {
   });
 
   it('should fail when user already exists', async () => {
-    await useCase.execute('existing@example.com');
-    const result = await useCase.execute('existing@example.com');
+    await useCase.execute('existing@example.com', PASSWORD);
+    const result = await useCase.execute('existing@example.com', PASSWORD);
 
     expect(result.isFailure).toBe(true);
     if (!result.isFailure) throw new Error('Expected failure');
     expect(result.error).toBeInstanceOf(UserAlreadyExistsError);
-    expect(result.error.message).toContain('existing@example.com');
+    expect(result.error.message).not.toContain('existing@example.com');
+    expect(result.error.details).toBeUndefined();
+    expect(outbox.all()).toHaveLength(2);
   });
 
-  it('should normalize email to lowercase', async () => {
-    const result = await useCase.execute('TEST@EXAMPLE.COM');
+  it('should leave neither the user nor its events behind when saving fails', async () => {
+    const failingRepository = new InMemoryUserRepository();
+    failingRepository.save = async () => {
+      throw new Error('disk full');
+    };
+    const failingUseCase = new CreateUserUseCase(
+      failingRepository,
+      clock,
+      new InMemoryUnitOfWork(outbox, clock, [failingRepository]),
+      hasher,
+    );
+
+    await expect(failingUseCase.execute('test@example.com', PASSWORD)).rejects.toThrow('disk full');
+
+    expect(await failingRepository.findByEmail(EMAIL)).toBeNull();
+    expect(outbox.all()).toEqual([]);
+  });
+
+  it('should keep the display form and detect duplicates case-insensitively', async () => {
+    const result = await useCase.execute('TEST@EXAMPLE.COM', PASSWORD);
 
-    expect(result.isSuccess).toBe(true);
     if (!result.isSuccess) throw result.error;
-    expect(result.value.email).toBe('test@example.com');
+    expect(result.value.email).toBe('TEST@example.com');
+
+    const duplicate = await useCase.execute('test@example.com', PASSWORD);
+    if (!duplicate.isFailure) throw new Error('Expected failure');
+    expect(duplicate.error).toBeInstanceOf(UserAlreadyExistsError);
+  });
+
+  it('should store a hash of the password, never the password itself', async () => {
+    const result = await useCase.execute('test@example.com', PASSWORD);
+
+    if (!result.isSuccess) throw result.error;
+    const hash = result.value.passwordHash;
+    expect(hash).toMatch(/^\$scrypt\$/);
+    expect(hash).not.toContain(PASSWORD);
+    expect(hash && (await hasher.verify(PASSWORD, hash))).toBe(true);
+  });
+
+  it('should reject passwords violating the policy without creating the user', async () => {
+    const result = await useCase.execute('test@example.com', 'test-example');
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(WeakPasswordError);
+    expect((result.error as WeakPasswordError).violations.map((v) => v.rule)).toEqual([
+      'uppercase',
+      'digit',
+      'special',
+      'excludesEmail',
+    ]);
+    expect(await repository.findByEmail(EMAIL)).toBeNull();
+  });
+
+  it('should enforce the requested password tier', async () => {
+    const tiered = new CreateUserUseCase(
+      repository,
+      clock,
+      new InMemoryUnitOfWork(outbox, clock, [repository]),
+      hasher,
+      new PasswordPolicy({ tiers: { admin: { minLength: 20 } } }),
+    );
+
+    const short = await tiered.execute('test@example.com', PASSWORD, 'admin');
+    const unknown = await tiered.execute('test@example.com', PASSWORD, 'root');
+
+    if (!short.isFailure || !unknown.isFailure) throw new Error('Expected failures');
+    expect(short.error).toBeInstanceOf(WeakPasswordError);
+    expect(unknown.error).toBeInstanceOf(UnknownPasswordTierError);
+    expect((await tiered.execute('test@example.com', PASSWORD)).isSuccess).toBe(true);
   });
 });
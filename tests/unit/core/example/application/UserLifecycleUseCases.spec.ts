@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ChangeUserEmailUseCase,
+  DeactivateUserUseCase,
+  DeleteUserUseCase,
+  GetUserByIdUseCase,
+  ReactivateUserUseCase,
+  UserNotFoundError,
+} from '@core/example/application/use-cases';
+import { UserAlreadyExistsError } from '@core/example/application/errors';
+import { User } from '@core/example/domain/entities/User';
+import { createEmail, InvalidEmailError, type Email } from '@core/example/domain/valueObjects/Email';
+import { InvalidUserIdError } from '@core/example/domain/valueObjects/UserId';
+import { InMemoryUserRepository } from '@core/example/infrastructure/adapters/InMemoryUserRepository';
+import { ManualClock } from '@shared/kernel/time';
+import { InMemoryOutbox, InMemoryUnitOfWork } from '@shared/kernel/persistence';
+
+const UNKNOWN_ID = '00000000-0000-4000-8000-000000000000';
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+describe('User lifecycle use cases', () => {
+  let repository: InMemoryUserRepository;
+  let clock: ManualClock;
+  let outbox: InMemoryOutbox;
+  let unitOfWork: InMemoryUnitOfWork;
+  let alice: User;
+
+  beforeEach(async () => {
+    repository = new InMemoryUserRepository();
+    clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    outbox = new InMemoryOutbox();
+    unitOfWork = new InMemoryUnitOfWork(outbox, clock, [repository]);
+    alice = User.create(email('alice@example.com'), clock.now());
+    await repository.save(alice);
+    clock.advance(60_000);
+  });
+
+  describe('ChangeUserEmailUseCase', () => {
+    it('should change the email and stamp updatedAt from the clock', async () => {
+      const useCase = new ChangeUserEmailUseCase(repository, clock, unitOfWork);
+
+      const result = await useCase.execute(alice.id, 'Alice@Corp.Example');
+
+      if (!result.isSuccess) throw result.error;
+      const stored = await repository.findById(alice.id);
+      expect(stored?.email).toBe('Alice@corp.example');
+      expect(stored?.updatedAt).toEqual(new Date('2026-01-04T00:01:00Z'));
+      expect(outbox.all().map((entry) => entry.event.eventType)).toEqual([
+        'example.UserEmailChanged',
+      ]);
+    });
+
+    it('should reject an email owned by another user', async () => {
+      await repository.save(User.create(email('bob@example.com'), clock.now()));
+      const useCase = new ChangeUserEmailUseCase(repository, clock, unitOfWork);
+
+      const result = await useCase.execute(alice.id, 'bob@example.com');
+
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(UserAlreadyExistsError);
+      expect((await repository.findById(alice.id))?.email).toBe('alice@example.com');
+    });
+
+    it('should reject invalid emails and ids', async () => {
+      const useCase = new ChangeUserEmailUseCase(repository, clock, unitOfWork);
+
+      const invalidEmail = await useCase.execute(alice.id, 'not-an-email');
+      const invalidId = await useCase.execute('not-an-id', 'alice@corp.example');
+
+      if (!invalidEmail.isFailure || !invalidId.isFailure) throw new Error('Expected failure');
+      expect(invalidEmail.error).toBeInstanceOf(InvalidEmailError);
+      expect(invalidId.error).toBeInstanceOf(InvalidUserIdError);
+    });
+  });
+
+  describe('DeactivateUserUseCase and ReactivateUserUseCase', () => {
+    it('should toggle the active flag at clock time', async () => {
+      const deactivate = new DeactivateUserUseCase(repository, clock, unitOfWork);
+      const reactivate = new ReactivateUserUseCase(repository, clock, unitOfWork);
+
+      const deactivated = await deactivate.execute(alice.id);
+      if (!deactivated.isSuccess) throw deactivated.error;
+      expect((await repository.findById(alice.id))?.isActive).toBe(false);
+
+      clock.advance(60_000);
+      const reactivated = await reactivate.execute(alice.id);
+
+      if (!reactivated.isSuccess) throw reactivated.error;
+      const stored = await repository.findById(alice.id);
+      expect(stored?.isActive).toBe(true);
+      expect(stored?.updatedAt).toEqual(new Date('2026-01-04T00:02:00Z'));
+    });
+
+    it('should fail with a typed error for unknown users', async () => {
+      const result = await new DeactivateUserUseCase(repository, clock, unitOfWork).execute(
+        UNKNOWN_ID,
+      );
+
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(UserNotFoundError);
+      expect(result.error.code).toBe('USER_NOT_FOUND');
+    });
+  });
+
+  describe('DeleteUserUseCase and GetUserByIdUseCase', () => {
+    it('should delete the user so it can no longer be found', async () => {
+      const getUser = new GetUserByIdUseCase(repository);
+      const found = await getUser.execute(alice.id);
+      if (!found.isSuccess) throw found.error;
+      expect(found.value.email).toBe('alice@example.com');
+
+      const deleted = await new DeleteUserUseCase(repository, clock, unitOfWork).execute(alice.id);
+      if (!deleted.isSuccess) throw deleted.error;
+      expect(outbox.all().map((entry) => entry.event)).toEqual([
+        expect.objectContaining({ eventType: 'example.UserDeleted', aggregateId: alice.id }),
+      ]);
+
+      const missing = await getUser.execute(alice.id);
+      if (!missing.isFailure) throw new Error('Expected failure');
+      expect(missing.error).toBeInstanceOf(UserNotFoundError);
+    });
+
+    it('should report unknown users when deleting', async () => {
+      const result = await new DeleteUserUseCase(repository, clock, unitOfWork).execute(UNKNOWN_ID);
+
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(UserNotFoundError);
+    });
+  });
+});
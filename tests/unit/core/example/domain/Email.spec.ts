@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createEmail,
+  EmailCanonicalizer,
+  InvalidEmailError,
+  type Email,
+  type InvalidEmailReason,
+} from '@core/example/domain/valueObjects/Email';
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+const reasonFor = (value: string): InvalidEmailReason | undefined => {
+  const result = createEmail(value);
+  return result.isFailure ? result.error.reason : undefined;
+};
+
+describe('Email', () => {
+  describe('createEmail', () => {
+    it('should keep the local part as entered and lowercase the domain', () => {
+      expect(email('  Jane.Doe+News@Example.COM ')).toBe('Jane.Doe+News@example.com');
+    });
+
+    it('should convert internationalized domains to punycode', () => {
+      expect(email('user@Bücher.example')).toBe('user@xn--bcher-kva.example');
+      expect(email('user@xn--bcher-kva.example')).toBe('user@xn--bcher-kva.example');
+    });
+
+    it('should report a specific reason for each rejected address', () => {
+      const cases: Array<[string, InvalidEmailReason]> = [
+        ['   ', 'EMPTY'],
+        ['user.example.com', 'MISSING_AT'],
+        ['@example.com', 'LOCAL_PART_EMPTY'],
+        [`${'a'.repeat(65)}@example.com`, 'LOCAL_PART_TOO_LONG'],
+        ['jane..doe@example.com', 'INVALID_LOCAL_PART'],
+        ['.jane@example.com', 'INVALID_LOCAL_PART'],
+        ['"jane doe"@example.com', 'QUOTED_LOCAL_PART_NOT_ALLOWED'],
+        ['jane@', 'DOMAIN_EMPTY'],
+        ['jane@[192.168.0.1]', 'DOMAIN_LITERAL_NOT_ALLOWED'],
+        ['jane@exa%41mple.com', 'INVALID_DOMAIN'],
+        ['jane@localhost', 'SINGLE_LABEL_DOMAIN'],
+        ['jane@-example.com', 'INVALID_DOMAIN_LABEL'],
+        ['jane@example..com', 'INVALID_DOMAIN_LABEL'],
+        [`jane@${'a'.repeat(64)}.com`, 'INVALID_DOMAIN_LABEL'],
+        ['jane@example.c0m', 'INVALID_TLD'],
+        ['jane@192.168.0.1', 'INVALID_TLD'],
+        [`jane@${'a.'.repeat(130)}com`, 'TOO_LONG'],
+      ];
+
+      for (const [value, reason] of cases) {
+        expect({ value, reason: reasonFor(value) }).toEqual({ value, reason });
+      }
+    });
+
+    it('should check length limits before pattern matching', () => {
+      expect(reasonFor(`${'a'.repeat(300)}@example.com`)).toBe('TOO_LONG');
+      expect(reasonFor(`${'a'.repeat(64)}@example.com`)).toBeUndefined();
+    });
+
+    it('should accept quoted local parts only when explicitly allowed', () => {
+      const result = createEmail('"jane doe"@example.com', { allowQuotedLocalPart: true });
+
+      if (!result.isSuccess) throw result.error;
+      expect(result.value).toBe('"jane doe"@example.com');
+      expect(createEmail('"jane"doe"@example.com', { allowQuotedLocalPart: true }).isFailure).toBe(
+        true,
+      );
+    });
+
+    it('should expose the reason on the error', () => {
+      const result = createEmail('jane@localhost');
+
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(InvalidEmailError);
+      expect(result.error.code).toBe('INVALID_EMAIL');
+      expect(result.error.toJSON()).toMatchObject({ details: { reason: 'SINGLE_LABEL_DOMAIN' } });
+    });
+  });
+
+  describe('EmailCanonicalizer', () => {
+    it('should compare local parts case-insensitively by default', () => {
+      const canonicalizer = new EmailCanonicalizer();
+
+      expect(canonicalizer.canonicalize(email('Jane.Doe+News@Example.com'))).toBe(
+        'jane.doe+news@example.com',
+      );
+    });
+
+    it('should optionally strip plus tags and fold Gmail dots', () => {
+      const canonicalizer = new EmailCanonicalizer({ stripPlusTags: true, gmailDots: true });
+
+      expect(canonicalizer.canonicalize(email('Jane.Doe+News@googlemail.com'))).toBe(
+        'janedoe@gmail.com',
+      );
+      expect(canonicalizer.canonicalize(email('jane.doe+news@example.com'))).toBe(
+        'jane.doe@example.com',
+      );
+    });
+  });
+});
@@ -1,16 +1,19 @@
 import { describe, it, expect } from 'vitest';
 import { PasswordPolicy, WeakPasswordError } from '@core/example/domain/policies/PasswordPolicy';
+import { ValidationError } from '@shared/kernel/errors';
 
 describe('PasswordPolicy', () => {
+  const policy = new PasswordPolicy();
+
   describe('validate', () => {
     it('should succeed for valid password', () => {
-      const result = PasswordPolicy.validate('ValidPass1!');
+      const result = policy.validate('ValidPass1!');
 
       expect(result.isSuccess).toBe(true);
     });
 
     it('should fail when password is too short', () => {
-      const result = PasswordPolicy.validate('Short1!');
+      const result = policy.validate('Short1!');
 
       expect(result.isFailure).toBe(true);
       if (!result.isFailure) throw new Error('Expected failure');
@@ -19,7 +22,7 @@ describe('PasswordPolicy', () => {
     });
 
     it('should fail when password has no uppercase letter', () => {
-      const result = PasswordPolicy.validate('lowercase1!');
+      const result = policy.validate('lowercase1!');
 
       expect(result.isFailure).toBe(true);
       if (!result.isFailure) throw new Error('Expected failure');
@@ -27,7 +30,7 @@ describe('PasswordPolicy', () => {
     });
 
     it('should fail when password has no lowercase letter', () => {
-      const result = PasswordPolicy.validate('UPPERCASE1!');
+      const result = policy.validate('UPPERCASE1!');
 
       expect(result.isFailure).toBe(true);
       if (!result.isFailure) throw new Error('Expected failure');
@@ -35,7 +38,7 @@ describe('PasswordPolicy', () => {
     });
 
     it('should fail when password has no digit', () => {
-      const result = PasswordPolicy.validate('NoDigits!');
+      const result = policy.validate('NoDigits!');
 
       expect(result.isFailure).toBe(true);
       if (!result.isFailure) throw new Error('Expected failure');
@@ -43,11 +46,93 @@ describe('PasswordPolicy', () => {
     });
 
     it('should fail when password has no special character', () => {
-      const result = PasswordPolicy.validate('NoSpecial1');
+      const result = policy.validate('NoSpecial1');
 
       expect(result.isFailure).toBe(true);
       if (!result.isFailure) throw new Error('Expected failure');
       expect(result.error.message).toContain('special character');
     });
   });
+
+  describe('violations', () => {
+    const violationsOf = (
+      result: ReturnType<PasswordPolicy['validate']>,
+    ): Array<string | undefined> => {
+      if (!result.isFailure) throw new Error('Expected failure');
+      return result.error.violations.map((v) => v.rule);
+    };
+
+    it('should report every failed rule as a separate violation', () => {
+      const result = policy.validate('short');
+
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(ValidationError);
+      expect(result.error.code).toBe('WEAK_PASSWORD');
+      expect(result.error.violations).toEqual([
+        {
+          field: 'password',
+          rule: 'minLength',
+          message: 'Password must be at least 8 characters long',
+        },
+        {
+          field: 'password',
+          rule: 'uppercase',
+          message: 'Password must contain at least one uppercase letter',
+        },
+        { field: 'password', rule: 'digit', message: 'Password must contain at least one digit' },
+        {
+          field: 'password',
+          rule: 'special',
+          message: 'Password must contain at least one special character',
+        },
+      ]);
+    });
+
+    it('should reject passwords longer than the maximum length', () => {
+      const result = new PasswordPolicy({ maxLength: 12 }).validate('ValidPass1!-too-long');
+
+      expect(violationsOf(result)).toEqual(['maxLength']);
+    });
+
+    it('should reject passwords containing the email local part', () => {
+      const result = policy.validate('Jane.Doe2024!', { email: 'jane.doe@example.com' });
+
+      expect(violationsOf(result)).toEqual(['excludesEmail']);
+      expect(policy.validate('ValidPass1!', { email: 'jane.doe@example.com' }).isSuccess).toBe(
+        true,
+      );
+    });
+
+    it('should reject deny-listed passwords case-insensitively', () => {
+      const withDenyList = new PasswordPolicy({ denyList: ['password123!'] });
+
+      expect(violationsOf(withDenyList.validate('Password123!'))).toEqual(['notCommon']);
+      expect(withDenyList.validate('ValidPass1!').isSuccess).toBe(true);
+    });
+  });
+
+  describe('configuration', () => {
+    const configured = PasswordPolicy.fromConfig({
+      minLength: 10,
+      specialCharacters: '',
+      tiers: { admin: { minLength: 14 } },
+    });
+
+    it('should apply configured thresholds', () => {
+      expect(configured.validate('Valid1Pass').isSuccess).toBe(true);
+      expect(configured.validate('Valid1Pas').isFailure).toBe(true);
+    });
+
+    it('should apply tier overrides on top of the base rules', () => {
+      expect(configured.rulesFor('admin')).toMatchObject({ minLength: 14, specialCharacters: '' });
+      expect(configured.validate('Valid1Pass', { tier: 'admin' }).isFailure).toBe(true);
+      expect(configured.validate('Valid1PassLonger', { tier: 'admin' }).isSuccess).toBe(true);
+    });
+
+    it('should reject unknown tiers', () => {
+      expect(() => configured.validate('Valid1Pass', { tier: 'root' })).toThrow(
+        'Unknown password policy tier: root',
+      );
+    });
+  });
 });
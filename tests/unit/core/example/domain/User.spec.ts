@@ -1,12 +1,20 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { User } from '@core/example/domain/entities/User';
 import { createEmail } from '@core/example/domain/valueObjects/Email';
+import {
+  UserActivated,
+  UserCreated,
+  UserDeactivated,
+  UserEmailChanged,
+  UserLoginFailed,
+  UserPasswordChanged,
+} from '@core/example/domain/events';
+import type { PasswordHash } from '@core/example/domain/valueObjects/PasswordHash';
+import { SequentialIdGenerator } from '@shared/kernel/id';
 
-describe('User Entity', () => {
-  beforeEach(() => {
-    vi.useFakeTimers();
-  });
+const changedAt = new Date('2026-01-05T00:00:00Z');
 
+describe('User Entity', () => {
   describe('create', () => {
     it('should create a new user with valid email', () => {
       const emailResult = createEmail('test@example.com');
@@ -21,24 +29,89 @@ describe('User Entity', () => {
       expect(user.createdAt).toBeInstanceOf(Date);
       expect(user.updatedAt).toBeInstanceOf(Date);
     });
+
+    it('should record a UserCreated event', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+
+      const user = User.create(emailResult.value);
+      const events = user.pullDomainEvents();
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(UserCreated);
+      expect(events[0]?.aggregateId).toBe(user.id);
+      expect(user.pullDomainEvents()).toEqual([]);
+    });
+
+    it('should take the user and event ids from an injected generator', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+
+      const user = User.create(emailResult.value, changedAt, {
+        idGenerator: new SequentialIdGenerator(),
+      });
+
+      expect(user.id).toBe('00000000-0000-7000-8000-000000000001');
+      expect(user.getDomainEvents()[0]?.eventId).toBe('00000000-0000-7000-8000-000000000002');
+    });
+  });
+
+  describe('reconstitute', () => {
+    it('should not record events and compare equal by identity', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+      const user = User.create(emailResult.value);
+
+      const copy = User.reconstitute({
+        id: user.id,
+        email: user.email,
+        isActive: false,
+        passwordHash: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      });
+
+      expect(copy.getDomainEvents()).toEqual([]);
+      expect(copy.equals(user)).toBe(true);
+      expect(copy.equals(User.create(emailResult.value))).toBe(false);
+    });
   });
 
   describe('changeEmail', () => {
-    it('should update email and updatedAt timestamp', () => {
-      const now = new Date('2026-01-04T00:00:00Z');
-      vi.setSystemTime(now);
+    it('should update email and stamp updatedAt with the given time', () => {
       const initialEmailResult = createEmail('initial@example.com');
       if (!initialEmailResult.isSuccess) throw initialEmailResult.error;
-      const user = User.create(initialEmailResult.value);
-      const initialUpdatedAt = user.updatedAt;
+      const user = User.create(initialEmailResult.value, new Date('2026-01-04T00:00:00Z'));
 
-      vi.setSystemTime(new Date('2026-01-04T00:00:01Z'));
       const newEmailResult = createEmail('new@example.com');
       if (!newEmailResult.isSuccess) throw newEmailResult.error;
-      user.changeEmail(newEmailResult.value);
+      user.changeEmail(newEmailResult.value, changedAt);
 
       expect(user.email).toBe('new@example.com');
-      expect(user.updatedAt.getTime()).toBeGreaterThan(initialUpdatedAt.getTime());
+      expect(user.updatedAt).toEqual(changedAt);
+      expect(user.createdAt).toEqual(new Date('2026-01-04T00:00:00Z'));
+    });
+
+    it('should record a UserEmailChanged event only when the email changes', () => {
+      const initialEmailResult = createEmail('initial@example.com');
+      const newEmailResult = createEmail('new@example.com');
+      if (!initialEmailResult.isSuccess) throw initialEmailResult.error;
+      if (!newEmailResult.isSuccess) throw newEmailResult.error;
+      const user = User.create(initialEmailResult.value);
+      user.clearDomainEvents();
+
+      user.changeEmail(initialEmailResult.value, changedAt);
+      user.changeEmail(newEmailResult.value, changedAt);
+
+      const events = user.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(UserEmailChanged);
+      expect(events[0]).toMatchObject({
+        previousEmail: 'initial@example.com',
+        email: 'new@example.com',
+      });
     });
   });
 
@@ -48,10 +121,24 @@ describe('User Entity', () => {
       if (!emailResult.isSuccess) throw emailResult.error;
       const user = User.create(emailResult.value);
 
-      user.deactivate();
+      user.deactivate(changedAt);
 
       expect(user.isActive).toBe(false);
     });
+
+    it('should record a UserDeactivated event', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+      const user = User.create(emailResult.value);
+      user.clearDomainEvents();
+
+      user.deactivate(changedAt);
+      user.deactivate(changedAt);
+
+      const events = user.pullDomainEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0]).toBeInstanceOf(UserDeactivated);
+    });
   });
 
   describe('activate', () => {
@@ -60,10 +147,105 @@ describe('User Entity', () => {
       if (!emailResult.isSuccess) throw emailResult.error;
       const user = User.create(emailResult.value);
 
-      user.deactivate();
-      user.activate();
+      user.deactivate(changedAt);
+      user.activate(changedAt);
 
       expect(user.isActive).toBe(true);
     });
+
+    it('should record a UserActivated event', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+      const user = User.create(emailResult.value);
+
+      user.deactivate(changedAt);
+      user.activate(changedAt);
+
+      expect(user.pullDomainEvents().map((e) => e.constructor)).toEqual([
+        UserCreated,
+        UserDeactivated,
+        UserActivated,
+      ]);
+    });
+  });
+
+  describe('credentials', () => {
+    const at = new Date('2026-01-04T00:00:00Z');
+    const later = (ms: number): Date => new Date(at.getTime() + ms);
+    const hash = '$scrypt$ln=4,r=8,p=1$c2FsdA$a2V5' as PasswordHash;
+    const lockout = { maxFailedAttempts: 3, lockoutDurationMs: 60_000 };
+    const newUser = (): User => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+      const user = User.create(emailResult.value, at, { passwordHash: hash });
+      user.clearDomainEvents();
+      return user;
+    };
+
+    it('should record the initial password hash on creation', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+
+      const user = User.create(emailResult.value, at, { passwordHash: hash });
+
+      expect(user.passwordHash).toBe(hash);
+      expect(user.getDomainEvents().map((e) => e.constructor)).toEqual([
+        UserCreated,
+        UserPasswordChanged,
+      ]);
+    });
+
+    it('should lock the account once failures reach the threshold', () => {
+      const user = newUser();
+
+      user.recordFailedLogin(at, lockout);
+      user.recordFailedLogin(later(1_000), lockout);
+      expect(user.isLockedAt(later(1_000))).toBe(false);
+      user.recordFailedLogin(later(2_000), lockout);
+
+      expect(user.failedLoginAttempts).toBe(3);
+      expect(user.lockedUntil).toEqual(later(62_000));
+      expect(user.isLockedAt(later(61_999))).toBe(true);
+      expect(user.isLockedAt(later(62_000))).toBe(false);
+      expect(user.getDomainEvents().at(-1)).toBeInstanceOf(UserLoginFailed);
+    });
+
+    it('should start counting afresh after a lockout expires', () => {
+      const user = newUser();
+      for (let i = 0; i < 3; i++) {
+        user.recordFailedLogin(at, lockout);
+      }
+
+      user.recordFailedLogin(later(120_000), lockout);
+
+      expect(user.failedLoginAttempts).toBe(1);
+      expect(user.lockedUntil).toBeNull();
+    });
+
+    it('should reset failures on a successful login or password change', () => {
+      const user = newUser();
+      user.recordFailedLogin(at, lockout);
+      user.recordSuccessfulLogin(later(1_000));
+      expect(user.failedLoginAttempts).toBe(0);
+
+      user.recordFailedLogin(later(2_000), lockout);
+      user.changePassword('$scrypt$ln=5,r=8,p=1$c2FsdA$a2V5' as PasswordHash, later(3_000));
+
+      expect(user.failedLoginAttempts).toBe(0);
+      expect(user.updatedAt).toEqual(later(3_000));
+    });
+
+    it('should rebuild lockout state, but not the hash, from history', () => {
+      const emailResult = createEmail('test@example.com');
+      if (!emailResult.isSuccess) throw emailResult.error;
+      const user = User.create(emailResult.value, at, { passwordHash: hash });
+      user.recordFailedLogin(at, lockout);
+
+      const rebuilt = User.fromHistory(user.getDomainEvents());
+
+      expect(user.passwordHash).toBe(hash);
+      expect(rebuilt?.passwordHash).toBeNull();
+      expect(rebuilt?.failedLoginAttempts).toBe(1);
+    });
   });
 });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { EventRegistry } from '@shared/kernel/events';
+import {
+  UserCreated,
+  UserDeactivated,
+  UserEmailChanged,
+  UserLoginFailed,
+  UserPasswordChanged,
+  userEventDefinitions,
+} from '@core/example/domain/events';
+import { User } from '@core/example/domain/entities/User';
+import { createEmail, type Email } from '@core/example/domain/valueObjects/Email';
+import type { PasswordHash } from '@core/example/domain/valueObjects/PasswordHash';
+
+const email = (value: string): Email => {
+  const result = createEmail(value);
+  if (!result.isSuccess) throw result.error;
+  return result.value;
+};
+
+describe('User events', () => {
+  const registry = new EventRegistry().register(...userEventDefinitions);
+
+  it('should declare explicit namespaced event types', () => {
+    expect(new UserCreated('user-1', email('a@example.com')).eventType).toBe('example.UserCreated');
+    expect(registry.list().map((d) => d.type)).toEqual([
+      'example.UserCreated',
+      'example.UserEmailChanged',
+      'example.UserDeactivated',
+      'example.UserActivated',
+      'example.UserPasswordChanged',
+      'example.UserLoginFailed',
+      'example.UserAuthenticated',
+      'example.UserDeleted',
+    ]);
+  });
+
+  it('should round-trip events through JSON', () => {
+    const occurredAt = new Date('2026-01-04T00:00:00Z');
+    const events = [
+      new UserCreated('user-1', email('a@example.com'), occurredAt),
+      new UserEmailChanged('user-1', email('a@example.com'), email('b@example.com'), occurredAt),
+      new UserDeactivated('user-1', occurredAt),
+      new UserPasswordChanged('user-1', occurredAt),
+      new UserLoginFailed('user-1', 5, new Date('2026-01-04T00:15:00Z'), occurredAt),
+      new UserLoginFailed('user-1', 1, null, occurredAt),
+    ];
+
+    for (const event of events) {
+      const stored = JSON.parse(JSON.stringify(registry.serialize(event))) as unknown;
+      const restored = registry.deserialize(stored);
+
+      if (!restored.isSuccess) throw restored.error;
+      expect(restored.value).toBeInstanceOf(event.constructor);
+      expect(restored.value).toEqual(event);
+      expect(restored.value.occurredAt).toEqual(occurredAt);
+    }
+  });
+
+  it('should keep password hashes out of serialized events', () => {
+    const hash = '$scrypt$ln=4,r=8,p=1$c2FsdA$a2V5' as PasswordHash;
+    const user = User.create(email('a@example.com'), new Date(), { passwordHash: hash });
+    user.changePassword(`${hash}2` as PasswordHash, new Date());
+
+    const serialized = JSON.stringify(user.getDomainEvents().map((e) => registry.serialize(e)));
+
+    expect(user.passwordHash).toBe(`${hash}2`);
+    expect(serialized).not.toContain('$scrypt$');
+  });
+});
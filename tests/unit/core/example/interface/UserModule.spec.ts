@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { CommandBus, QueryBus } from '@shared/kernel/bus';
+import { ConcurrencyError, ValidationError } from '@shared/kernel/errors';
+import { Application, Kernel, provideValue } from '@shared/kernel/module';
+import { InMemoryEventBus } from '@shared/kernel/events';
+import { InMemoryOutbox, OutboxRelay } from '@shared/kernel/persistence';
+import { FixedClock } from '@shared/kernel/time';
+import {
+  AuthenticateUser,
+  ChangePassword,
+  ChangeUserEmail,
+  CreateUser,
+  DeactivateUser,
+  DeleteUser,
+} from '@core/example/application/commands';
+import { GetUserById, ListUsers } from '@core/example/application/queries';
+import type { UserResponse } from '@core/example/application/dtos';
+import { UserNotFoundError } from '@core/example/application/use-cases';
+import { User } from '@core/example/domain/entities/User';
+import type { Email } from '@core/example/domain/valueObjects/Email';
+import { InMemoryUserRepository } from '@core/example/infrastructure/adapters/InMemoryUserRepository';
+import { ScryptPasswordHasher } from '@core/example/infrastructure/adapters/ScryptPasswordHasher';
+import { UserModule, UserTokens } from '@core/example/interface/UserModule';
+
+describe('UserModule', () => {
+  const clock = new FixedClock(new Date('2026-01-04T00:00:00Z'));
+  let application: Application;
+  let commandBus: CommandBus;
+  let queryBus: QueryBus;
+  let user: User;
+  let userRepository: InMemoryUserRepository;
+  let relay: OutboxRelay;
+
+  const getUser = (userId: string): Promise<UserResponse> =>
+    queryBus.execute(GetUserById.create({ userId }));
+
+  beforeEach(async () => {
+    userRepository = new InMemoryUserRepository();
+    const outbox = new InMemoryOutbox();
+    const eventBus = new InMemoryEventBus();
+    relay = new OutboxRelay(outbox, eventBus, clock);
+    application = Application.bootstrap({
+      modules: [UserModule],
+      overrides: [
+        provideValue(Kernel.Clock, clock),
+        provideValue(Kernel.Outbox, outbox),
+        provideValue(Kernel.EventBus, eventBus),
+        provideValue(UserTokens.UserRepository, userRepository),
+        provideValue(UserTokens.PasswordHasher, new ScryptPasswordHasher({ logCost: 4 })),
+      ],
+    });
+    ({ commandBus, queryBus } = application);
+    user = User.create('alice@example.com' as Email, new Date('2026-01-01T00:00:00Z'));
+    await userRepository.save(user);
+  });
+
+  it('should dispatch lifecycle commands to their use cases', async () => {
+    await commandBus.execute(
+      ChangeUserEmail.create({ userId: user.id, email: 'alice@corp.example' }),
+    );
+    const response = await commandBus.execute(DeactivateUser.create({ userId: user.id }));
+
+    expect(response).toEqual({
+      userId: user.id,
+      email: 'alice@corp.example',
+      isActive: false,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-04T00:00:00Z'),
+    });
+    expect(await getUser(user.id)).toEqual(response);
+  });
+
+  it('should retry lifecycle commands that lose a version race', async () => {
+    const save = userRepository.save.bind(userRepository);
+    let conflicts = 1;
+    userRepository.save = async (saved, expectedVersion) => {
+      if (conflicts-- > 0) {
+        throw ConcurrencyError.forAggregate(saved.id, saved.version, saved.version + 1);
+      }
+      return save(saved, expectedVersion);
+    };
+
+    const response = await commandBus.execute(DeactivateUser.create({ userId: user.id }));
+
+    expect(response.isActive).toBe(false);
+    expect(conflicts).toBe(-1);
+  });
+
+  it('should create users through the bus and authenticate them via its export', async () => {
+    const created = await commandBus.execute(
+      CreateUser.create({ email: 'bob@example.com', password: 'Correct-Horse-1!' }),
+    );
+
+    const authenticated = await application
+      .get(UserTokens.AuthenticateUser)
+      .execute('bob@example.com', 'Correct-Horse-1!');
+
+    expect(authenticated.isSuccess && authenticated.value.id).toBe(created.userId);
+  });
+
+  it('should change passwords and authenticate through the bus', async () => {
+    const { userId } = await commandBus.execute(
+      CreateUser.create({ email: 'bob@example.com', password: 'Correct-Horse-1!' }),
+    );
+    await commandBus.execute(
+      ChangePassword.create({
+        userId,
+        currentPassword: 'Correct-Horse-1!',
+        newPassword: 'Battery-Staple-2?',
+      }),
+    );
+
+    const authenticated = await commandBus.execute(
+      AuthenticateUser.create({ email: 'bob@example.com', password: 'Battery-Staple-2?' }),
+    );
+
+    expect(authenticated.userId).toBe(userId);
+    await expect(
+      commandBus.execute(
+        AuthenticateUser.create({ email: 'bob@example.com', password: 'Correct-Horse-1!' }),
+      ),
+    ).rejects.toMatchObject({ code: 'INVALID_CREDENTIALS' });
+  });
+
+  it('should list users from the directory projected from relayed events', async () => {
+    const bob = await commandBus.execute(
+      CreateUser.create({ email: 'bob@example.com', password: 'Correct-Horse-1!' }),
+    );
+    const carol = await commandBus.execute(
+      CreateUser.create({ email: 'carol@example.com', password: 'Correct-Horse-1!' }),
+    );
+    await commandBus.execute(DeactivateUser.create({ userId: carol.userId }));
+    await relay.relayPending();
+
+    expect((await queryBus.execute(ListUsers.create({}))).map((u) => u.id)).toEqual([
+      bob.userId,
+      carol.userId,
+    ]);
+    expect(
+      (await queryBus.execute(ListUsers.create({ activeOnly: true }))).map((u) => u.id),
+    ).toEqual([bob.userId]);
+
+    await commandBus.execute(DeleteUser.create({ userId: bob.userId }));
+    await relay.relayPending();
+
+    expect((await queryBus.execute(ListUsers.create({}))).map((u) => u.id)).toEqual([
+      carol.userId,
+    ]);
+  });
+
+  it('should reject malformed messages before any handler runs', async () => {
+    const error = await commandBus
+      .execute({ commandId: 'c-1', commandType: CreateUser.type, email: 42 } as never)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).violations).toEqual([
+      expect.objectContaining({ field: 'email', rule: 'invalid_type' }),
+      expect.objectContaining({ field: 'password', rule: 'invalid_type' }),
+    ]);
+  });
+
+  it('should surface typed errors from the handlers', async () => {
+    await commandBus.execute(DeleteUser.create({ userId: user.id }));
+
+    await expect(getUser(user.id)).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+
+  it('should keep its adapters private', () => {
+    expect(() => application.get(UserTokens.UserRepository)).toThrow(
+      'example.UserRepository is not exported by any module',
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { defaults } from '@config/index';
+import { InMemoryCommandBus, InMemoryQueryBus } from '@shared/kernel/bus';
+import { generateAsyncApi, generateOpenApi } from '@shared/kernel/contracts';
+import { ErrorCatalog, kernelErrorDefinitions } from '@shared/kernel/errors';
+import { EventRegistry } from '@shared/kernel/events';
+import { httpErrorDefinitions } from '@shared/kernel/http';
+import { userResponseSchema } from '@core/example/application/dtos';
+import { userErrorDefinitions } from '@core/example/application/errors';
+import { User } from '@core/example/domain/entities/User';
+import { userEventDefinitions } from '@core/example/domain/events';
+import type { Email } from '@core/example/domain/valueObjects/Email';
+import { UserMapper } from '@core/example/infrastructure/mappers/UserMapper';
+import { userRoutes } from '@core/example/interface/http/userRoutes';
+
+/**
+ * The generated documents are committed under `docs/contracts`; a contract
+ * change fails here until the snapshots are updated with `vitest run -u`.
+ */
+describe('user API contracts', () => {
+  const info = { title: defaults.service.name, version: defaults.service.version };
+  const toJson = (document: unknown): string => `${JSON.stringify(document, null, 2)}\n`;
+
+  it('should match the published OpenAPI document', async () => {
+    const document = generateOpenApi({
+      info,
+      routes: userRoutes({
+        commandBus: new InMemoryCommandBus(),
+        queryBus: new InMemoryQueryBus(),
+      }),
+      catalog: new ErrorCatalog()
+        .register('kernel', ...kernelErrorDefinitions)
+        .register('http', ...httpErrorDefinitions)
+        .register('example', ...userErrorDefinitions),
+    });
+
+    await expect(toJson(document)).toMatchFileSnapshot(
+      '../../../../../../docs/contracts/openapi.json',
+    );
+  });
+
+  it('should decode the JSON the API sends back into the response DTO', () => {
+    const response = UserMapper.toUserResponse(
+      User.create('alice@example.com' as Email, new Date('2026-01-04T00:00:00Z')),
+    );
+
+    const decoded = userResponseSchema.safeParse(JSON.parse(JSON.stringify(response)));
+
+    expect(decoded.success && decoded.data).toEqual(response);
+  });
+
+  it('should match the published AsyncAPI document', async () => {
+    const document = generateAsyncApi({
+      info,
+      registry: new EventRegistry().register(...userEventDefinitions),
+    });
+
+    await expect(toJson(document)).toMatchFileSnapshot(
+      '../../../../../../docs/contracts/asyncapi.json',
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeDependencies,
+  toMermaid,
+  type SourceFile,
+} from '../../../../scripts/architecture/moduleGraph';
+
+const file = (path: string, ...imports: string[]): SourceFile => ({
+  path,
+  text: imports.map((specifier) => `import { x } from '${specifier}';`).join('\n'),
+});
+
+describe('analyzeDependencies', () => {
+  const sources = [
+    file('src/shared/kernel/id/createId.ts', 'node:crypto'),
+    file('src/core/billing/index.ts', './application/Invoices'),
+    file('src/core/billing/application/Invoices.ts', '../domain/Invoice', '@shared/kernel/id'),
+    file('src/core/billing/domain/Invoice.ts', '../infrastructure/SqlInvoices'),
+    file('src/core/billing/infrastructure/SqlInvoices.ts', '../domain/Invoice', 'zod'),
+    file('src/core/users/application/Signup.ts', '@core/billing', '@core/billing/domain/Invoice'),
+  ];
+
+  it('should build the module and layer graph', () => {
+    const report = analyzeDependencies(sources);
+
+    expect(report.nodes.map((node) => node.id)).toEqual([
+      'billing.application',
+      'billing.domain',
+      'billing.infrastructure',
+      'billing.root',
+      'shared.kernel',
+      'users.application',
+    ]);
+    expect(report.edges).toContainEqual({
+      from: 'users.application',
+      to: 'billing.root',
+      imports: 1,
+    });
+    expect(report.edges).toContainEqual({
+      from: 'billing.application',
+      to: 'shared.kernel',
+      imports: 1,
+    });
+  });
+
+  it('should report layer and cross-context violations', () => {
+    const report = analyzeDependencies([
+      ...sources,
+      file('src/shared/kernel/bus/Bus.ts', '@core/users/application/Signup'),
+    ]);
+
+    expect(report.violations).toEqual([
+      {
+        kind: 'layer',
+        file: 'src/core/billing/domain/Invoice.ts',
+        specifier: '../infrastructure/SqlInvoices',
+        message: 'domain must not depend on infrastructure',
+      },
+      {
+        kind: 'cross-context',
+        file: 'src/core/users/application/Signup.ts',
+        specifier: '@core/billing/domain/Invoice',
+        message: 'users may only import billing through its public API',
+      },
+      {
+        kind: 'shared-depends-on-context',
+        file: 'src/shared/kernel/bus/Bus.ts',
+        specifier: '@core/users/application/Signup',
+        message: 'shared code must not depend on context users',
+      },
+    ]);
+  });
+
+  it('should accept imports of a declared public API', () => {
+    const report = analyzeDependencies(sources, { publicApi: { billing: ['domain/Invoice'] } });
+
+    expect(report.violations.map((v) => v.kind)).toEqual(['layer']);
+  });
+});
+
+describe('toMermaid', () => {
+  it('should render one subgraph per module', () => {
+    const mermaid = toMermaid(
+      analyzeDependencies([
+        file('src/core/users/domain/User.ts', '@shared/kernel/domain'),
+        file('src/shared/kernel/domain/Entity.ts'),
+      ]),
+    );
+
+    expect(mermaid).toBe(
+      [
+        'flowchart TD',
+        '  subgraph shared[shared]',
+        '    shared_kernel[kernel]',
+        '  end',
+        '  subgraph users[users]',
+        '    users_domain[domain]',
+        '  end',
+        '  users_domain -->|1| shared_kernel',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  ErrorToResultMiddleware,
+  InMemoryCommandBus,
+  InMemoryQueryBus,
+  defineCommand,
+  defineQuery,
+  type CommandFrom,
+  type QueryFrom,
+} from '@shared/kernel/bus';
+import { ValidationError } from '@shared/kernel/errors';
+import type { Failure } from '@shared/kernel/result';
+
+const PlaceOrder = defineCommand(
+  'orders.PlaceOrder',
+  z.object({
+    customerId: z.string().min(1),
+    lines: z.array(z.object({ sku: z.string(), quantity: z.number().int().positive() })).min(1),
+    note: z.string().default(''),
+  }),
+);
+type PlaceOrderCommand = CommandFrom<typeof PlaceOrder>;
+
+const FindOrders = defineQuery('orders.FindOrders', z.object({ limit: z.number().max(100) }));
+type FindOrdersQuery = QueryFrom<typeof FindOrders>;
+
+interface OrderCommands {
+  'orders.PlaceOrder': { command: PlaceOrderCommand; result: string };
+}
+interface OrderQueries {
+  'orders.FindOrders': { query: FindOrdersQuery; result: string[] };
+}
+
+describe('defineCommand / defineQuery', () => {
+  it('should build messages with a generated id', () => {
+    const command = PlaceOrder.create({ customerId: 'c-1', lines: [{ sku: 'A', quantity: 1 }] });
+    const query = FindOrders.create({ limit: 10 }, 'q-1');
+
+    expect(command).toMatchObject({ commandType: 'orders.PlaceOrder', customerId: 'c-1' });
+    expect(command.commandId).toEqual(expect.any(String));
+    expect(query).toEqual({ queryId: 'q-1', queryType: 'orders.FindOrders', limit: 10 });
+  });
+
+  it('should report a violation per field path', () => {
+    const result = PlaceOrder.parse({
+      commandId: 'c-1',
+      commandType: PlaceOrder.type,
+      customerId: '',
+      lines: [{ sku: 'A', quantity: 0 }],
+    } as PlaceOrderCommand);
+
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error.message).toBe('Invalid command orders.PlaceOrder');
+    expect(result.error.violations.map((v) => [v.field, v.rule])).toEqual([
+      ['customerId', 'too_small'],
+      ['lines.0.quantity', 'too_small'],
+    ]);
+  });
+
+  it('should expose the payload schema as JSON Schema', () => {
+    expect(FindOrders.jsonSchema()).toMatchObject({
+      type: 'object',
+      properties: { limit: { type: 'number', maximum: 100 } },
+      required: ['limit'],
+    });
+  });
+});
+
+describe('bus validation', () => {
+  it('should hand the parsed message to the handler', async () => {
+    const bus = new InMemoryCommandBus<OrderCommands>();
+    const handle = vi.fn(async (_command: PlaceOrderCommand) => 'placed');
+    bus.register(PlaceOrder, { handle });
+
+    await bus.execute(PlaceOrder.create({ customerId: 'c-1', lines: [{ sku: 'A', quantity: 2 }] }));
+
+    expect(handle.mock.calls[0]?.[0]).toMatchObject({ commandId: expect.any(String), note: '' });
+    expect(bus.definitions()).toEqual([PlaceOrder]);
+  });
+
+  it('should fail inside the middleware pipeline without calling the handler', async () => {
+    const bus = new InMemoryQueryBus<OrderQueries>();
+    const handle = vi.fn(async () => []);
+    bus.use(new ErrorToResultMiddleware());
+    bus.register(FindOrders, { handle });
+
+    const outcome: unknown = await bus.execute(FindOrders.create({ limit: 500 }));
+    const { error } = outcome as Failure<ValidationError>;
+
+    expect(handle).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.violations).toEqual([
+      { field: 'limit', message: expect.any(String), rule: 'too_big' },
+    ]);
+  });
+});
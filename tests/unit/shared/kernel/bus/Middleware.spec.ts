@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ErrorToResultMiddleware,
+  InMemoryCommandBus,
+  InMemoryQueryBus,
+  LoggingMiddleware,
+  TimingMiddleware,
+  type AnyCommandMap,
+  type AnyQueryMap,
+  type Command,
+  type DispatchContext,
+  type Middleware,
+  type Next,
+  type TimingMeasurement,
+} from '@shared/kernel/bus';
+import type { Result } from '@shared/kernel/result';
+import type { Clock } from '@shared/kernel/time';
+import type { LogContext, Logger } from '@shared/kernel/logger';
+
+class RecordingMiddleware implements Middleware {
+  constructor(
+    private readonly name: string,
+    private readonly calls: string[],
+  ) {}
+
+  public async handle(_message: Command, _context: DispatchContext, next: Next): Promise<unknown> {
+    this.calls.push(`${this.name}:before`);
+    const result = await next();
+    this.calls.push(`${this.name}:after`);
+    return result;
+  }
+}
+
+class SteppingClock implements Clock {
+  private current = 1000;
+
+  public now(): Date {
+    return new Date(this.timestamp());
+  }
+
+  public timestamp(): number {
+    const value = this.current;
+    this.current += 25;
+    return value;
+  }
+
+  public async sleep(ms: number): Promise<void> {
+    this.current += ms;
+  }
+}
+
+class RecordingLogger implements Logger {
+  public readonly entries: Array<{ level: string; message: string; context?: LogContext }> = [];
+
+  public debug(message: string, context?: LogContext): void {
+    this.entries.push({ level: 'debug', message, context });
+  }
+
+  public info(message: string, context?: LogContext): void {
+    this.entries.push({ level: 'info', message, context });
+  }
+
+  public warn(message: string, context?: LogContext): void {
+    this.entries.push({ level: 'warn', message, context });
+  }
+
+  public error(message: string, _error?: Error, context?: LogContext): void {
+    this.entries.push({ level: 'error', message, context });
+  }
+
+  public child(): Logger {
+    return this;
+  }
+}
+
+const command = (commandType: string): Command => ({ commandId: 'cmd-1', commandType });
+
+describe('Bus middleware', () => {
+  let bus: InMemoryCommandBus<AnyCommandMap>;
+  let calls: string[];
+
+  beforeEach(() => {
+    bus = new InMemoryCommandBus<AnyCommandMap>();
+    calls = [];
+    bus.register('Ping', {
+      handle: async () => {
+        calls.push('handler');
+        return 'pong';
+      },
+    });
+  });
+
+  it('should run global then per-type middleware in registration order', async () => {
+    bus.useFor('Ping', new RecordingMiddleware('typed', calls));
+    bus.use(new RecordingMiddleware('first', calls));
+    bus.use(new RecordingMiddleware('second', calls));
+
+    const result = await bus.execute(command('Ping'));
+
+    expect(result).toBe('pong');
+    expect(calls).toEqual([
+      'first:before',
+      'second:before',
+      'typed:before',
+      'handler',
+      'typed:after',
+      'second:after',
+      'first:after',
+    ]);
+  });
+
+  it('should not apply per-type middleware to other command types', async () => {
+    bus.register('Other', { handle: async () => 'other' });
+    bus.useFor('Ping', new RecordingMiddleware('typed', calls));
+
+    await bus.execute(command('Other'));
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should allow middleware to short-circuit and transform results', async () => {
+    bus.use({ handle: async () => 'cached' });
+
+    expect(await bus.execute(command('Ping'))).toBe('cached');
+    expect(calls).toEqual([]);
+
+    const transformed = new InMemoryCommandBus<AnyCommandMap>();
+    transformed.register('Ping', { handle: async () => 'pong' });
+    transformed.use({ handle: async (_m, _c, next) => `${String(await next())}!` });
+    expect(await transformed.execute(command('Ping'))).toBe('pong!');
+  });
+
+  it('should reject when next() is called twice', async () => {
+    bus.use({
+      handle: async (_m, _c, next) => {
+        await next();
+        return next();
+      },
+    });
+
+    await expect(bus.execute(command('Ping'))).rejects.toThrow('next() called multiple times');
+  });
+
+  it('should convert thrown errors into failures', async () => {
+    bus.register('Boom', {
+      handle: async () => {
+        throw new Error('boom');
+      },
+    });
+    bus.use(new ErrorToResultMiddleware());
+
+    const result = (await bus.execute(command('Boom'))) as Result<never, Error>;
+
+    expect(result.isFailure).toBe(true);
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error.message).toBe('boom');
+  });
+
+  it('should measure duration with the clock', async () => {
+    const measurements: TimingMeasurement[] = [];
+    bus.use(new TimingMiddleware(new SteppingClock(), (m) => measurements.push(m)));
+
+    await bus.execute(command('Ping'));
+
+    expect(measurements).toEqual([
+      { kind: 'command', messageType: 'Ping', messageId: 'cmd-1', durationMs: 25, succeeded: true },
+    ]);
+  });
+
+  it('should log dispatch and failures through the logger', async () => {
+    const logger = new RecordingLogger();
+    const queryBus = new InMemoryQueryBus<AnyQueryMap>();
+    queryBus.register('Fails', {
+      handle: async () => {
+        throw new Error('nope');
+      },
+    });
+    queryBus.use(new LoggingMiddleware(logger));
+
+    await expect(queryBus.execute({ queryId: 'q-1', queryType: 'Fails' })).rejects.toThrow('nope');
+
+    expect(logger.entries.map((e) => e.level)).toEqual(['debug', 'error']);
+    expect(logger.entries[1]?.context).toEqual({
+      kind: 'query',
+      messageType: 'Fails',
+      messageId: 'q-1',
+    });
+  });
+
+  it('should log the request id carried in message metadata', async () => {
+    const logger = new RecordingLogger();
+    const commandBus = new InMemoryCommandBus<AnyCommandMap>();
+    commandBus.register('Ping', { handle: async () => 'pong' });
+    commandBus.use(new LoggingMiddleware(logger));
+
+    await commandBus.execute({ ...command('Ping'), metadata: { requestId: 'req-7' } });
+
+    expect(logger.entries.map((e) => e.context?.requestId)).toEqual(['req-7', 'req-7']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  InMemoryCommandBus,
+  InMemoryQueryBus,
+  type Command,
+  type Query,
+} from '@shared/kernel/bus';
+import { CreateUser, DeleteUser } from '@core/example/application/commands';
+import { GetUserById } from '@core/example/application/queries';
+import type { CreateUserResponse, UserResponse } from '@core/example/application/dtos';
+
+interface RenameCommand extends Command {
+  readonly commandType: 'test.Rename';
+  readonly name: string;
+}
+interface CountQuery extends Query {
+  readonly queryType: 'test.Count';
+}
+
+interface TestCommands {
+  'test.Rename': { command: RenameCommand; result: { renamed: boolean } };
+}
+interface TestQueries {
+  'test.Count': { query: CountQuery; result: number };
+}
+
+describe('typed bus registry', () => {
+  it('should infer results from the message type', async () => {
+    const commands = new InMemoryCommandBus<TestCommands>();
+    const queries = new InMemoryQueryBus<TestQueries>();
+    commands.register('test.Rename', { handle: async () => ({ renamed: true }) });
+    queries.register('test.Count', { handle: async () => 3 });
+
+    const renamed = await commands.execute({
+      commandId: 'c',
+      commandType: 'test.Rename',
+      name: 'x',
+    });
+    const count = await queries.execute({ queryId: 'q', queryType: 'test.Count' });
+
+    expectTypeOf(renamed).toEqualTypeOf<{ renamed: boolean }>();
+    expectTypeOf(count).toEqualTypeOf<number>();
+    expect([renamed, count]).toEqual([{ renamed: true }, 3]);
+  });
+
+  it('should reject wrong handlers and unregistered types at compile time', () => {
+    const commands = new InMemoryCommandBus<TestCommands>();
+    const queries = new InMemoryQueryBus<TestQueries>();
+
+    // @ts-expect-error the handler must resolve to the registered result type
+    commands.register('test.Rename', { handle: async () => 'renamed' });
+    // @ts-expect-error unregistered command type
+    commands.register('test.Unknown', { handle: async () => ({ renamed: true }) });
+    // @ts-expect-error unregistered query type
+    void queries.execute({ queryId: 'q', queryType: 'test.Unknown' }).catch(() => undefined);
+
+    expect(commands.definitions()).toEqual([]);
+  });
+
+  it('should use the entries contributed by bounded contexts by default', () => {
+    const commands = new InMemoryCommandBus();
+    const queries = new InMemoryQueryBus();
+    const createUser = () =>
+      commands.execute(CreateUser.create({ email: 'a@example.com', password: 'secret' }));
+    const deleteUser = () => commands.execute(DeleteUser.create({ userId: 'u-1' }));
+    const getUser = () => queries.execute(GetUserById.create({ userId: 'u-1' }));
+
+    expectTypeOf(createUser).returns.toEqualTypeOf<Promise<CreateUserResponse>>();
+    expectTypeOf(deleteUser).returns.toEqualTypeOf<Promise<void>>();
+    expectTypeOf(getUser).returns.toEqualTypeOf<Promise<UserResponse>>();
+  });
+});
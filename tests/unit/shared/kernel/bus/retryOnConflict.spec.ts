@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InMemoryCommandBus,
+  retryOnConflict,
+  type AnyCommandMap,
+  type Command,
+} from '@shared/kernel/bus';
+import { ConcurrencyError } from '@shared/kernel/errors';
+import { failure, success, type Result } from '@shared/kernel/result';
+import { ManualClock } from '@shared/kernel/time';
+
+const command: Command = { commandId: 'cmd-1', commandType: 'RenameUser' };
+
+describe('retryOnConflict', () => {
+  it('should re-run the handler until it stops conflicting', async () => {
+    let attempts = 0;
+    const clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    const bus = new InMemoryCommandBus<AnyCommandMap>();
+    bus.register(
+      'RenameUser',
+      retryOnConflict(
+        {
+          handle: async () => {
+            attempts += 1;
+            if (attempts < 3) {
+              throw ConcurrencyError.forAggregate('user-1', attempts, attempts + 1);
+            }
+            return 'renamed';
+          },
+        },
+        { maxAttempts: 3, delayMs: 10, clock },
+      ),
+    );
+
+    expect(await bus.execute(command)).toBe('renamed');
+    expect(attempts).toBe(3);
+    expect(clock.now()).toEqual(new Date('2026-01-04T00:00:00.020Z'));
+  });
+
+  it('should give up after the maximum attempts and surface the conflict', async () => {
+    let attempts = 0;
+    const handler = retryOnConflict<Command, Result<string, Error>>(
+      {
+        handle: async () => {
+          attempts += 1;
+          return failure(ConcurrencyError.forAggregate('user-1', 1, 2));
+        },
+      },
+      { maxAttempts: 2 },
+    );
+
+    const result = await handler.handle(command);
+
+    expect(attempts).toBe(2);
+    if (!result.isFailure) throw new Error('Expected failure');
+    expect(result.error).toBeInstanceOf(ConcurrencyError);
+    expect((result.error as ConcurrencyError).code).toBe('CONCURRENCY_CONFLICT');
+  });
+
+  it('should not retry other errors or successes', async () => {
+    let attempts = 0;
+    const failing = retryOnConflict({
+      handle: async () => {
+        attempts += 1;
+        throw new Error('boom');
+      },
+    });
+    const succeeding = retryOnConflict({ handle: async () => success('ok') });
+
+    await expect(failing.handle(command)).rejects.toThrow('boom');
+    expect(attempts).toBe(1);
+    expect((await succeeding.handle(command)).isSuccess).toBe(true);
+  });
+});
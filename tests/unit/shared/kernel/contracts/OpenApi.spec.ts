@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { defineQuery } from '@shared/kernel/bus';
+import { generateOpenApi } from '@shared/kernel/contracts';
+import { ErrorCatalog, kernelErrorDefinitions } from '@shared/kernel/errors';
+import { route, type RouteHandler } from '@shared/kernel/http';
+
+describe('generateOpenApi', () => {
+  const handle: RouteHandler = async () => ({ status: 204 });
+  const ListOrders = defineQuery(
+    'test.ListOrders',
+    z.object({ customerId: z.string(), status: z.enum(['open', 'closed']).optional() }),
+  );
+  const catalog = new ErrorCatalog().register('kernel', ...kernelErrorDefinitions);
+  const info = { title: 'test', version: '1.0.0' };
+
+  it('should read path parameters from the path and other query fields from the query', () => {
+    const document = generateOpenApi({
+      info,
+      catalog,
+      routes: [
+        route('GET', '/customers/:customerId/orders', handle, {
+          operationId: 'listOrders',
+          request: ListOrders,
+          response: { status: 204, description: 'No content' },
+        }),
+        route('GET', '/health', handle),
+      ],
+    });
+
+    expect(Object.keys(document.paths)).toEqual(['/customers/{customerId}/orders']);
+    expect(document.paths['/customers/{customerId}/orders']?.get).toMatchObject({
+      parameters: [
+        { name: 'customerId', in: 'path', required: true, schema: { type: 'string' } },
+        { name: 'status', in: 'query', required: false, schema: { enum: ['open', 'closed'] } },
+      ],
+      responses: {
+        204: { description: 'No content' },
+        400: { content: { 'application/problem+json': { examples: { VALIDATION_ERROR: {} } } } },
+        500: { content: { 'application/problem+json': { examples: { INTERNAL_ERROR: {} } } } },
+      },
+    });
+  });
+
+  it('should reject error codes missing from the catalog', () => {
+    expect(() =>
+      generateOpenApi({
+        info,
+        catalog,
+        routes: [
+          route('GET', '/orders', handle, {
+            operationId: 'orders',
+            response: { status: 204, description: 'No content' },
+            errors: ['ORDER_NOT_FOUND'],
+          }),
+        ],
+      }),
+    ).toThrow('Route GET /orders declares unregistered error code ORDER_NOT_FOUND');
+  });
+});
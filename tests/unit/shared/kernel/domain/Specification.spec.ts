@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { specification } from '@shared/kernel/domain';
+
+const positive = specification<number>('positive', (n) => n > 0, 'must be positive');
+const even = specification<number>('even', (n) => n % 2 === 0, 'must be even');
+const small = specification<number>('small', (n) => n < 10);
+
+describe('Specification', () => {
+  it('should compose with and, or and not', () => {
+    expect(positive.and(even).isSatisfiedBy(4)).toBe(true);
+    expect(positive.and(even).isSatisfiedBy(3)).toBe(false);
+    expect(positive.or(even).isSatisfiedBy(-2)).toBe(true);
+    expect(positive.or(even).isSatisfiedBy(-3)).toBe(false);
+    expect(even.not().isSatisfiedBy(3)).toBe(true);
+    expect(positive.and(even.not()).or(small).name).toBe('((positive and not even) or small)');
+  });
+
+  it('should explain every failed sub-rule of a conjunction', () => {
+    expect(positive.and(even).and(small).explain(-3)).toEqual({
+      satisfied: false,
+      failures: [
+        { rule: 'positive', message: 'must be positive' },
+        { rule: 'even', message: 'must be even' },
+      ],
+    });
+  });
+
+  it('should explain a disjunction only when both sides fail', () => {
+    expect(positive.or(even).explain(-2)).toEqual({ satisfied: true, failures: [] });
+    expect(positive.or(even).explain(-3).failures.map((f) => f.rule)).toEqual(['positive', 'even']);
+  });
+
+  it('should explain a negation by naming the rule that must not hold', () => {
+    expect(small.not().explain(1)).toEqual({
+      satisfied: false,
+      failures: [{ rule: 'not small', message: 'small must not be satisfied' }],
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ApplicationError,
+  DomainError,
+  ErrorCatalog,
+  ValidationError,
+  defineError,
+  kernelErrorDefinitions,
+  toProblemDetails,
+  type ErrorCategory,
+} from '@shared/kernel/errors';
+import { userErrorDefinitions } from '@core/example/application/errors';
+import { UserNotFoundError } from '@core/example/application/use-cases/GetUserByIdUseCase';
+
+class OrderRejectedError extends DomainError {
+  constructor(cause?: unknown) {
+    super('Order rejected: card 4111 declined', 'ORDER_REJECTED', {
+      details: { cardLast4: '4111' },
+      cause,
+    });
+  }
+}
+
+class OrderServiceError extends ApplicationError {
+  constructor(cause: unknown) {
+    super('Placing the order failed', 'ORDER_FAILED', undefined, { cause });
+  }
+}
+
+const orderRejected = defineError({
+  code: 'ORDER_REJECTED',
+  category: 'conflict',
+  message: 'The order could not be placed',
+  exposeDetails: false,
+});
+
+const newCatalog = (): ErrorCatalog =>
+  new ErrorCatalog()
+    .register('kernel', ...kernelErrorDefinitions)
+    .register('example', ...userErrorDefinitions)
+    .register('orders', orderRejected);
+
+describe('BaseError', () => {
+  it('should chain causes and serialize them', () => {
+    const root = new Error('gateway timeout');
+    const error = new OrderServiceError(new OrderRejectedError(root));
+
+    expect(error.cause).toBeInstanceOf(OrderRejectedError);
+    expect(error.toJSON()).toMatchObject({
+      code: 'ORDER_FAILED',
+      cause: {
+        code: 'ORDER_REJECTED',
+        details: { cardLast4: '4111' },
+        cause: { name: 'Error', message: 'gateway timeout' },
+      },
+    });
+  });
+});
+
+describe('ErrorCatalog', () => {
+  it('should reject duplicate codes, naming the owning module', () => {
+    expect(() => newCatalog().register('billing', orderRejected)).toThrow(
+      'Error code ORDER_REJECTED is already registered by module orders',
+    );
+  });
+
+  it('should validate codes and categories', () => {
+    const catalog = new ErrorCatalog();
+
+    expect(() =>
+      catalog.register('orders', { ...orderRejected, code: 'order-rejected' }),
+    ).toThrow('SCREAMING_SNAKE_CASE');
+    expect(() =>
+      catalog.register('orders', { ...orderRejected, category: 'teapot' as ErrorCategory }),
+    ).toThrow('Unknown error category for ORDER_REJECTED: teapot');
+  });
+});
+
+describe('toProblemDetails', () => {
+  const catalog = newCatalog();
+
+  it('should expose message and details when the definition allows it', () => {
+    const problem = toProblemDetails(new UserNotFoundError('u-1'), catalog, {
+      instance: '/users/u-1',
+    });
+
+    expect(problem).toEqual({
+      type: 'urn:problem-type:user-not-found',
+      title: 'The user does not exist',
+      status: 404,
+      detail: 'User u-1 not found',
+      instance: '/users/u-1',
+      code: 'USER_NOT_FOUND',
+      details: { userId: 'u-1' },
+    });
+  });
+
+  it('should fall back to the public message when details are not safe', () => {
+    const problem = toProblemDetails(new OrderRejectedError(), catalog, {
+      typeBase: 'https://errors.example.com/',
+    });
+
+    expect(problem).toEqual({
+      type: 'https://errors.example.com/order-rejected',
+      title: 'The order could not be placed',
+      status: 409,
+      detail: 'The order could not be placed',
+      code: 'ORDER_REJECTED',
+    });
+  });
+
+  it('should include validation violations', () => {
+    const problem = toProblemDetails(ValidationError.singleField('email', 'Required'), catalog);
+
+    expect(problem.status).toBe(400);
+    expect(problem.details).toMatchObject({ violations: [{ field: 'email', message: 'Required' }] });
+  });
+
+  it('should hide unregistered and foreign errors behind a generic 500', () => {
+    for (const error of [new OrderServiceError(null), new TypeError('x is undefined'), 'boom']) {
+      expect(toProblemDetails(error, catalog)).toEqual({
+        type: 'urn:problem-type:internal-error',
+        title: 'An unexpected error occurred',
+        status: 500,
+        detail: 'An unexpected error occurred',
+        code: 'INTERNAL_ERROR',
+      });
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  InMemoryDeadLetterStore,
+  InMemoryEventBus,
+  type DomainEvent,
+  type EventHandler,
+} from '@shared/kernel/events';
+import { ManualClock } from '@shared/kernel/time';
+
+const event = (eventId: string, eventType = 'UserCreated'): DomainEvent => ({
+  eventId,
+  eventType,
+  aggregateId: 'user-1',
+  occurredAt: new Date('2026-01-04T00:00:00Z'),
+});
+
+class FlakyHandler implements EventHandler {
+  public calls = 0;
+
+  constructor(private failures: number) {}
+
+  public async handle(): Promise<void> {
+    this.calls += 1;
+    if (this.failures > 0) {
+      this.failures -= 1;
+      throw new Error('mailer unavailable');
+    }
+  }
+}
+
+describe('InMemoryEventBus', () => {
+  let clock: ManualClock;
+  let deadLetters: InMemoryDeadLetterStore;
+
+  beforeEach(() => {
+    clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    deadLetters = new InMemoryDeadLetterStore();
+  });
+
+  it('should isolate a failing handler from the publisher and other handlers', async () => {
+    const bus = new InMemoryEventBus({ clock, deadLetters, retry: { maxAttempts: 1 } });
+    const received: string[] = [];
+    bus.subscribe('UserCreated', new FlakyHandler(Infinity));
+    bus.subscribe('UserCreated', {
+      handle: async (e) => {
+        received.push(e.eventId);
+      },
+    });
+
+    await expect(bus.publish(event('evt-1'))).resolves.toBeUndefined();
+
+    expect(received).toEqual(['evt-1']);
+  });
+
+  it('should reject after every handler ran when there is no dead-letter store', async () => {
+    const bus = new InMemoryEventBus({ clock });
+    const first = new FlakyHandler(Infinity);
+    const second = new FlakyHandler(Infinity);
+    const healthy = new FlakyHandler(0);
+    bus.subscribe('UserCreated', first);
+
+    await expect(bus.publish(event('evt-1'))).rejects.toThrow('mailer unavailable');
+
+    bus.subscribe('UserCreated', second);
+    bus.subscribe('UserCreated', healthy);
+    await expect(bus.publish(event('evt-2'))).rejects.toThrow(
+      '2 handlers failed for UserCreated',
+    );
+    expect(healthy.calls).toBe(1);
+  });
+
+  it('should tell apart several instances of one handler class', async () => {
+    const bus = new InMemoryEventBus({ clock, deadLetters });
+    bus.subscribe('UserCreated', new FlakyHandler(Infinity));
+    bus.subscribe('UserCreated', new FlakyHandler(Infinity));
+
+    await bus.publish(event('evt-1'));
+
+    expect((await bus.listDeadLetters()).map((letter) => letter.handlerName)).toEqual([
+      'FlakyHandler',
+      'FlakyHandler#2',
+    ]);
+  });
+
+  it('should retry with exponential backoff measured by the clock', async () => {
+    const bus = new InMemoryEventBus({
+      clock,
+      deadLetters,
+      retry: { maxAttempts: 3, baseDelayMs: 100 },
+    });
+    const handler = new FlakyHandler(2);
+    bus.subscribe('UserCreated', handler);
+
+    await bus.publish(event('evt-1'));
+
+    expect(handler.calls).toBe(3);
+    expect(clock.timestamp() - Date.parse('2026-01-04T00:00:00Z')).toBe(300);
+    expect(await deadLetters.list()).toEqual([]);
+  });
+
+  it('should dead-letter the event, handler name and error after the last attempt', async () => {
+    const bus = new InMemoryEventBus({
+      clock,
+      deadLetters,
+      retry: { maxAttempts: 2, baseDelayMs: 10 },
+    });
+    bus.subscribe('UserCreated', new FlakyHandler(Infinity));
+
+    await bus.publish(event('evt-1'));
+
+    const [letter] = await bus.listDeadLetters();
+    expect(letter).toMatchObject({
+      event: { eventId: 'evt-1' },
+      handlerName: 'FlakyHandler',
+      error: { name: 'Error', message: 'mailer unavailable' },
+      attempts: 2,
+      failedAt: new Date('2026-01-04T00:00:00.010Z'),
+    });
+  });
+
+  it('should replay a dead letter to the handler that failed it', async () => {
+    const bus = new InMemoryEventBus({ clock, deadLetters, retry: { maxAttempts: 1 } });
+    const handler = new FlakyHandler(1);
+    const other = new FlakyHandler(0);
+    bus.subscribe('UserCreated', handler);
+    bus.subscribe('UserCreated', other, { name: 'audit' });
+    await bus.publish(event('evt-1'));
+    const [letter] = await bus.listDeadLetters();
+    if (!letter) throw new Error('Expected a dead letter');
+
+    expect(await bus.replayDeadLetter(letter.id)).toBe(true);
+
+    expect(handler.calls).toBe(2);
+    expect(other.calls).toBe(1);
+    expect(await bus.listDeadLetters()).toEqual([]);
+  });
+
+  it('should deliver sequentially when configured for the event type', async () => {
+    const bus = new InMemoryEventBus({
+      clock,
+      deadLetters,
+      orderingByEventType: { UserCreated: 'sequential' },
+    });
+    const log: string[] = [];
+    const slow: EventHandler = {
+      handle: async () => {
+        log.push('slow:start');
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        log.push('slow:end');
+      },
+    };
+    const fast: EventHandler = {
+      handle: async () => {
+        log.push('fast');
+      },
+    };
+    bus.subscribe('UserCreated', slow);
+    bus.subscribe('UserCreated', fast);
+    bus.subscribe('UserDeactivated', slow);
+    bus.subscribe('UserDeactivated', fast);
+
+    await bus.publish(event('evt-1'));
+    await bus.publish(event('evt-2', 'UserDeactivated'));
+
+    expect(log).toEqual(['slow:start', 'slow:end', 'fast', 'slow:start', 'fast', 'slow:end']);
+  });
+
+  it('should publish a batch in the order it was raised', async () => {
+    const bus = new InMemoryEventBus({ clock, deadLetters });
+    const log: string[] = [];
+    bus.subscribe('UserCreated', {
+      handle: async (created) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        log.push(created.eventId);
+      },
+    });
+    bus.subscribe('UserEmailChanged', {
+      handle: async (changed) => {
+        log.push(changed.eventId);
+      },
+    });
+
+    await bus.publishAll([event('evt-1'), event('evt-2', 'UserEmailChanged')]);
+
+    expect(log).toEqual(['evt-1', 'evt-2']);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+  BaseDomainEvent,
+  defineEvent,
+  EventDeserializationError,
+  EventRegistry,
+  withEventHeaders,
+} from '@shared/kernel/events';
+
+class OrderPlaced extends BaseDomainEvent {
+  public static readonly eventType = 'orders.OrderPlaced';
+  public static readonly eventVersion = 3;
+
+  constructor(
+    aggregateId: string,
+    public readonly totalCents: number,
+    public readonly currency: string,
+    occurredAt: Date,
+    eventId = 'evt-1',
+  ) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+const OrderPlacedDefinition = defineEvent(OrderPlaced, {
+  schema: z.object({ totalCents: z.number().int(), currency: z.string().length(3) }),
+  toPayload: (event) => ({ totalCents: event.totalCents, currency: event.currency }),
+  fromPayload: (payload, { aggregateId, occurredAt, eventId }) =>
+    new OrderPlaced(aggregateId, payload.totalCents, payload.currency, occurredAt, eventId),
+  upcasters: {
+    1: (payload) => ({ ...payload, currency: 'EUR' }),
+    2: ({ total, ...rest }) => ({ ...rest, totalCents: Math.round(Number(total) * 100) }),
+  },
+});
+
+const envelope = (eventVersion: number, payload: Record<string, unknown>): unknown => ({
+  eventId: 'evt-1',
+  eventType: 'orders.OrderPlaced',
+  eventVersion,
+  aggregateId: 'order-1',
+  occurredAt: '2026-01-04T00:00:00.000Z',
+  payload,
+});
+
+describe('EventRegistry', () => {
+  const registry = new EventRegistry().register(OrderPlacedDefinition);
+
+  it('should serialize with the declared type, version and ISO timestamp', () => {
+    const event = new OrderPlaced('order-1', 1250, 'USD', new Date('2026-01-04T00:00:00Z'));
+
+    expect(registry.serialize(event)).toEqual(envelope(3, { totalCents: 1250, currency: 'USD' }));
+  });
+
+  it('should carry event headers through the envelope', () => {
+    const event = new OrderPlaced('order-1', 1250, 'USD', new Date('2026-01-04T00:00:00Z'));
+    const carried = withEventHeaders(event, { traceparent: '00-abc-def-01' });
+
+    const result = registry.deserialize(registry.serialize(carried));
+
+    if (!result.isSuccess) throw result.error;
+    expect(result.value).toBeInstanceOf(OrderPlaced);
+    expect(result.value.headers).toEqual({ traceparent: '00-abc-def-01' });
+    expect(event.headers).toBeUndefined();
+  });
+
+  it('should upcast old versions to the current shape', () => {
+    const result = registry.deserialize(envelope(1, { total: 12.5 }));
+
+    if (!result.isSuccess) throw result.error;
+    expect(result.value).toBeInstanceOf(OrderPlaced);
+    expect(result.value).toMatchObject({ totalCents: 1250, currency: 'EUR', eventVersion: 3 });
+    expect(result.value.occurredAt).toEqual(new Date('2026-01-04T00:00:00Z'));
+  });
+
+  it('should reject unknown types, future versions and invalid payloads', () => {
+    const unknown = registry.deserialize({ ...(envelope(1, {}) as object), eventType: 'x.Y' });
+    const future = registry.deserialize(envelope(4, { totalCents: 1, currency: 'EUR' }));
+    const invalid = registry.deserialize(envelope(3, { totalCents: 'ten', currency: 'EUR' }));
+    const malformed = registry.deserialize({ eventType: 'orders.OrderPlaced' });
+
+    for (const result of [unknown, future, invalid, malformed]) {
+      expect(result.isFailure).toBe(true);
+      if (!result.isFailure) throw new Error('Expected failure');
+      expect(result.error).toBeInstanceOf(EventDeserializationError);
+      expect(result.error.code).toBe('EVENT_DESERIALIZATION_FAILED');
+    }
+  });
+
+  it('should refuse duplicate registrations and events without a static type', () => {
+    class Untyped extends BaseDomainEvent {}
+
+    expect(() => registry.register(OrderPlacedDefinition)).toThrow('already registered');
+    expect(() => new Untyped('a', 'b', new Date())).toThrow('must declare a static eventType');
+  });
+});
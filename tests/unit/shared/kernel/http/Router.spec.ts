@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { HttpError, Router, route, type RouteHandler } from '@shared/kernel/http';
+
+describe('Router', () => {
+  const ok: RouteHandler = async () => ({ status: 200 });
+  const router = new Router([
+    route('GET', '/users', ok),
+    route('POST', '/users', ok),
+    route('GET', '/users/:id', ok),
+    route('DELETE', '/users/:id/sessions/:sessionId', ok),
+  ]);
+
+  it('should match literal and parameterized paths', () => {
+    expect(router.match('GET', '/users/').params).toEqual({});
+    expect(router.match('GET', '/users/a%20b').params).toEqual({ id: 'a b' });
+    expect(router.match('DELETE', '/users/u-1/sessions/s-1').params).toEqual({
+      id: 'u-1',
+      sessionId: 's-1',
+    });
+  });
+
+  it('should distinguish unknown paths from unsupported methods', () => {
+    const notFound = (() => {
+      try {
+        router.match('GET', '/groups');
+      } catch (e) {
+        return e;
+      }
+    })();
+    const notAllowed = (() => {
+      try {
+        router.match('PUT', '/users');
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(notFound).toBeInstanceOf(HttpError);
+    expect(notFound).toMatchObject({ status: 404, code: 'ROUTE_NOT_FOUND' });
+    expect(notAllowed).toMatchObject({
+      status: 405,
+      code: 'METHOD_NOT_ALLOWED',
+      details: { allowed: ['GET', 'POST'] },
+    });
+  });
+
+  it('should not match malformed parameter encodings', () => {
+    expect(() => router.match('GET', '/users/%E0%A4%A')).toThrow(HttpError);
+  });
+
+  it('should reject ambiguous route tables', () => {
+    expect(() => new Router([route('GET', '/users/:id', ok), route('GET', '/users/:key', ok)]))
+      .toThrow('Route GET /users/:key is declared twice');
+  });
+});
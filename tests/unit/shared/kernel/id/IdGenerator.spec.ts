@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InvalidIdError,
+  SequentialIdGenerator,
+  UlidGenerator,
+  UuidV7Generator,
+  defineId,
+  isValidUUID,
+  isValidUlid,
+} from '@shared/kernel/id';
+import { FixedClock, ManualClock } from '@shared/kernel/time';
+
+const start = new Date('2026-01-01T00:00:00Z');
+
+describe('UuidV7Generator', () => {
+  it('should produce version 7 UUIDs carrying the clock timestamp', () => {
+    const id = new UuidV7Generator(new FixedClock(start)).next();
+
+    expect(isValidUUID(id)).toBe(true);
+    expect(id[14]).toBe('7');
+    expect(parseInt(id.replace(/-/g, '').slice(0, 12), 16)).toBe(start.getTime());
+  });
+
+  it('should sort by creation time and stay monotonic within a millisecond', () => {
+    const clock = new ManualClock(start);
+    const generator = new UuidV7Generator(clock);
+
+    const ids = Array.from({ length: 50 }, () => generator.next());
+    clock.advance(1);
+    ids.push(generator.next());
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual(ids);
+  });
+});
+
+describe('UlidGenerator', () => {
+  it('should produce monotonic ULIDs', () => {
+    const clock = new ManualClock(start);
+    const generator = new UlidGenerator(clock);
+
+    const ids = Array.from({ length: 50 }, () => generator.next());
+    clock.advance(1);
+    ids.push(generator.next());
+
+    expect(ids.every(isValidUlid)).toBe(true);
+    expect(ids[0]?.slice(0, 10)).toBe('01KDVDNA00');
+    expect([...ids].sort()).toEqual(ids);
+  });
+});
+
+describe('SequentialIdGenerator', () => {
+  it('should yield predictable, valid UUIDs', () => {
+    const generator = new SequentialIdGenerator();
+
+    expect(generator.next()).toBe('00000000-0000-7000-8000-000000000001');
+    expect(generator.next()).toBe('00000000-0000-7000-8000-000000000002');
+    expect(new SequentialIdGenerator(255).next()).toBe('00000000-0000-7000-8000-0000000000ff');
+    expect(isValidUUID(new SequentialIdGenerator().next())).toBe(true);
+  });
+});
+
+describe('isValidUUID', () => {
+  it('should accept versions 1 through 8 only', () => {
+    const withVersion = (v: string): string => `0190a1b2-c3d4-${v}e5f-8a6b-7c8d9e0f1a2b`;
+
+    for (const v of ['1', '4', '6', '7', '8']) {
+      expect(isValidUUID(withVersion(v))).toBe(true);
+    }
+    expect(isValidUUID(withVersion('0'))).toBe(false);
+    expect(isValidUUID(withVersion('9'))).toBe(false);
+  });
+});
+
+describe('defineId', () => {
+  const OrderIds = defineId('OrderId');
+
+  it('should parse valid ids and reject others with a brand-specific error', () => {
+    const valid = OrderIds.parse('00000000-0000-7000-8000-000000000001');
+    const invalid = OrderIds.parse('not-an-id');
+
+    expect(valid.isSuccess).toBe(true);
+    if (!invalid.isFailure) throw new Error('Expected failure');
+    expect(invalid.error).toBeInstanceOf(OrderIds.InvalidError);
+    expect(invalid.error).toBeInstanceOf(InvalidIdError);
+    expect(invalid.error.code).toBe('INVALID_ORDER_ID');
+    expect(invalid.error.message).toBe('Invalid OrderId: not-an-id');
+  });
+
+  it('should generate ids from an injected generator', () => {
+    expect(OrderIds.generate(new SequentialIdGenerator(7))).toBe(
+      '00000000-0000-7000-8000-000000000007',
+    );
+  });
+
+  it('should honour a custom validator', () => {
+    const TicketIds = defineId('TicketId', { validate: isValidUlid });
+
+    expect(TicketIds.is(new UlidGenerator().next())).toBe(true);
+    expect(TicketIds.is('00000000-0000-7000-8000-000000000001')).toBe(false);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  JsonLogger,
+  childLogger,
+  type LogLevel,
+  type Logger,
+} from '@shared/kernel/logger';
+import { ApplicationError, DomainError } from '@shared/kernel/errors';
+import { FixedClock } from '@shared/kernel/time';
+import { envSchema, resolveLoggingConfig } from '@config/index';
+
+class UserAlreadyExistsError extends ApplicationError {
+  constructor(email: string) {
+    super(`User with email ${email} already exists`, 'USER_ALREADY_EXISTS', { email });
+  }
+}
+
+class InvalidEmailError extends DomainError {
+  constructor() {
+    super('Invalid email', 'INVALID_EMAIL');
+  }
+}
+
+describe('JsonLogger', () => {
+  let lines: Array<{ line: string; level: LogLevel }>;
+  const clock = new FixedClock(new Date('2026-01-04T00:00:00Z'));
+  const write = (line: string, level: LogLevel): void => {
+    lines.push({ line, level });
+  };
+  const parsed = (index = 0): Record<string, unknown> =>
+    JSON.parse(lines[index]?.line ?? 'null') as Record<string, unknown>;
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('should write one JSON line per entry', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: false, clock, write });
+
+    logger.info('User created', { userId: 'user-1' });
+
+    expect(lines).toHaveLength(1);
+    expect(parsed()).toEqual({
+      time: '2026-01-04T00:00:00.000Z',
+      level: 'info',
+      message: 'User created',
+      userId: 'user-1',
+    });
+  });
+
+  it('should filter entries below the configured level', () => {
+    const logger = new JsonLogger({ level: 'warn', pretty: false, clock, write });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(lines.map((l) => l.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should serialize application and domain errors via toJSON', () => {
+    const logger = new JsonLogger({ level: 'debug', pretty: false, clock, write });
+
+    logger.error('Create failed', new UserAlreadyExistsError('a@example.com'));
+    logger.error('Invalid input', new InvalidEmailError());
+
+    expect(parsed(0).error).toMatchObject({
+      name: 'UserAlreadyExistsError',
+      code: 'USER_ALREADY_EXISTS',
+      details: { email: 'a@example.com' },
+    });
+    expect(parsed(1).error).toMatchObject({ name: 'InvalidEmailError', code: 'INVALID_EMAIL' });
+  });
+
+  it('should carry bound fields on child loggers', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: false, clock, write });
+
+    const child = logger.child({ module: 'example' }).child({ commandId: 'cmd-1' });
+    child.info('Handling', { traceId: 'trace-1' });
+    logger.info('Root');
+
+    expect(parsed(0)).toMatchObject({ module: 'example', commandId: 'cmd-1', traceId: 'trace-1' });
+    expect(parsed(1)).not.toHaveProperty('module');
+  });
+
+  it('should redact configured keys at any depth', () => {
+    const logger = new JsonLogger({
+      level: 'info',
+      pretty: false,
+      redact: ['Email', 'password'],
+      clock,
+      write,
+    });
+
+    logger.info('Signup', { email: 'a@example.com', profile: { password: 'secret', name: 'A' } });
+    logger.error('Create failed', new UserAlreadyExistsError('a@example.com'));
+
+    expect(parsed(0)).toMatchObject({
+      email: '[REDACTED]',
+      profile: { password: '[REDACTED]', name: 'A' },
+    });
+    expect(parsed(1).error).toMatchObject({ details: { email: '[REDACTED]' } });
+    expect(lines[1]?.line).not.toContain('a@example.com');
+  });
+
+  it('should redact known values from messages as well as fields', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: false, redact: ['token'], clock, write });
+
+    logger.info('Refreshing session abc-12345', { token: 'abc-12345', note: 'used abc-12345' });
+
+    expect(parsed()).toMatchObject({
+      message: 'Refreshing session [REDACTED]',
+      token: '[REDACTED]',
+      note: 'used [REDACTED]',
+    });
+  });
+
+  it('should mask short secrets only in their own field', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: false, redact: ['token'], clock, write });
+
+    logger.info('Session refreshed', { token: 'e', note: 'retried 1 time' });
+
+    expect(parsed()).toMatchObject({
+      message: 'Session refreshed',
+      token: '[REDACTED]',
+      note: 'retried 1 time',
+    });
+  });
+
+  it('should bind fields on loggers that do not implement child', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: false, clock, write });
+    const plain: Logger = {
+      debug: (message, context) => logger.debug(message, context),
+      info: (message, context) => logger.info(message, context),
+      warn: (message, context) => logger.warn(message, context),
+      error: (message, error, context) => logger.error(message, error, context),
+    };
+
+    childLogger(plain, { requestId: 'req-1' }).info('Handled', { status: 200 });
+
+    expect(parsed()).toMatchObject({ requestId: 'req-1', status: 200 });
+  });
+
+  it('should write a human readable line in pretty mode', () => {
+    const logger = new JsonLogger({ level: 'info', pretty: true, clock, write });
+
+    logger.info('User created', { userId: 'user-1', attempt: 2 });
+
+    expect(lines[0]?.line).toBe('2026-01-04T00:00:00.000Z INFO  User created userId=user-1 attempt=2');
+  });
+
+  it('should be built from environment config', () => {
+    const config = resolveLoggingConfig(
+      envSchema.parse({ LOG_LEVEL: 'error', LOG_PRETTY: 'false', LOG_REDACT: 'token, email' }),
+    );
+
+    expect(config).toEqual({ level: 'error', pretty: false, redact: ['token', 'email'] });
+    expect(JsonLogger.fromConfig(config).isLevelEnabled('warn')).toBe(false);
+    expect(resolveLoggingConfig(envSchema.parse({})).level).toBe('info');
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Application,
+  CircularDependencyError,
+  DuplicateProviderError,
+  InvalidExportError,
+  Kernel,
+  MissingPortError,
+  createToken,
+  defineModule,
+  provideFactory,
+  provideValue,
+  subscribeTo,
+} from '@shared/kernel/module';
+import { BaseDomainEvent } from '@shared/kernel/events';
+import { InMemoryOutbox, OutboxRelay } from '@shared/kernel/persistence';
+import { FixedClock } from '@shared/kernel/time';
+
+class Pinged extends BaseDomainEvent {
+  public static readonly eventType = 'test.Pinged';
+}
+
+describe('Application', () => {
+  const Greeting = createToken<string>('test.Greeting');
+  const Greeter = createToken<() => string>('test.Greeter');
+
+  const greetings = defineModule({
+    name: 'greetings',
+    providers: [provideValue(Greeting, 'hello')],
+    exports: [Greeting],
+  });
+  const greeter = defineModule({
+    name: 'greeter',
+    requires: [Greeting],
+    providers: [provideFactory(Greeter, [Greeting], (greeting) => () => `${greeting}!`)],
+    exports: [Greeter],
+  });
+
+  it('should resolve exported providers across modules', () => {
+    const application = Application.bootstrap({ modules: [greeter, greetings] });
+
+    expect(application.get(Greeter)()).toBe('hello!');
+    expect(application.modules.map((m) => m.name)).toEqual(['greetings', 'greeter']);
+  });
+
+  it('should let an override replace a provider with one line', () => {
+    const application = Application.bootstrap({
+      modules: [greetings, greeter],
+      overrides: [provideValue(Greeting, 'hi')],
+    });
+
+    expect(application.get(Greeter)()).toBe('hi!');
+  });
+
+  it('should report a required port nothing provides', () => {
+    const error = (() => {
+      try {
+        Application.bootstrap({ modules: [greeter] });
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(MissingPortError);
+    expect((error as MissingPortError).details).toEqual({
+      module: 'greeter',
+      port: 'test.Greeting',
+      requiredBy: undefined,
+    });
+  });
+
+  it('should report dependencies a module did not declare', () => {
+    const sneaky = defineModule({
+      name: 'sneaky',
+      providers: [provideFactory(Greeter, [Greeting], (greeting) => () => greeting)],
+    });
+
+    expect(() => Application.bootstrap({ modules: [greetings, sneaky] })).toThrow(
+      'Module sneaky: test.Greeter depends on test.Greeting',
+    );
+  });
+
+  it('should reject duplicate providers and exports a module does not provide', () => {
+    const impostor = defineModule({ name: 'impostor', providers: [provideValue(Greeting, 'hey')] });
+    const bragger = defineModule({ name: 'bragger', exports: [Greeting] });
+
+    expect(() => Application.bootstrap({ modules: [greetings, impostor] })).toThrow(
+      DuplicateProviderError,
+    );
+    expect(() => Application.bootstrap({ modules: [greetings, impostor] })).toThrow(
+      'test.Greeting is provided by both greetings and impostor',
+    );
+    expect(() => Application.bootstrap({ modules: [bragger] })).toThrow(InvalidExportError);
+  });
+
+  it('should detect cycles between modules and between providers', () => {
+    const A = createToken<string>('test.A');
+    const B = createToken<string>('test.B');
+    const first = defineModule({
+      name: 'first',
+      requires: [B],
+      providers: [provideValue(A, 'a')],
+      exports: [A],
+    });
+    const second = defineModule({
+      name: 'second',
+      requires: [A],
+      providers: [provideValue(B, 'b')],
+      exports: [B],
+    });
+    const selfish = defineModule({
+      name: 'selfish',
+      providers: [
+        provideFactory(A, [B], (b) => b),
+        provideFactory(B, [A], (a) => a),
+      ],
+    });
+
+    expect(() => Application.bootstrap({ modules: [first, second] })).toThrow(
+      CircularDependencyError,
+    );
+    expect(() => Application.bootstrap({ modules: [first, second] })).toThrow(
+      'Circular dependency: first -> second -> first',
+    );
+    expect(() => Application.bootstrap({ modules: [selfish] })).toThrow(
+      'Circular dependency: test.A -> test.B -> test.A',
+    );
+  });
+
+  it('should start modules in dependency order and stop them in reverse', async () => {
+    const calls: string[] = [];
+    const track = (name: string) => ({
+      onStart: () => void calls.push(`start ${name}`),
+      onStop: () => void calls.push(`stop ${name}`),
+    });
+    const application = Application.bootstrap({
+      modules: [
+        { ...greeter, ...track('greeter') },
+        { ...greetings, ...track('greetings') },
+      ],
+    });
+
+    await application.start();
+    await application.stop();
+
+    expect(calls).toEqual(['start greetings', 'start greeter', 'stop greeter', 'stop greetings']);
+  });
+
+  it('should stop started modules when a later one fails to start', async () => {
+    const calls: string[] = [];
+    const application = Application.bootstrap({
+      modules: [
+        { ...greetings, onStop: () => void calls.push('stop greetings') },
+        {
+          ...greeter,
+          onStart: () => {
+            throw new Error('boom');
+          },
+        },
+      ],
+    });
+
+    await expect(application.start()).rejects.toThrow('boom');
+    expect(calls).toEqual(['stop greetings']);
+  });
+
+  it('should subscribe handlers on the kernel event bus with their dependencies', async () => {
+    const received: string[] = [];
+    const clock = new FixedClock(new Date('2026-01-04T00:00:00Z'));
+    const application = Application.bootstrap({
+      modules: [
+        greetings,
+        defineModule({
+          name: 'listener',
+          requires: [Greeting, Kernel.Clock],
+          subscriptions: [
+            subscribeTo(Pinged.eventType, [Greeting, Kernel.Clock], (greeting, now) => ({
+              handle: async () => void received.push(`${greeting} at ${now.now().toISOString()}`),
+            })),
+          ],
+        }),
+      ],
+      overrides: [provideValue(Kernel.Clock, clock)],
+    });
+
+    await application.get(Kernel.EventBus).publish(new Pinged('p-1', 'e-1', new Date()));
+
+    expect(received).toEqual(['hello at 2026-01-04T00:00:00.000Z']);
+  });
+
+  it('should relay the outbox while started', async () => {
+    const received: string[] = [];
+    const outbox = new InMemoryOutbox();
+    const clock = new FixedClock(new Date('2026-01-04T00:00:00Z'));
+    const application = Application.bootstrap({
+      modules: [
+        defineModule({
+          name: 'listener',
+          subscriptions: [
+            subscribeTo(Pinged.eventType, [], () => ({
+              handle: async (event: Pinged) => void received.push(event.eventId),
+            })),
+          ],
+        }),
+      ],
+      overrides: [
+        provideValue(Kernel.Clock, clock),
+        provideValue(Kernel.Outbox, outbox),
+        provideFactory(
+          Kernel.OutboxRelay,
+          [Kernel.Outbox, Kernel.EventBus, Kernel.Clock],
+          (source, eventBus, now) => new OutboxRelay(source, eventBus, now, { pollIntervalMs: 1 }),
+        ),
+      ],
+    });
+    await outbox.append([new Pinged('p-1', 'e-1', new Date())], clock.now());
+
+    await application.start();
+    await vi.waitFor(() => expect(received).toEqual(['e-1']));
+    await application.stop();
+    await outbox.append([new Pinged('p-1', 'e-2', new Date())], clock.now());
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).toEqual(['e-1']);
+  });
+});
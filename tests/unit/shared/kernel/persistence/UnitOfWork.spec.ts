@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AggregateRoot } from '@shared/kernel/domain';
+import {
+  InMemoryDeadLetterStore,
+  InMemoryEventBus,
+  type DomainEvent,
+} from '@shared/kernel/events';
+import {
+  InMemoryOutbox,
+  InMemoryUnitOfWork,
+  OutboxRelay,
+  type TransactionParticipant,
+} from '@shared/kernel/persistence';
+import { failure, success } from '@shared/kernel/result';
+import { ManualClock } from '@shared/kernel/time';
+
+class Counter extends AggregateRoot<string> {
+  constructor(id: string) {
+    super(id);
+  }
+
+  public increment(eventId: string): void {
+    this.record({ eventId, eventType: 'Incremented', aggregateId: this.id, occurredAt: new Date() });
+  }
+}
+
+class CounterStore implements TransactionParticipant {
+  private readonly saved = new Map<string, Counter>();
+  public failOn?: string;
+  public gate?: Promise<void>;
+
+  public async save(counter: Counter): Promise<void> {
+    await this.gate;
+    if (counter.id === this.failOn) {
+      throw new Error(`cannot save ${counter.id}`);
+    }
+    this.saved.set(counter.id, counter);
+  }
+
+  public ids(): string[] {
+    return [...this.saved.keys()];
+  }
+
+  public savepoint(ids: readonly string[]): () => void {
+    const snapshot = ids.map((id) => [id, this.saved.get(id)] as const);
+    return () => {
+      snapshot.forEach(([id, counter]) =>
+        counter ? this.saved.set(id, counter) : this.saved.delete(id),
+      );
+    };
+  }
+}
+
+describe('InMemoryUnitOfWork', () => {
+  let clock: ManualClock;
+  let outbox: InMemoryOutbox;
+  let store: CounterStore;
+  let unitOfWork: InMemoryUnitOfWork;
+
+  beforeEach(() => {
+    clock = new ManualClock(new Date('2026-01-04T00:00:00Z'));
+    outbox = new InMemoryOutbox();
+    store = new CounterStore();
+    unitOfWork = new InMemoryUnitOfWork(outbox, clock, [store]);
+  });
+
+  it('should commit tracked aggregates and their events together', async () => {
+    const counter = new Counter('a');
+    counter.increment('evt-1');
+
+    await unitOfWork.run(async (scope) => {
+      scope.track(counter, (c) => store.save(c));
+    });
+
+    expect(store.ids()).toEqual(['a']);
+    expect(outbox.all().map((m) => m.id)).toEqual(['evt-1']);
+    expect(counter.getDomainEvents()).toEqual([]);
+  });
+
+  it('should roll back every write when one aggregate fails to persist', async () => {
+    const first = new Counter('a');
+    const second = new Counter('b');
+    first.increment('evt-1');
+    second.increment('evt-2');
+    store.failOn = 'b';
+
+    await expect(
+      unitOfWork.run(async (scope) => {
+        scope.track(first, (c) => store.save(c));
+        scope.track(second, (c) => store.save(c));
+      }),
+    ).rejects.toThrow('cannot save b');
+
+    expect(store.ids()).toEqual([]);
+    expect(outbox.all()).toEqual([]);
+    expect(first.getDomainEvents()).toHaveLength(1);
+  });
+
+  it('should only roll back its own writes when units of work interleave', async () => {
+    const failing = new Counter('a');
+    const succeeding = new Counter('b');
+    failing.increment('evt-1');
+    succeeding.increment('evt-2');
+    store.failOn = 'a';
+    let open = (): void => {};
+    store.gate = new Promise((resolve) => (open = resolve));
+
+    const first = unitOfWork.run(async (scope) => {
+      scope.track(failing, (c) => store.save(c));
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    store.gate = undefined;
+    await unitOfWork.run(async (scope) => {
+      scope.track(succeeding, (c) => store.save(c));
+    });
+    open();
+
+    await expect(first).rejects.toThrow('cannot save a');
+    expect(store.ids()).toEqual(['b']);
+    expect(outbox.all().map((m) => m.id)).toEqual(['evt-2']);
+  });
+
+  it('should not write anything when the work returns a failure', async () => {
+    const counter = new Counter('a');
+    counter.increment('evt-1');
+
+    const result = await unitOfWork.run(async (scope) => {
+      scope.track(counter, (c) => store.save(c));
+      return failure(new Error('rejected'));
+    });
+
+    expect(result.isFailure).toBe(true);
+    expect(store.ids()).toEqual([]);
+    expect(outbox.all()).toEqual([]);
+  });
+
+  describe('OutboxRelay', () => {
+    let bus: InMemoryEventBus;
+    let delivered: DomainEvent[];
+    let failures: number;
+    const subscriber = {
+      handle: async (event: DomainEvent) => {
+        if (failures > 0) {
+          failures -= 1;
+          throw new Error('subscriber down');
+        }
+        delivered.push(event);
+      },
+    };
+
+    beforeEach(async () => {
+      bus = new InMemoryEventBus();
+      delivered = [];
+      failures = 0;
+      bus.subscribe('Incremented', subscriber);
+      const counter = new Counter('a');
+      counter.increment('evt-1');
+      await unitOfWork.run(async (scope) => {
+        scope.track(counter, (c) => store.save(c));
+        return success(counter);
+      });
+    });
+
+    it('should publish pending events once and mark them processed', async () => {
+      const relay = new OutboxRelay(outbox, bus, clock);
+
+      expect(await relay.relayPending()).toEqual({ processed: 1, failed: 0, dead: 0 });
+      expect(await relay.relayPending()).toEqual({ processed: 0, failed: 0, dead: 0 });
+      expect(delivered.map((e) => e.eventId)).toEqual(['evt-1']);
+      expect(outbox.all()[0]).toMatchObject({ status: 'processed', attempts: 1 });
+    });
+
+    it('should retry failed deliveries after a backoff', async () => {
+      const relay = new OutboxRelay(outbox, bus, clock, { baseDelayMs: 100 });
+      failures = 1;
+
+      expect(await relay.relayPending()).toEqual({ processed: 0, failed: 1, dead: 0 });
+      expect(await relay.relayPending()).toEqual({ processed: 0, failed: 0, dead: 0 });
+
+      clock.advance(100);
+      expect(await relay.relayPending()).toEqual({ processed: 1, failed: 0, dead: 0 });
+      expect(delivered).toHaveLength(1);
+    });
+
+    it('should mark a message dead after the maximum attempts', async () => {
+      const relay = new OutboxRelay(outbox, bus, clock, { maxAttempts: 2, baseDelayMs: 10 });
+      failures = 5;
+
+      await relay.relayPending();
+      clock.advance(10);
+      expect(await relay.relayPending()).toEqual({ processed: 0, failed: 0, dead: 1 });
+      expect(outbox.all()[0]).toMatchObject({ status: 'dead', lastError: 'subscriber down' });
+    });
+
+    it('should leave subscriber failures to the dead-letter store when the bus has one', async () => {
+      const deadLetters = new InMemoryDeadLetterStore();
+      bus = new InMemoryEventBus({ deadLetters, clock });
+      bus.subscribe('Incremented', subscriber, { name: 'counter-view' });
+      const relay = new OutboxRelay(outbox, bus, clock);
+      failures = 1;
+
+      expect(await relay.relayPending()).toEqual({ processed: 1, failed: 0, dead: 0 });
+      const [letter] = await bus.listDeadLetters();
+      if (!letter) throw new Error('Expected a dead letter');
+      expect(letter).toMatchObject({ handlerName: 'counter-view', event: { eventId: 'evt-1' } });
+
+      expect(await bus.replayDeadLetter(letter.id)).toBe(true);
+      expect(delivered.map((e) => e.eventId)).toEqual(['evt-1']);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, expectTypeOf, vi } from 'vitest';
+import {
+  Result,
+  ResultAsync,
+  failure,
+  failureAsync,
+  fromPromise,
+  isFailure,
+  isSuccess,
+  success,
+  successAsync,
+  tryCatch,
+  type Failure,
+  type Success,
+} from '@shared/kernel/result';
+
+const parse = (input: string): Result<number, string> => {
+  const value = Number(input);
+  return Number.isNaN(value) ? failure(`not a number: ${input}`) : success(value);
+};
+
+describe('Result', () => {
+  it('should narrow with the type guards', () => {
+    const result = parse('42');
+
+    if (isSuccess(result)) {
+      expectTypeOf(result).toEqualTypeOf<Success<number>>();
+      expect(result.value).toBe(42);
+    }
+    const failed = parse('x');
+    if (isFailure(failed)) {
+      expectTypeOf(failed).toEqualTypeOf<Failure<string>>();
+      expect(failed.error).toBe('not a number: x');
+    }
+  });
+
+  it('should chain, recover, tap and match', () => {
+    const seen = vi.fn();
+
+    const doubled = parse('21')
+      .andThen((n) => (n > 0 ? success(n * 2) : failure('negative')))
+      .tap(seen);
+    const recovered = parse('x').orElse(() => success(0));
+
+    expect(doubled.match({ success: (n) => `ok ${n}`, failure: (e) => `err ${e}` })).toBe('ok 42');
+    expect(recovered.getOrThrow()).toBe(0);
+    expect(seen).toHaveBeenCalledWith(42);
+  });
+
+  it('should combine results keeping the first error or every error', () => {
+    const combined = Result.combine([parse('1'), success('two')]);
+    expectTypeOf(combined).toEqualTypeOf<Result<[number, string], string>>();
+    expect(combined.getOrThrow()).toEqual([1, 'two']);
+
+    expect(Result.combine([parse('a'), parse('b')])).toEqual(failure('not a number: a'));
+    expect(Result.all([parse('a'), parse('1'), parse('b')])).toEqual(
+      failure(['not a number: a', 'not a number: b']),
+    );
+  });
+
+  it('should capture thrown exceptions', () => {
+    const result = tryCatch(
+      () => JSON.parse('{') as unknown,
+      (thrown) => (thrown as Error).name,
+    );
+
+    expect(result).toEqual(failure('SyntaxError'));
+  });
+});
+
+describe('ResultAsync', () => {
+  it('should chain sync and async steps and resolve to a Result', async () => {
+    const result = await successAsync<string, string>('21')
+      .andThen(parse)
+      .map(async (n) => n * 2)
+      .andThen((n) => Promise.resolve(success(`${n}`)));
+
+    expect(result).toEqual(success('42'));
+  });
+
+  it('should skip steps after a failure and map or recover the error', async () => {
+    const step = vi.fn();
+
+    const failed = await ResultAsync.from(parse('x')).map(step).mapError((e) => e.toUpperCase());
+    const recovered = await failureAsync<number, string>('boom').orElse(() => successAsync(0));
+
+    expect(step).not.toHaveBeenCalled();
+    expect(failed).toEqual(failure('NOT A NUMBER: X'));
+    expect(recovered).toEqual(success(0));
+  });
+
+  it('should turn rejections into typed failures', async () => {
+    const result = await fromPromise(Promise.reject(new Error('offline')), (thrown) => ({
+      reason: (thrown as Error).message,
+    }));
+
+    expect(result).toEqual(failure({ reason: 'offline' }));
+  });
+
+  it('should combine async results', async () => {
+    const first = await ResultAsync.combine([successAsync(1), successAsync('a')]);
+    const all = await ResultAsync.all([failureAsync('a'), successAsync(1), failureAsync('b')]);
+
+    expect(first).toEqual(success([1, 'a']));
+    expect(all).toEqual(failure(['a', 'b']));
+  });
+
+  it('should run side effects with tap and fold with match', async () => {
+    const seen: string[] = [];
+
+    const message = await successAsync<number, string>(1)
+      .tap((n) => {
+        seen.push(`value ${n}`);
+      })
+      .andThen(() => failure('late'))
+      .tapError((e) => {
+        seen.push(`error ${e}`);
+      })
+      .match({ success: () => 'ok', failure: (e) => `failed: ${e}` });
+
+    expect(message).toBe('failed: late');
+    expect(seen).toEqual(['value 1', 'error late']);
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { context, SpanStatusCode, type Tracer } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+  InMemoryCommandBus,
+  InMemoryQueryBus,
+  type AnyCommandMap,
+  type AnyQueryMap,
+  type Command,
+} from '@shared/kernel/bus';
+import { z } from 'zod';
+import {
+  BaseDomainEvent,
+  defineEvent,
+  EventRegistry,
+  InMemoryEventBus,
+  type DomainEvent,
+} from '@shared/kernel/events';
+import { ApplicationError } from '@shared/kernel/errors';
+import { InMemoryOutbox } from '@shared/kernel/persistence';
+import { failure } from '@shared/kernel/result';
+import {
+  ERROR_CODE_ATTRIBUTE,
+  TRACEPARENT_HEADER,
+  TraceContextLogger,
+  TracingEventBus,
+  TracingMiddleware,
+  TracingOutbox,
+} from '@shared/kernel/tracing';
+import type { LogContext, Logger } from '@shared/kernel/logger';
+
+class ConflictError extends ApplicationError {
+  constructor() {
+    super('conflict', 'CONFLICT');
+  }
+}
+
+class CapturingLogger implements Logger {
+  public readonly contexts: Array<LogContext | undefined> = [];
+
+  public debug(_message: string, context?: LogContext): void {
+    this.contexts.push(context);
+  }
+
+  public info(_message: string, context?: LogContext): void {
+    this.contexts.push(context);
+  }
+
+  public warn(_message: string, context?: LogContext): void {
+    this.contexts.push(context);
+  }
+
+  public error(_message: string, _error?: Error, context?: LogContext): void {
+    this.contexts.push(context);
+  }
+
+  public child(): Logger {
+    return this;
+  }
+}
+
+class UserCreated extends BaseDomainEvent {
+  public static readonly eventType = 'UserCreated';
+  public static readonly eventVersion = 1;
+
+  constructor(aggregateId: string, occurredAt: Date, eventId: string) {
+    super(aggregateId, eventId, occurredAt);
+  }
+}
+
+const registry = new EventRegistry().register(
+  defineEvent(UserCreated, {
+    schema: z.object({}),
+    toPayload: () => ({}),
+    fromPayload: (_payload, { aggregateId, occurredAt, eventId }) =>
+      new UserCreated(aggregateId, occurredAt, eventId),
+  }),
+);
+
+const command = (commandType: string): Command => ({ commandId: 'cmd-1', commandType });
+
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const contextManager = new AsyncLocalStorageContextManager();
+  let tracer: Tracer;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+    tracer = provider.getTracer('test');
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it('should open a span named after the command type', async () => {
+    const bus = new InMemoryCommandBus<AnyCommandMap>();
+    bus.use(new TracingMiddleware(tracer));
+    bus.register('CreateUser', { handle: async () => 'ok' });
+
+    await bus.execute(command('CreateUser'));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.name).toBe('CreateUser');
+    expect(span?.attributes['modulith.message.id']).toBe('cmd-1');
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should record thrown application errors with their code', async () => {
+    const bus = new InMemoryQueryBus<AnyQueryMap>();
+    bus.use(new TracingMiddleware(tracer));
+    bus.register('GetUser', {
+      handle: async () => {
+        throw new ConflictError();
+      },
+    });
+
+    await expect(bus.execute({ queryId: 'q-1', queryType: 'GetUser' })).rejects.toThrow();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.name).toBe('GetUser');
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span?.attributes[ERROR_CODE_ATTRIBUTE]).toBe('CONFLICT');
+    expect(span?.events.some((e) => e.name === 'exception')).toBe(true);
+  });
+
+  it('should mark returned failures as errors', async () => {
+    const bus = new InMemoryCommandBus<AnyCommandMap>();
+    bus.use(new TracingMiddleware(tracer));
+    bus.register('CreateUser', { handle: async () => failure(new ConflictError()) });
+
+    await bus.execute(command('CreateUser'));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span?.attributes[ERROR_CODE_ATTRIBUTE]).toBe('CONFLICT');
+  });
+
+  it('should link event handler spans to the raising command span', async () => {
+    const events = new TracingEventBus(new InMemoryEventBus(), tracer);
+    const handled: string[] = [];
+    events.subscribe('UserCreated', {
+      handle: async (event) => {
+        handled.push(event.eventId);
+      },
+    });
+    const event: DomainEvent = {
+      eventId: 'evt-1',
+      eventType: 'UserCreated',
+      aggregateId: 'user-1',
+      occurredAt: new Date(),
+    };
+    const bus = new InMemoryCommandBus<AnyCommandMap>();
+    bus.use(new TracingMiddleware(tracer));
+    bus.register('CreateUser', { handle: () => events.publish(event) });
+
+    await bus.execute(command('CreateUser'));
+
+    const spans = exporter.getFinishedSpans();
+    const commandSpan = spans.find((s) => s.name === 'CreateUser');
+    const handlerSpan = spans.find((s) => s.name === 'UserCreated');
+    expect(handled).toEqual(['evt-1']);
+    expect(handlerSpan?.links.map((l) => l.context.spanId)).toEqual([
+      commandSpan?.spanContext().spanId,
+    ]);
+  });
+
+  it('should link handlers of relayed events through the stored traceparent header', async () => {
+    const outbox = new TracingOutbox(new InMemoryOutbox());
+    const raised = new UserCreated('user-1', new Date(), 'evt-1');
+    const bus = new InMemoryCommandBus<AnyCommandMap>();
+    bus.use(new TracingMiddleware(tracer));
+    bus.register('CreateUser', { handle: () => outbox.append([raised], new Date()) });
+    await bus.execute(command('CreateUser'));
+    const [message] = await outbox.pending(new Date(), 10);
+    if (!message) throw new Error('Expected a pending outbox message');
+
+    const stored = JSON.parse(JSON.stringify(registry.serialize(message.event)));
+    const restored = registry.deserialize(stored);
+    if (!restored.isSuccess) throw restored.error;
+    const events = new TracingEventBus(new InMemoryEventBus(), tracer);
+    events.subscribe('UserCreated', { handle: async () => undefined });
+    await events.publish(restored.value);
+
+    const spans = exporter.getFinishedSpans();
+    const commandSpan = spans.find((s) => s.name === 'CreateUser');
+    const handlerSpan = spans.find((s) => s.name === 'UserCreated');
+    expect(raised.headers).toBeUndefined();
+    expect(message.event).toBeInstanceOf(UserCreated);
+    expect(stored.headers[TRACEPARENT_HEADER]).toBe(
+      `00-${commandSpan?.spanContext().traceId}-${commandSpan?.spanContext().spanId}-01`,
+    );
+    expect(handlerSpan?.links.map((l) => l.context.spanId)).toEqual([
+      commandSpan?.spanContext().spanId,
+    ]);
+  });
+
+  it('should populate traceId and spanId in log context from the active span', () => {
+    const inner = new CapturingLogger();
+    const logger = new TraceContextLogger(inner);
+
+    logger.info('outside');
+    tracer.startActiveSpan('work', (span) => {
+      logger.info('inside', { module: 'example' });
+      span.end();
+    });
+
+    const [span] = exporter.getFinishedSpans();
+    expect(inner.contexts[0]).toBeUndefined();
+    expect(inner.contexts[1]).toEqual({
+      traceId: span?.spanContext().traceId,
+      spanId: span?.spanContext().spanId,
+      module: 'example',
+    });
+  });
+});